@@ -4,8 +4,13 @@ import { Slider } from './ui/slider';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { audioService } from '../services/audioService';
 import { socketService } from '../services/socketService';
+import { bargeInController, BargeInStats } from '../services/bargeInController';
+import { voiceActivityDetection, VadStats } from '../services/voiceActivityDetection';
+import { endpointing, EndpointingStrategy, EndpointRecord } from '../services/endpointing';
+import { useNoiseCalibration } from '../hooks/use-noise-calibration';
 
 interface AudioControlsProps {
   className?: string;
@@ -14,24 +19,35 @@ interface AudioControlsProps {
 export function AudioControls({ className }: AudioControlsProps) {
   const [metrics, setMetrics] = useState<any>({});
   const [isVisible, setIsVisible] = useState(false);
-  const [playbackRate, setPlaybackRate] = useState(0.7);
+  const [speechRate, setSpeechRate] = useState(1.0);
   const [volume, setVolume] = useState(0.8);
   const [sentencePauses, setSentencePauses] = useState(true);
   const [dynamicVolume, setDynamicVolume] = useState(true);
+  const [streaming, setStreaming] = useState(false);
+  const [bargeIn, setBargeIn] = useState(() => bargeInController.getConfig().enabled);
+  const [bargeInStats, setBargeInStats] = useState<BargeInStats>(() => bargeInController.getStats());
+  const [vadStats, setVadStats] = useState<VadStats>(() => voiceActivityDetection.getStats());
+  const [endpointStrategy, setEndpointStrategy] = useState<EndpointingStrategy>(() => endpointing.getConfig().strategy);
+  const [lastEndpoint, setLastEndpoint] = useState<EndpointRecord | null>(null);
+  const calibration = useNoiseCalibration();
 
   // Update metrics every second
   useEffect(() => {
     const interval = setInterval(() => {
       setMetrics(audioService.getPerformanceMetrics());
+      setBargeInStats(bargeInController.getStats());
+      setVadStats(voiceActivityDetection.getStats());
     }, 1000);
 
     return () => clearInterval(interval);
   }, []);
 
-  const handlePlaybackRateChange = (value: number[]) => {
+  useEffect(() => endpointing.on('endpoint', setLastEndpoint), []);
+
+  const handleSpeechRateChange = (value: number[]) => {
     const newRate = value[0];
-    setPlaybackRate(newRate);
-    audioService.updateConfig({ defaultPlaybackRate: newRate });
+    setSpeechRate(newRate);
+    audioService.updateConfig({ speechRate: newRate });
   };
 
   const handleVolumeChange = (value: number[]) => {
@@ -52,6 +68,22 @@ export function AudioControls({ className }: AudioControlsProps) {
     audioService.updateConfig({ dynamicVolume: checked });
   };
 
+  const handleBargeInChange = (checked: boolean) => {
+    setBargeIn(checked);
+    bargeInController.configure({ enabled: checked });
+  };
+
+  const handleEndpointStrategyChange = (value: string) => {
+    const strategy = value as EndpointingStrategy;
+    setEndpointStrategy(strategy);
+    endpointing.configure({ strategy });
+  };
+
+  const handleStreamingChange = (checked: boolean) => {
+    setStreaming(checked);
+    audioService.updateConfig({ playbackMode: checked ? 'streaming' : 'buffered' });
+  };
+
   const toggleVisibility = () => {
     setIsVisible(!isVisible);
   };
@@ -136,19 +168,122 @@ export function AudioControls({ className }: AudioControlsProps) {
               {metrics.speechQuality || 'Unknown'}
             </Badge>
           </div>
+
+          {metrics.streaming && (
+            <>
+              <div className="flex items-center justify-between text-xs">
+                <span>Stream Buffer:</span>
+                <span className="font-mono">{metrics.streaming.bufferedMs}ms / {metrics.streaming.targetLatencyMs}ms</span>
+              </div>
+
+              <div className="flex items-center justify-between text-xs">
+                <span>Underruns:</span>
+                <Badge variant={metrics.streaming.underruns > 0 ? 'destructive' : 'secondary'}>
+                  {metrics.streaming.underruns}
+                </Badge>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Echo gating (VAD vs. playback reference) */}
+        <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between text-xs">
+            <span>Echo Reference:</span>
+            <Badge variant={vadStats.hasPlaybackReference ? 'default' : 'secondary'}>
+              {vadStats.hasPlaybackReference ? (vadStats.echo.referenceActive ? 'Playing' : 'Idle') : 'Off'}
+            </Badge>
+          </div>
+
+          <div className="flex items-center justify-between text-xs">
+            <span>Echo Suppressed:</span>
+            <span className="font-mono">{vadStats.suppressedDetections} detections / {vadStats.suppressedFrames} frames</span>
+          </div>
+
+          <div className="flex items-center justify-between text-xs">
+            <span>Echo Coupling:</span>
+            <span className="font-mono">{vadStats.echo.couplingDb} dB</span>
+          </div>
         </div>
 
-        {/* Playback Rate Control */}
+        {/* Noise Calibration (per input device) */}
+        <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between text-xs">
+            <span>Noise Calibration:</span>
+            <Badge variant={calibration.status === 'failed' ? 'destructive' : calibration.status === 'calibrated' ? 'default' : 'secondary'}>
+              {calibration.status === 'calibrating' ? `${Math.round(calibration.progress * 100)}%` : calibration.status}
+            </Badge>
+          </div>
+
+          {calibration.result && (
+            <>
+              <div className="flex items-center justify-between text-xs">
+                <span>Noise Floor:</span>
+                <span className="font-mono">{calibration.result.noiseFloorDb} dB</span>
+              </div>
+
+              <div className="flex items-center justify-between text-xs">
+                <span>Speech Threshold:</span>
+                <span className="font-mono">{calibration.result.positiveThreshold} / {calibration.result.negativeThreshold}</span>
+              </div>
+
+              <div className="flex items-center justify-between text-xs">
+                <span>End-of-speech Silence:</span>
+                <span className="font-mono">{calibration.result.minSilenceDuration}ms</span>
+              </div>
+            </>
+          )}
+
+          {calibration.error && (
+            <p className="text-xs text-destructive">{calibration.error}</p>
+          )}
+
+          <Button
+            onClick={() => calibration.recalibrate()}
+            disabled={calibration.status === 'calibrating'}
+            variant="outline"
+            size="sm"
+            className="w-full text-xs"
+          >
+            Recalibrate (stay quiet for 3s)
+          </Button>
+        </div>
+
+        {/* End of Turn */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span>End of Turn:</span>
+            <Select value={endpointStrategy} onValueChange={handleEndpointStrategyChange}>
+              <SelectTrigger className="h-7 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fixed-silence" className="text-xs">Fixed silence</SelectItem>
+                <SelectItem value="adaptive-silence" className="text-xs">Adapt to speaking rate</SelectItem>
+                <SelectItem value="punctuation-aware" className="text-xs">Sentence aware</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {lastEndpoint && (
+            <div className="flex items-center justify-between text-xs">
+              <span>Last Endpoint ({lastEndpoint.trigger}):</span>
+              <span className="font-mono">{lastEndpoint.silenceMs}ms / {lastEndpoint.requiredSilenceMs}ms</span>
+            </div>
+          )}
+        </div>
+
+        {/* Speech Speed Control (pitch-preserving) */}
         <div className="space-y-2">
           <div className="flex items-center justify-between text-xs">
-            <span>Playback Speed:</span>
-            <span className="font-mono">{playbackRate.toFixed(1)}x</span>
+            <span>Speech Speed:</span>
+            <span className="font-mono">{speechRate.toFixed(1)}x</span>
           </div>
           <Slider
-            value={[playbackRate]}
-            onValueChange={handlePlaybackRateChange}
-            max={1.0}
-            min={0.2}
+            value={[speechRate]}
+            onValueChange={handleSpeechRateChange}
+            max={2.0}
+            min={0.5}
             step={0.1}
             className="w-full"
           />
@@ -181,6 +316,24 @@ export function AudioControls({ className }: AudioControlsProps) {
             />
           </div>
           
+          <div className="flex items-center justify-between text-xs">
+            <span>Gapless Streaming:</span>
+            <Switch
+              checked={streaming}
+              onCheckedChange={handleStreamingChange}
+              className="scale-75"
+            />
+          </div>
+          
+          <div className="flex items-center justify-between text-xs">
+            <span>Barge-in ({bargeInStats.interruptions} / {bargeInStats.candidates}, {bargeInStats.echoRejections} echo):</span>
+            <Switch
+              checked={bargeIn}
+              onCheckedChange={handleBargeInChange}
+              className="scale-75"
+            />
+          </div>
+          
           <div className="flex items-center justify-between text-xs">
             <span>Sentence Pauses:</span>
             <Switch
@@ -0,0 +1,114 @@
+import { useEffect, useRef } from "react";
+import { Link } from "react-router-dom";
+import { History, Keyboard, MessagesSquare, SquarePen } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { ExportMenu } from "@/components/ExportMenu";
+import { useConversation } from "@/hooks/use-conversation";
+import { useTheme } from "@/contexts/ThemeContext";
+import type { Turn } from "@/services/conversationStore";
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export function TurnItem({ turn }: { turn: Turn }) {
+  const isUser = turn.speaker === "user";
+  const inProgress = turn.endedAt === null;
+
+  return (
+    <div className={`flex flex-col gap-1 ${isUser ? "items-end" : "items-start"}`}>
+      <div className="flex items-center gap-2 text-[11px] text-muted-foreground">
+        <span className="font-medium">{isUser ? "You" : "AI"}</span>
+        {turn.modality === "text" && <Keyboard size={12} aria-label="Typed" />}
+        <span>{formatTime(turn.startedAt)}</span>
+        {turn.latencyMs !== null && <span className="font-mono">{(turn.latencyMs / 1000).toFixed(1)}s</span>}
+      </div>
+
+      <div
+        className={`max-w-[85%] rounded-2xl px-3 py-2 text-sm ${
+          isUser ? "bg-primary text-primary-foreground" : "bg-muted"
+        } ${inProgress ? "opacity-70" : ""}`}
+      >
+        {turn.text || <span className="italic opacity-70">{inProgress ? "..." : "(no text)"}</span>}
+      </div>
+
+      {turn.heardText && turn.heardText !== turn.text && (
+        <p className="max-w-[85%] text-[11px] text-muted-foreground">Heard: {turn.heardText}</p>
+      )}
+      {turn.interrupted && (
+        <Badge variant="outline" className="text-[10px]">
+          {isUser ? "Not sent" : "Interrupted"}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+// Every user and AI turn of the conversation; stays available after the mic is turned off
+export function ConversationPanel() {
+  const { isDark } = useTheme();
+  const { conversationId, turns, updatedAt, startNew } = useConversation();
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Follow the conversation as turns arrive or grow
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "end" });
+  }, [updatedAt]);
+
+  return (
+    <div className="fixed top-16 left-4 z-50">
+      <Sheet>
+        <SheetTrigger asChild>
+          <button
+            className={`cursor-target flex items-center gap-2 backdrop-blur-xl border rounded-full px-4 py-2 shadow-2xl text-sm transition-all duration-300 ${
+              isDark
+                ? 'bg-black/20 border-white/10 text-white/70 hover:text-white'
+                : 'bg-white/90 border-blue-900/20 text-blue-900/80 hover:text-blue-900'
+            }`}
+            title="Conversation history"
+          >
+            <MessagesSquare size={16} />
+            <span className="font-mono">{turns.length}</span>
+          </button>
+        </SheetTrigger>
+        <SheetContent side="left" className="flex w-full flex-col gap-4 sm:max-w-md">
+          <SheetHeader>
+            <SheetTitle>Conversation</SheetTitle>
+            <SheetDescription>Spoken and typed turns, with reply latency; saved in this browser</SheetDescription>
+          </SheetHeader>
+
+          <ScrollArea className="flex-1 pr-3">
+            {turns.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">Nothing said yet</p>
+            ) : (
+              <div className="space-y-4 pb-2">
+                {turns.map((turn) => (
+                  <TurnItem key={turn.id} turn={turn} />
+                ))}
+                <div ref={endRef} />
+              </div>
+            )}
+          </ScrollArea>
+
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex-1" onClick={startNew} disabled={turns.length === 0}>
+              <SquarePen size={14} className="mr-2" />
+              New conversation
+            </Button>
+            <Button variant="ghost" size="sm" className="flex-1" asChild>
+              <Link to="/sessions">
+                <History size={14} className="mr-2" />
+                All conversations
+              </Link>
+            </Button>
+            <ExportMenu conversationId={conversationId} disabled={turns.length === 0} />
+          </div>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { conversationExport, EXPORT_FORMATS, type ExportFormat } from "@/services/conversationExport";
+
+interface ExportMenuProps {
+  conversationId: string;
+  hasAudio?: boolean; // Offer the WAV export; unknown for the conversation in progress, so it's tried
+  disabled?: boolean;
+}
+
+// Download a conversation as a transcript, captions, structured data or stitched audio
+export function ExportMenu({ conversationId, hasAudio = true, disabled = false }: ExportMenuProps) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await conversationExport.download(conversationId, format);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The conversation could not be exported.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" disabled={disabled || isExporting} title="Export conversation">
+          {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem
+            key={format.id}
+            disabled={format.id === "wav" && !hasAudio}
+            onSelect={() => handleExport(format.id)}
+          >
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -2,21 +2,27 @@
 
 import { useEffect, useRef } from "react"
 import { useTheme } from "@/contexts/ThemeContext"
+import type { InputMode } from "@/services/voiceSettings"
+import { microphoneManager, type MicrophoneLease } from "@/services/microphoneManager"
 
 interface InteractiveSoundBallProps {
   isListening?: boolean;
+  isTransmitting?: boolean; // Mic is on but, in push-to-talk or wake-on-voice, may not be sending yet
+  mode?: InputMode;
 }
 
-export function InteractiveSoundBall({ isListening = false }: InteractiveSoundBallProps) {
+export function InteractiveSoundBall({ isListening = false, isTransmitting = isListening, mode = "hands-free" }: InteractiveSoundBallProps) {
   const { isDark } = useTheme()
+  // Read by the animation loop, which outlives the render that started it
+  const inputRef = useRef({ isTransmitting, mode })
+  inputRef.current = { isTransmitting, mode }
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const asciiRef = useRef<HTMLDivElement>(null)
   const animationRef = useRef<number>()
-  const audioContextRef = useRef<AudioContext>()
   const analyserRef = useRef<AnalyserNode>()
   const dataArrayRef = useRef<Uint8Array>()
-  const sourceRef = useRef<MediaStreamAudioSourceNode>()
-  const streamRef = useRef<MediaStream>()
+  // A tap on the session's microphone; never opens a stream of its own
+  const microphoneRef = useRef<MicrophoneLease | null>(null)
 
   // ASCII characters from darkest to lightest
   const asciiChars = " .:-=+*#%@"
@@ -157,6 +163,10 @@ export function InteractiveSoundBall({ isListening = false }: InteractiveSoundBa
     let volume = 0
     let dominantFreq = 0
 
+    // How strongly the ball follows the mic: fully while sending, faintly while armed and waiting
+    const { isTransmitting: transmitting, mode: inputMode } = inputRef.current
+    const reactivity = transmitting ? 1 : inputMode === "wake-on-voice" ? 0.5 : 0.2
+
     if (analyserRef.current && dataArrayRef.current && isListening) {
       analyserRef.current.getByteFrequencyData(dataArrayRef.current)
 
@@ -176,12 +186,18 @@ export function InteractiveSoundBall({ isListening = false }: InteractiveSoundBa
       }
       dominantFreq = maxIndex / dataArrayRef.current.length
 
-      ball.targetRadius = ball.baseRadius + volume * 120
+      ball.targetRadius = ball.baseRadius + volume * 120 * reactivity
       ball.targetHue = 200 + dominantFreq * 160
 
+      if (!transmitting) {
+        const time = Date.now() / 1000
+        // Wake-on-voice breathes while it waits; push-to-talk sits smaller until the button is held
+        ball.targetRadius += inputMode === "wake-on-voice" ? Math.sin(time * 2) * 8 : -ball.baseRadius * 0.15
+      }
+
       // Lower threshold for particle creation
       const particleThreshold = 0.05
-      if (volume > particleThreshold) {
+      if (transmitting && volume > particleThreshold) {
         addParticles(volume, canvas)
       }
     } else {
@@ -254,7 +270,7 @@ export function InteractiveSoundBall({ isListening = false }: InteractiveSoundBa
 
         // Get amplitude with boost
         let amplitude = dataArrayRef.current[i * 4] / 255
-        amplitude = Math.min(1, amplitude * 3)
+        amplitude = Math.min(1, amplitude * 3) * reactivity
 
         const barLength = amplitude * 60
 
@@ -304,58 +320,39 @@ export function InteractiveSoundBall({ isListening = false }: InteractiveSoundBa
     resizeCanvas()
     window.addEventListener("resize", resizeCanvas)
 
-    const initAudio = async () => {
-      if (!isListening) return;
-      
-      // Prevent multiple initializations
-      if (audioContextRef.current || streamRef.current) {
-        console.log('Audio already initialized, skipping...');
-        return;
-      }
-      
-      try {
-        // Request microphone with optimized constraints for all devices
-        const constraints = {
-          audio: {
-            echoCancellation: false,
-            noiseSuppression: false,
-            autoGainControl: false,
-            // Try to get the best possible audio quality
-            sampleRate: 48000,
-            channelCount: 1,
-            volume: 1.0,
-          },
-        }
-
-        // Don't request mic permission here - it's handled by MicButton
-        // We'll use the existing stream if available
-        const stream = await navigator.mediaDevices.getUserMedia(constraints)
-        streamRef.current = stream
-
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-          // Higher sample rate for better quality
-          sampleRate: 48000,
-        })
-
-        const analyser = audioContext.createAnalyser()
-        const source = audioContext.createMediaStreamSource(stream)
+    let cancelled = false
+    let unsubscribeMicrophone = () => {}
 
-        // Adjust analyser settings for better sensitivity
-        analyser.fftSize = 256
-        analyser.smoothingTimeConstant = 0.5 // Less smoothing for more responsiveness
+    const createAnalyser = (microphone: MicrophoneLease) => {
+      // Less smoothing and a boosted signal keep the ball responsive on quiet mics
+      const analyser = microphone.createAnalyser({ fftSize: 256, smoothingTimeConstant: 0.5, gain: 3 })
+      analyserRef.current = analyser
+      dataArrayRef.current = new Uint8Array(analyser.frequencyBinCount)
+    }
 
-        // Add gain to boost the signal for all devices
-        const gainNode = audioContext.createGain()
-        gainNode.gain.value = 3.0 // Boost the signal
-        source.connect(gainNode)
-        gainNode.connect(analyser)
+    const releaseAudio = () => {
+      unsubscribeMicrophone()
+      if (microphoneRef.current) {
+        microphoneRef.current.release()
+        microphoneRef.current = null
+      }
+      analyserRef.current = undefined
+    }
 
-        audioContextRef.current = audioContext
-        analyserRef.current = analyser
-        sourceRef.current = source
-        dataArrayRef.current = new Uint8Array(analyser.frequencyBinCount)
+    const initAudio = async () => {
+      // Prevent multiple initializations
+      if (microphoneRef.current) return
 
-        console.log("Audio initialized with high sensitivity for all devices")
+      try {
+        const microphone = await microphoneManager.acquire("visualizer")
+        if (cancelled) {
+          microphone.release()
+          return
+        }
+        microphoneRef.current = microphone
+        createAnalyser(microphone)
+        // Follow the session onto a newly chosen or replugged mic
+        unsubscribeMicrophone = microphoneManager.on("stream-change", () => createAnalyser(microphone))
       } catch (err) {
         console.error("Error accessing microphone:", err)
       }
@@ -365,16 +362,7 @@ export function InteractiveSoundBall({ isListening = false }: InteractiveSoundBa
       initAudio()
     } else {
       // Clean up audio when not listening
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach((track) => track.stop())
-        streamRef.current = null
-      }
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        audioContextRef.current.close().catch(err => {
-          console.warn('Error closing audio context:', err)
-        })
-        audioContextRef.current = null
-      }
+      releaseAudio()
     }
 
     // Add a small delay to ensure canvas is properly sized before starting animation
@@ -387,16 +375,8 @@ export function InteractiveSoundBall({ isListening = false }: InteractiveSoundBa
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current)
       }
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach((track) => track.stop())
-        streamRef.current = null
-      }
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        audioContextRef.current.close().catch(err => {
-          console.warn('Error closing audio context:', err)
-        })
-        audioContextRef.current = null
-      }
+      cancelled = true
+      releaseAudio()
     }
   }, [isListening])
 
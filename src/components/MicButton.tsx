@@ -1,10 +1,11 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useEffect, useCallback, type PointerEvent as ReactPointerEvent } from "react";
 import { Mic, MicOff, Loader2, VolumeX } from "lucide-react";
-import { socketService } from "@/services/socketService";
-import { speechRecognition } from "@/services/speechRecognition";
-import { audioService } from "@/services/audioService";
+import { socketService, type Unsubscribe } from "@/services/socketService";
 
 import { useToast } from "@/hooks/use-toast";
+import { useVoiceSession } from "@/hooks/use-voice-session";
+import { useTranscript } from "@/hooks/use-transcript";
+import { useNoiseCalibration } from "@/hooks/use-noise-calibration";
 import { useTheme } from "@/contexts/ThemeContext";
 
 interface MicButtonProps {
@@ -17,461 +18,182 @@ export function MicButton({
   onMicStateChange
 }: MicButtonProps) {
   const { isDark } = useTheme();
-  const [isMicOn, setIsMicOn] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  const [isToggling, setIsToggling] = useState(false);
-
-  const [connectionAttempts, setConnectionAttempts] = useState(0);
-  const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
+  const { isMicOn, isToggling, isTransmitting, inputMode, error, connection, toggle, stop, pressToTalk, releaseToTalk } = useVoiceSession();
+  const isPushToTalk = inputMode === 'push-to-talk';
+  const transcript = useTranscript();
+  const calibration = useNoiseCalibration();
+  const isConnecting = connection.isConnecting;
   const { toast } = useToast();
-  
-  // Use ref to track if component is mounted
-  const isMountedRef = useRef(true);
-  
-  // Debug: Log component lifecycle
-  useEffect(() => {
-    console.log('🎤 MicButton mounted');
-    return () => {
-      console.log('🎤 MicButton unmounting');
-      isMountedRef.current = false;
-    };
-  }, []);
 
   // Notify parent of mic state changes
   useEffect(() => {
-    onMicStateChange?.(isMicOn, isMicOn); // When mic is on, it's also recording
-  }, [isMicOn, onMicStateChange]); // Include onMicStateChange to prevent stale closure
+    onMicStateChange?.(isMicOn, isMicOn && isTransmitting); // Push-to-talk and wake-on-voice only record while the user talks
+  }, [isMicOn, isTransmitting, onMicStateChange]); // Include onMicStateChange to prevent stale closure
 
-  // Handle connection status updates
+  // Forward the live transcript to the parent in the single-channel format it expects
   useEffect(() => {
-    const checkConnectionStatus = () => {
-      if (!isMountedRef.current) return;
-      
-      const isConnected = socketService.isConnected();
-      const isConnecting = socketService.isConnecting();
-      
-      setIsConnected(isConnected);
-      setIsConnecting(isConnecting);
-    };
-    
-    // Check immediately
-    checkConnectionStatus();
-    
-    // Set up interval to check connection status
-    const interval = setInterval(checkConnectionStatus, 2000);
-    
-    return () => {
-      clearInterval(interval);
-    };
-  }, []);
+    if (!transcript.text || !onTranscriptUpdate) return;
+    if (transcript.source === 'heard') {
+      onTranscriptUpdate(`AI heard: ${transcript.text}`);
+    } else if (transcript.source === 'ai') {
+      onTranscriptUpdate(`AI: ${transcript.text}`);
+    } else {
+      onTranscriptUpdate(transcript.text);
+    }
+  }, [transcript, onTranscriptUpdate]);
 
+  // Recognition hiccups are recovered internally and were never surfaced to the user
   useEffect(() => {
-    // Setup all socket event listeners for AI communication
-    // Only setup when component mounts, not on every render
-    console.log('🎧 Setting up AI event listeners...');
-    
-    socketService.onSessionStatus((data) => {
-      console.log('Session status:', data);
-      if (!isMountedRef.current) return;
-      
-      if (data.status === 'active') {
-        setIsConnected(true);
-        setConnectionAttempts(0); // Reset connection attempts on successful connection
-        toast({
-          title: "Session Active",
-          description: "Voice interface is ready",
-        });
-      } else if (data.status === 'ended') {
-        setIsConnected(false);
-      }
+    if (!error || error.source === 'recognition') return;
+    toast({
+      title: error.title,
+      description: error.message,
+      variant: error.recovering ? undefined : "destructive",
     });
+  }, [error, toast]);
 
-    socketService.onAudioResponse((data) => {
-      // Debug: Log only first few chunks to reduce spam
-      if (data.index <= 2) {
-        console.log('🔊 Audio chunk received:', data.index, '/', data.total);
-        console.log('🔍 MicButton received data:', {
-          hasAudio: !!data.audio,
-          hasChunk: !!data.chunk,
-          audioLength: data.audio?.length || 0,
-          chunkLength: data.chunk?.length || 0,
-          audioPreview: data.audio?.substring(0, 20) + '...',
-          chunkPreview: data.chunk?.substring(0, 20) + '...'
-        });
-      }
-      
-      // Handle transcript if available
-      if (data.transcript && onTranscriptUpdate) {
-        onTranscriptUpdate(data.transcript);
-      }
-      
-      // Get audio data from either field
-      const audioData = data.audio || data.chunk || '';
-      
-      // Play audio response (backend now sends proper WAV chunks)
-      if (audioData && audioData.length > 0) {
-        if (data.index <= 2) {
-          console.log('🎵 CALLING AUDIO SERVICE for WAV chunk:', data.index + '/' + data.total, 'length:', audioData.length);
-          if (data.sessionId) {
-            console.log('🔍 Session ID:', data.sessionId);
-          }
+  // Conversation progress notifications
+  useEffect(() => {
+    const unsubscribers: Unsubscribe[] = [
+      socketService.onSessionStatus((data) => {
+        if (data.status === 'active') {
+          toast({
+            title: "Session Active",
+            description: "Voice interface is ready",
+          });
         }
-        
-
-        
-        audioService.playAudioResponse(audioData, data.index, data.total, data.sessionId);
-      } else {
-        console.log('❌ No audio data in chunk:', data.index);
-      }
-    });
-
-    // Listen for transcript events
-    socketService.onTranscript((data) => {
-      console.log('📝 Transcript:', data.text);
-      if (data.text && onTranscriptUpdate) {
-        onTranscriptUpdate(data.text);
-      }
-    });
-
-    // Listen for AI thinking state
-    socketService.onAIThinking((data) => {
-      console.log('🤔 AI is thinking:', data.message);
-      // Show thinking indicator - you can add state for this
-      toast({
-        title: "AI Thinking",
-        description: data.message || "Processing your request...",
-      });
-    });
-
-    // Listen for AI typing indicator
-    socketService.onAITyping((data) => {
-      if (!isMountedRef.current) return;
-      
-      if (data.status === 'started') {
-        console.log('⌨️ AI is typing...');
-        // Show typing indicator
+      }),
+      socketService.onAIThinking((data) => {
         toast({
-          title: "AI Typing",
-          description: "Generating response...",
+          title: "AI Thinking",
+          description: data.message || "Processing your request...",
         });
-      } else {
-        console.log('✅ AI finished typing');
-        // Hide typing indicator
-      }
-    });
-
-    // Listen for transcription feedback
-    socketService.onTranscription((data) => {
-      console.log('🎧 AI heard:', data.text);
-      // Show what AI heard - you can add state for this
-      if (onTranscriptUpdate) {
-        onTranscriptUpdate(`AI heard: ${data.text}`);
-      }
-    });
-
-    // Listen for AI response text
-    socketService.onAIResponseText((data) => {
-      console.log('🤖 AI response:', data.text);
-      
-      // Show AI's text response - you can add state for this
-      if (onTranscriptUpdate) {
-        onTranscriptUpdate(`AI: ${data.text}`);
-      }
-      // Show notification that AI is speaking
-      toast({
-        title: "AI Speaking",
-        description: "Playing response with Gemini Live...",
-      });
-    });
-
-    // Listen for AI finished speaking
-    socketService.onAIFinished((data) => {
-      console.log('✅ AI finished speaking:', data.text);
-      if (!isMountedRef.current) return;
-      
-      // Wait for audio to finish before resetting
-      const waitAndReset = async () => {
-        console.log('🎵 Waiting for audio to finish before reset...');
-        
-        // Wait for audio to finish (max 30 seconds)
-        const audioFinished = await audioService.waitForAudioToFinish(30000);
-        
-        if (audioFinished) {
-          console.log('🎵 Audio finished naturally, proceeding with reset');
-        } else {
-          console.log('⏰ Audio timeout reached, forcing reset');
+      }),
+      socketService.onAITyping((data) => {
+        if (data.status === 'started') {
+          toast({
+            title: "AI Typing",
+            description: "Generating response...",
+          });
         }
-        
-        // Reset services for continuous conversation
-        socketService.resetForContinuousConversation();
-        audioService.resetForContinuousConversation();
-        
-        // Reset speech recognition for new query but keep it active
-        speechRecognition.resetForNewQuery();
-        
-        // Debug speech recognition state
-        console.log('🔍 SPEECH RECOGNITION STATE AFTER RESET:', speechRecognition.getState());
-        
-        // The speech recognition service will handle its own restart
-        // Additional check for stuck recognition after a delay
-        setTimeout(() => {
-          console.log('🔍 SPEECH RECOGNITION STATE AFTER 2s:', speechRecognition.getState());
-          if (isMicOn && speechRecognition.isAvailable() && speechRecognition.isCurrentlyListening() && !speechRecognition.isWorking()) {
-            console.log('🔄 FORCE RESTARTING SPEECH RECOGNITION (stuck detection)');
-            speechRecognition.forceRestart();
-          }
-        }, 2000); // Check after 2 seconds
-        
-        // Hide thinking indicator - you can add state for this
+      }),
+      socketService.onAIResponseText(() => {
+        toast({
+          title: "AI Speaking",
+          description: "Playing response with Gemini Live...",
+        });
+      }),
+      socketService.onAIFinished(() => {
         toast({
           title: "AI Finished",
           description: "Response complete",
         });
-      };
-      
-      // Start waiting after a short delay to allow audio to finish naturally
-      setTimeout(waitAndReset, 500);
-    });
+      }),
+    ];
 
-    socketService.onError((error) => {
-      console.error('❌ Socket error:', error);
-      if (!isMountedRef.current) return;
-      
-      // Handle session-related errors
-      if (error.type === 'no-session') {
-        setIsConnected(false);
-        setIsMicOn(false);
-        toast({
-          title: "Session Lost",
-          description: "Reconnecting to voice service...",
-        });
-        // Try to reconnect with rate limiting
-        if (connectionAttempts < 3) {
-          setTimeout(() => {
-            if (isMountedRef.current) {
-              connectToServer();
-            }
-          }, 2000 * (connectionAttempts + 1)); // Exponential backoff
-        } else {
-          toast({
-            title: "Connection Failed",
-            description: "Too many connection attempts. Please refresh the page.",
-            variant: "destructive",
-          });
-        }
-      } else {
-        toast({
-          title: "Connection Error",
-          description: error.message || "Failed to connect to voice service",
-          variant: "destructive",
-        });
-        setIsMicOn(false);
-        setIsConnecting(false);
-      }
-    });
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [toast]);
 
-    // Setup speech recognition callbacks
-    if (speechRecognition.isAvailable()) {
-      speechRecognition.onResult((transcript, isFinal) => {
-        console.log('🎯 MIC BUTTON RECEIVED:', { transcript, isFinal });
-        if (onTranscriptUpdate) {
-          console.log('📤 SENDING TO PARENT:', transcript);
-          onTranscriptUpdate(transcript);
-        }
+  const toggleMic = useCallback(async () => {
+    const wasOn = isMicOn;
+    const isOn = await toggle();
+    if (!wasOn && isOn) {
+      toast({
+        title: "Microphone On",
+        description: "Speak to talk to the AI",
       });
-
-      speechRecognition.onError((error) => {
-        console.error('Speech recognition error:', error);
+    } else if (wasOn && !isOn) {
+      toast({
+        title: "Microphone Off",
+        description: "Voice features disabled",
       });
     }
+  }, [isMicOn, toggle, toast]);
 
-    return () => {
-      console.log('🧹 MicButton cleanup - removing event listeners');
-      isMountedRef.current = false;
-      socketService.removeAllListeners();
-      speechRecognition.stop();
-      audioService.cleanup();
-      
-      // Only cleanup socket service if we're actually unmounting
-      // Don't cleanup if we're just re-rendering
-      socketService.cleanup();
-    };
-  }, []); // Empty dependency array - only run once on mount
+  // Spacebar is the push-to-talk key, except while typing somewhere
+  useEffect(() => {
+    if (!isPushToTalk) return;
 
-  const connectToServer = useCallback(async () => {
-    // Prevent multiple simultaneous connection attempts
-    if (socketService.isConnecting() || socketService.isConnected()) {
-      console.log('🔌 Connection already in progress or established, skipping...');
-      return;
-    }
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
-    try {
-      setIsConnecting(true);
-      const currentAttempts = connectionAttempts + 1;
-      setConnectionAttempts(currentAttempts);
-      
-      console.log(`🔌 Attempting connection #${currentAttempts}...`);
-      
-      await socketService.connect();
-      
-      // Check if component is still mounted before updating state
-      if (!isMountedRef.current) {
-        console.log('🔌 Component unmounted during connection, aborting...');
-        return;
-      }
-      
-      socketService.startConversation();
-      setIsConnected(true);
-      setIsConnecting(false);
-      
-      console.log('✅ Connection established successfully');
-    } catch (error) {
-      console.error('Failed to connect:', error);
-      
-      // Check if component is still mounted before updating state
-      if (!isMountedRef.current) {
-        console.log('🔌 Component unmounted during connection error, aborting...');
-        return;
-      }
-      
-      setIsConnecting(false);
-      setIsConnected(false);
-      
-      if (connectionAttempts < 3) {
-        toast({
-          title: "Connection Failed",
-          description: `Retrying connection (${connectionAttempts + 1}/3)...`,
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          title: "Connection Failed",
-          description: "Could not connect to voice server. Please refresh the page.",
-          variant: "destructive",
-        });
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || isTyping(event.target)) return;
+      event.preventDefault();
+      if (!event.repeat) {
+        pressToTalk();
       }
-    }
-  }, [connectionAttempts, toast]);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || isTyping(event.target)) return;
+      event.preventDefault();
+      releaseToTalk();
+    };
+    // Letting go outside the window (alt-tab while holding) must not leave the mic streaming
+    const handleBlur = () => releaseToTalk();
 
-  const toggleMic = useCallback(async () => {
-    if (isToggling) return; // Prevent multiple rapid toggles
-    
-    setIsToggling(true);
-    
-    try {
-      // Initialize audio service on first user interaction
-      await audioService.initialize();
-      
-      // Resume audio context on user interaction
-      await audioService.resumeAudioContext();
-      
-      if (!isMicOn) {
-        // Turn mic on - request permission and start recording
-        try {
-          // Request mic permission first
-          const stream = await navigator.mediaDevices.getUserMedia({ 
-            audio: {
-              echoCancellation: true,
-              noiseSuppression: true,
-              autoGainControl: true,
-              sampleRate: 48000
-            } 
-          });
-          
-          // Store the media stream for interruption detection
-          setMediaStream(stream);
-          
-          // Connect to server if not already connected
-          if (!socketService.isConnected() && !socketService.isConnecting()) {
-            await connectToServer();
-          }
-          
-          // Only proceed if connection is established
-          if (socketService.isConnected()) {
-            // Force a complete session reset to ensure clean state after any potential interruption
-            console.log('🔄 FORCING COMPLETE SESSION RESET');
-            socketService.forceSessionReset();
-            audioService.resetForContinuousConversation();
-            
-            // Start recording
-            await socketService.startRecording();
-            
-            // Clear speech recognition history for new conversation
-            speechRecognition.clearHistory();
-            
-            // Also start speech recognition for real-time transcription
-            if (speechRecognition.isAvailable()) {
-              speechRecognition.start();
-            }
-            
-            setIsMicOn(true);
-            
-            toast({
-              title: "Microphone On",
-              description: "Speak to talk to the AI",
-            });
-          } else {
-            toast({
-              title: "Connection Required",
-              description: "Please wait for connection to establish",
-              variant: "destructive",
-            });
-          }
-        } catch (error) {
-          console.error('Microphone permission denied:', error);
-          toast({
-            title: "Microphone Access Required",
-            description: "Please grant microphone permission to use voice features.",
-            variant: "destructive",
-          });
-        }
-      } else {
-        // Turn mic off - stop recording and interrupt AI if speaking
-        console.log('🎤 Turning mic OFF - stopping AI if speaking');
-        
-        // Stop recording
-        socketService.stopRecording();
-        speechRecognition.stop();
-        
-        // Stop media stream
-        if (mediaStream) {
-          mediaStream.getTracks().forEach(track => track.stop());
-          setMediaStream(null);
-        }
-        
-        // Always interrupt AI when mic is turned off, regardless of state
-        console.log('🚫 Stopping AI because mic is being turned off');
-        
-        // Force stop all audio immediately
-        audioService.interrupt();
-        audioService.cleanup();
-        
-        // Send interruption to server
-        socketService.interrupt();
-        
-        setIsMicOn(false);
-        
-        toast({
-          title: "Microphone Off",
-          description: "Voice features disabled",
-        });
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      releaseToTalk();
+    };
+  }, [isPushToTalk, pressToTalk, releaseToTalk]);
+
+  const statusText = calibration.status === 'calibrating'
+    ? "Measuring background noise..."
+    : !isMicOn
+      ? connection.status === 'offline'
+        ? "Offline - waiting for network..."
+        : connection.status === 'reconnecting'
+          ? "Reconnecting..."
+          : (isPushToTalk ? "Hold to talk" : "Mic Off")
+      : isTransmitting
+        ? (isPushToTalk ? "Talking... release to send" : "Talking...")
+        : isPushToTalk
+          ? "Hold to talk (or spacebar)"
+          : "Waiting for speech...";
+
+  const talkHandlers = isPushToTalk
+    ? {
+        onPointerDown: (event: ReactPointerEvent<HTMLButtonElement>) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          pressToTalk();
+        },
+        onPointerUp: () => releaseToTalk(),
+        onPointerCancel: () => releaseToTalk(),
+        onContextMenu: (event: { preventDefault: () => void }) => event.preventDefault(), // Long press on touch screens
       }
-    } finally {
-      setIsToggling(false);
-    }
-  }, [isMicOn, isConnected, isConnecting, connectToServer, toast]);
-
-
+    : { onClick: toggleMic };
 
   return (
     <div className="fixed inset-x-0 bottom-40 z-40 flex flex-col items-center gap-4">
+      {/* Push-to-talk keeps the session open between presses; this ends it */}
+      {isPushToTalk && isMicOn && (
+        <button
+          onClick={() => stop()}
+          disabled={isToggling}
+          className={`cursor-target absolute left-1/2 top-1/2 -translate-y-1/2 translate-x-16 rounded-full border p-3 backdrop-blur-xl transition-all duration-300 hover:scale-105 ${
+            isDark ? 'bg-gray-900/50 border-gray-700/50 text-gray-400' : 'bg-white/90 border-blue-900/20 text-blue-900/80'
+          }`}
+          title="Turn off microphone"
+        >
+          <MicOff size={18} />
+        </button>
+      )}
+
       {/* Main Mic Button */}
       <button
-        onClick={toggleMic}
-        disabled={isConnecting || isToggling}
-        className="cursor-target group relative"
-        title={isMicOn ? "Click to turn off microphone" : "Click to turn on microphone"}
+        {...talkHandlers}
+        // A held push-to-talk button must still see the release while the mic is starting
+        disabled={!isPushToTalk && (isConnecting || isToggling)}
+        className="cursor-target group relative touch-none select-none"
+        title={isPushToTalk ? "Hold to talk" : isMicOn ? "Click to turn off microphone" : "Click to turn on microphone"}
       >
           <div className={`
             backdrop-blur-xl border rounded-full p-6 shadow-2xl 
@@ -479,14 +201,16 @@ export function MicButton({
             ${!isMicOn ? (isDark ? 'bg-gray-900/50 border-gray-700/50' : 'bg-white/90 border-blue-900/20') : 
               (isDark ? 'bg-green-500/20 border-green-500/50' : 'bg-white/90 border-green-600/30')}
             ${(isConnecting || isToggling) ? 'opacity-50' : ''}
-            ${isMicOn ? 'animate-pulse' : ''}
+            ${isMicOn && isTransmitting ? 'animate-pulse' : ''}
           `}>
             {isConnecting ? (
               <Loader2 size={32} className={`animate-spin ${isDark ? 'text-white/80' : 'text-blue-900/80'}`} />
             ) : !isMicOn ? (
               <MicOff size={32} className={isDark ? 'text-gray-500' : 'text-blue-900/80'} />
-            ) : (
+            ) : isTransmitting ? (
               <Mic size={32} className={isDark ? 'text-green-500' : 'text-green-600'} />
+            ) : (
+              <Mic size={32} className={isDark ? 'text-green-500/50' : 'text-green-600/50'} />
             )}
           </div>
           
@@ -494,7 +218,7 @@ export function MicButton({
           <div className={`absolute -bottom-8 left-1/2 transform -translate-x-1/2 text-xs whitespace-nowrap transition-colors duration-300 ${
             isDark ? 'text-white/60' : 'text-blue-900/80'
           }`}>
-            {!isMicOn ? "Mic Off" : "Talking..."}
+            {statusText}
           </div>
         </button>
     </div>
@@ -0,0 +1,80 @@
+import { useState, type FormEvent } from "react";
+import { Loader2, SendHorizontal, Volume2, VolumeX } from "lucide-react";
+
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useVoiceSession } from "@/hooks/use-voice-session";
+import { useVoiceSettings } from "@/hooks/use-voice-settings";
+import { useTheme } from "@/contexts/ThemeContext";
+
+// Typed messages over the same session as voice; usable with the mic on or off
+export function TextComposer() {
+  const { isDark } = useTheme();
+  const { sendText } = useVoiceSession();
+  const { muteReplies, setMuteReplies } = useVoiceSettings();
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!text.trim() || isSending) return;
+
+    setIsSending(true);
+    try {
+      if (await sendText(text)) {
+        setText("");
+      } else {
+        toast({
+          title: "Message Not Sent",
+          description: "Could not reach the voice server. Please try again.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const iconButtonClass = `cursor-target shrink-0 rounded-full p-2 transition-colors duration-300 disabled:opacity-40 ${
+    isDark ? 'text-white/60 hover:text-white' : 'text-blue-900/60 hover:text-blue-900'
+  }`;
+
+  return (
+    <div className="fixed inset-x-0 bottom-[5.5rem] z-40 flex justify-center px-4 safe-area-bottom">
+      <form
+        onSubmit={handleSubmit}
+        className={`flex w-full max-w-md items-center gap-1 backdrop-blur-xl border rounded-full pl-4 pr-1 shadow-2xl transition-all duration-300 ${
+          isDark ? 'bg-black/20 border-white/10' : 'bg-white/90 border-blue-900/20'
+        }`}
+      >
+        <Input
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder="Type a message..."
+          aria-label="Message"
+          className={`h-10 border-0 bg-transparent px-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0 ${
+            isDark ? 'text-white placeholder:text-white/40' : 'text-blue-900 placeholder:text-blue-900/40'
+          }`}
+        />
+        <button
+          type="button"
+          onClick={() => setMuteReplies(!muteReplies)}
+          className={iconButtonClass}
+          title={muteReplies ? "Unmute AI replies" : "Mute AI replies"}
+          aria-pressed={muteReplies}
+        >
+          {muteReplies ? <VolumeX size={18} /> : <Volume2 size={18} />}
+        </button>
+        <button
+          type="submit"
+          disabled={!text.trim() || isSending}
+          className={iconButtonClass}
+          title="Send message"
+        >
+          {isSending ? <Loader2 size={18} className="animate-spin" /> : <SendHorizontal size={18} />}
+        </button>
+      </form>
+    </div>
+  );
+}
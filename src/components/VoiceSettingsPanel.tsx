@@ -0,0 +1,167 @@
+import { Settings2 } from "lucide-react";
+
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useAudioDevices } from "@/hooks/use-audio-devices";
+import { useVoiceSession } from "@/hooks/use-voice-session";
+import { useVoiceSettings } from "@/hooks/use-voice-settings";
+import { useTheme } from "@/contexts/ThemeContext";
+import { INPUT_MODES, SUPPORTED_LANGUAGES, getLanguageLabel, type InputMode } from "@/services/voiceSettings";
+
+const DEFAULT_DEVICE = "default"; // Select items can't have an empty value
+
+const INPUT_MODE_HINTS: Record<InputMode, string> = {
+  'hands-free': 'Listens until you turn the mic off',
+  'push-to-talk': 'Hold the mic button or spacebar while you speak',
+  'wake-on-voice': 'Mic stays armed and starts sending when you speak',
+};
+
+// Conversation language, input mode, audio devices and what gets saved; changes apply mid-session without reconnecting
+export function VoiceSettingsPanel() {
+  const { isDark } = useTheme();
+  const { language, autoDetectLanguage, detectedLanguage, effectiveLanguage, inputMode, saveAudio, inputDeviceId, outputDeviceId, setLanguage, setAutoDetectLanguage, setInputMode, setSaveAudio, setInputDeviceId, setOutputDeviceId } = useVoiceSettings();
+  const { inputs, outputs, hasLabels, isOutputSelectionSupported } = useAudioDevices();
+  const { isMicOn, inputDeviceLabel } = useVoiceSession();
+
+  // Keep a saved tag that isn't in the list selectable instead of showing an empty trigger
+  const options = SUPPORTED_LANGUAGES.some((option) => option.code === language)
+    ? SUPPORTED_LANGUAGES
+    : [...SUPPORTED_LANGUAGES, { code: language, label: language }];
+
+  // A saved mic that's unplugged stays selected; the session uses the default until it's back
+  const deviceMissing = !!inputDeviceId && inputs.length > 0 && !inputs.some((input) => input.deviceId === inputDeviceId);
+  const outputMissing = !!outputDeviceId && outputs.length > 0 && !outputs.some((output) => output.deviceId === outputDeviceId);
+
+  return (
+    <div className="fixed top-4 left-4 z-50 safe-area-top">
+      <Popover>
+        <PopoverTrigger asChild>
+          <button
+            className={`cursor-target flex items-center gap-2 backdrop-blur-xl border rounded-full px-4 py-2 shadow-2xl text-sm transition-all duration-300 ${
+              isDark
+                ? 'bg-black/20 border-white/10 text-white/70 hover:text-white'
+                : 'bg-white/90 border-blue-900/20 text-blue-900/80 hover:text-blue-900'
+            }`}
+            title="Voice settings: language, input mode and audio devices"
+          >
+            <Settings2 size={16} />
+            <span className="font-mono">{effectiveLanguage}</span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="conversation-language" className="text-xs">Language</Label>
+            <Select value={language} onValueChange={setLanguage}>
+              <SelectTrigger id="conversation-language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((option) => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="auto-detect-language" className="text-xs">Follow detected language</Label>
+            <Switch id="auto-detect-language" checked={autoDetectLanguage} onCheckedChange={setAutoDetectLanguage} />
+          </div>
+
+          {autoDetectLanguage && (
+            <p className="text-xs text-muted-foreground">
+              {detectedLanguage
+                ? `Detected: ${getLanguageLabel(detectedLanguage)}`
+                : 'Listening in your chosen language until the server detects another'}
+            </p>
+          )}
+
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor="input-mode" className="text-xs">Input mode</Label>
+            <Select value={inputMode} onValueChange={(value) => setInputMode(value as InputMode)}>
+              <SelectTrigger id="input-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INPUT_MODES.map((mode) => (
+                  <SelectItem key={mode.id} value={mode.id}>
+                    {mode.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{INPUT_MODE_HINTS[inputMode]}</p>
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor="input-device" className="text-xs">Microphone</Label>
+            <Select
+              value={inputDeviceId ?? DEFAULT_DEVICE}
+              onValueChange={(value) => setInputDeviceId(value === DEFAULT_DEVICE ? null : value)}
+            >
+              <SelectTrigger id="input-device">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+                {inputs.map((input, index) => (
+                  <SelectItem key={input.deviceId} value={input.deviceId}>
+                    {input.label || `Microphone ${index + 1}`}
+                  </SelectItem>
+                ))}
+                {deviceMissing && <SelectItem value={inputDeviceId}>Disconnected microphone</SelectItem>}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {isMicOn && inputDeviceLabel
+                ? `In use: ${inputDeviceLabel}`
+                : deviceMissing
+                  ? 'Not connected; the system default is used until it is'
+                  : !hasLabels
+                    ? 'Turn the mic on once to see device names'
+                    : 'Switches automatically when devices are plugged in or out'}
+            </p>
+          </div>
+
+          {isOutputSelectionSupported && (
+            <div className="space-y-2">
+              <Label htmlFor="output-device" className="text-xs">AI voice plays on</Label>
+              <Select
+                value={outputDeviceId ?? DEFAULT_DEVICE}
+                onValueChange={(value) => setOutputDeviceId(value === DEFAULT_DEVICE ? null : value)}
+              >
+                <SelectTrigger id="output-device">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+                  {outputs.map((output, index) => (
+                    <SelectItem key={output.deviceId} value={output.deviceId}>
+                      {output.label || `Speaker ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                  {outputMissing && <SelectItem value={outputDeviceId}>Disconnected speaker</SelectItem>}
+                </SelectContent>
+              </Select>
+              {outputMissing && (
+                <p className="text-xs text-muted-foreground">Not connected; replies play on the system default until it is</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2 border-t pt-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="save-audio" className="text-xs">Save audio with conversations</Label>
+              <Switch id="save-audio" checked={saveAudio} onCheckedChange={setSaveAudio} />
+            </div>
+            <p className="text-xs text-muted-foreground">Conversations are kept in this browser; audio adds both sides' recordings</p>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -82,7 +82,7 @@ export const WebSocketExample: React.FC = () => {
   // Setup event listeners
   useEffect(() => {
     // Setup socketService event listeners
-    socketService.onError((error) => {
+    const unsubscribeError = socketService.onError((error) => {
       console.error('Socket service error:', error);
       setError(error.message);
     });
@@ -113,6 +113,7 @@ export const WebSocketExample: React.FC = () => {
 
     return () => {
       clearInterval(interval);
+      unsubscribeError();
       // Cleanup on unmount
       socketService.cleanup();
       webSocketManager.cleanup();
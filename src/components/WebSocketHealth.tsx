@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { socketService } from '../services/socketService';
 import { webSocketManager } from '../services/WebSocketManager';
+import { useConnectionQuality } from '../hooks/use-connection-quality';
+import type { ConnectionQualityLevel } from '../services/connectionQuality';
 
 interface HealthData {
   status: string;
@@ -23,6 +25,7 @@ export const WebSocketHealth: React.FC = () => {
   const [connectionStats, setConnectionStats] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const quality = useConnectionQuality();
 
   const fetchHealthData = async () => {
     try {
@@ -83,6 +86,24 @@ export const WebSocketHealth: React.FC = () => {
     }
   };
 
+  const formatMs = (ms: number | null): string => {
+    return ms === null ? 'N/A' : `${Math.round(ms)}ms`;
+  };
+
+  const getQualityColor = (level: ConnectionQualityLevel): string => {
+    switch (level) {
+      case 'excellent':
+      case 'good':
+        return 'text-green-500';
+      case 'fair':
+        return 'text-yellow-500';
+      case 'poor':
+        return 'text-red-500';
+      default:
+        return 'text-gray-500';
+    }
+  };
+
   const getConnectionStatusColor = (isConnected: boolean): string => {
     return isConnected ? 'text-green-500' : 'text-red-500';
   };
@@ -218,6 +239,62 @@ export const WebSocketHealth: React.FC = () => {
         </div>
       </div>
 
+      {/* Network Latency */}
+      <div className="mt-6">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-3">
+          Network Latency
+        </h3>
+        {!quality.isSupported ? (
+          <div className="text-sm text-gray-600 dark:text-gray-300">
+            This server doesn't answer latency pings.
+          </div>
+        ) : quality.short.samples === 0 ? (
+          <div className="text-sm text-gray-600 dark:text-gray-300">
+            {quality.isProbing ? 'Measuring...' : 'Connect to measure latency.'}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-300">Quality:</span>
+              <span className={`font-medium ${getQualityColor(quality.level)}`}>
+                {quality.level.toUpperCase()}{quality.score !== null ? ` (${quality.score})` : ''}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-300">Last Round Trip:</span>
+              <span className="font-medium">{quality.lastRtt === null ? 'Lost' : formatMs(quality.lastRtt)}</span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-300">Average (1 min / 5 min):</span>
+              <span className="font-medium">
+                {formatMs(quality.short.rttAvg)} / {formatMs(quality.long.rttAvg)}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-300">Min / P95 / Max:</span>
+              <span className="font-medium">
+                {formatMs(quality.long.rttMin)} / {formatMs(quality.long.rttP95)} / {formatMs(quality.long.rttMax)}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-300">Jitter:</span>
+              <span className="font-medium">{formatMs(quality.short.jitter)}</span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600 dark:text-gray-300">Packet Loss:</span>
+              <span className={`font-medium ${quality.short.lost > 0 ? 'text-red-500' : 'text-green-500'}`}>
+                {Math.round(quality.short.lossRate * 100)}% ({quality.long.lost}/{quality.long.samples} in 5 min)
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Connection History */}
       {connectionStats && connectionStats.connectionHistory > 0 && (
         <div className="mt-6">
@@ -0,0 +1,25 @@
+import * as React from "react"
+
+import { audioDevices, type AudioDevicesState } from "@/services/audioDevices"
+
+export interface UseAudioDevices extends AudioDevicesState {
+  refresh: () => void
+}
+
+// Microphones the browser can see; follows devices being plugged in and out while mounted
+export function useAudioDevices(): UseAudioDevices {
+  React.useEffect(() => audioDevices.attach(), [])
+
+  const devices = React.useSyncExternalStore(audioDevices.subscribe, audioDevices.getSnapshot)
+
+  const actions = React.useMemo(
+    () => ({
+      refresh: () => {
+        void audioDevices.refresh()
+      },
+    }),
+    []
+  )
+
+  return { ...devices, ...actions }
+}
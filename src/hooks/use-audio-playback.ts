@@ -0,0 +1,14 @@
+import * as React from "react"
+
+import { audioService, type PlaybackState } from "@/services/audioService"
+
+export interface UseAudioPlayback extends PlaybackState {
+  interrupt: () => void
+}
+
+export function useAudioPlayback(): UseAudioPlayback {
+  const playback = React.useSyncExternalStore(audioService.subscribePlayback, audioService.getPlaybackSnapshot)
+  const interrupt = React.useCallback(() => audioService.handleUserInterruption(), [])
+
+  return { ...playback, interrupt }
+}
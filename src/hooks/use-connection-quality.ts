@@ -0,0 +1,9 @@
+import * as React from "react"
+
+import type { ConnectionQualityState } from "@/services/connectionQuality"
+import { socketService } from "@/services/socketService"
+
+// Round-trip time, jitter and loss to the backend, updated after every ping
+export function useConnectionQuality(): ConnectionQualityState {
+  return React.useSyncExternalStore(socketService.subscribeQuality, socketService.getQualitySnapshot)
+}
@@ -0,0 +1,34 @@
+import * as React from "react"
+
+import { conversationHistory, type ConversationHistoryState } from "@/services/conversationHistory"
+import type { StoredConversation, StoredTurnAudio } from "@/services/conversationRepository"
+
+export interface UseConversationHistory extends ConversationHistoryState {
+  refresh: () => Promise<void>
+  resume: (id: string) => Promise<boolean>
+  remove: (id: string) => Promise<void>
+  getConversation: (id: string) => Promise<StoredConversation | null>
+  getAudio: (conversationId: string) => Promise<StoredTurnAudio[]>
+}
+
+// Conversations saved in this browser; loads the list on first use
+export function useConversationHistory(): UseConversationHistory {
+  const history = React.useSyncExternalStore(conversationHistory.subscribe, conversationHistory.getSnapshot)
+
+  React.useEffect(() => {
+    void conversationHistory.refresh()
+  }, [])
+
+  const actions = React.useMemo(
+    () => ({
+      refresh: () => conversationHistory.refresh(),
+      resume: (id: string) => conversationHistory.resume(id),
+      remove: (id: string) => conversationHistory.remove(id),
+      getConversation: (id: string) => conversationHistory.getConversation(id),
+      getAudio: (conversationId: string) => conversationHistory.getAudio(conversationId),
+    }),
+    []
+  )
+
+  return { ...history, ...actions }
+}
@@ -0,0 +1,21 @@
+import * as React from "react"
+
+import { conversationStore, type ConversationStoreState } from "@/services/conversationStore"
+
+export interface UseConversation extends ConversationStoreState {
+  startNew: () => void
+}
+
+// The structured turn list; kept after the session ends so it can be reviewed
+export function useConversation(): UseConversation {
+  const conversation = React.useSyncExternalStore(conversationStore.subscribe, conversationStore.getSnapshot)
+
+  const actions = React.useMemo(
+    () => ({
+      startNew: () => conversationStore.startNew(),
+    }),
+    []
+  )
+
+  return { ...conversation, ...actions }
+}
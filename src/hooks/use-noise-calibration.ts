@@ -0,0 +1,24 @@
+import * as React from "react"
+
+import { noiseCalibration, type NoiseCalibrationResult, type NoiseCalibrationState } from "@/services/noiseCalibration"
+import { voiceSession } from "@/services/voiceSession"
+
+export interface UseNoiseCalibration extends NoiseCalibrationState {
+  recalibrate: () => Promise<NoiseCalibrationResult | null>
+  clear: () => void
+}
+
+// Ambient-noise calibration of the current mic; measured automatically the first time a device is used
+export function useNoiseCalibration(): UseNoiseCalibration {
+  const state = React.useSyncExternalStore(noiseCalibration.subscribe, noiseCalibration.getSnapshot)
+
+  const actions = React.useMemo(
+    () => ({
+      recalibrate: () => voiceSession.recalibrateNoise(),
+      clear: () => noiseCalibration.clear(noiseCalibration.getSnapshot().deviceId ?? undefined),
+    }),
+    []
+  )
+
+  return { ...state, ...actions }
+}
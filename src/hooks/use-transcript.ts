@@ -0,0 +1,8 @@
+import * as React from "react"
+
+import { voiceSession, type TranscriptState } from "@/services/voiceSession"
+
+// Latest line of the conversation: what the user is saying, what the AI heard, or what it replied
+export function useTranscript(): TranscriptState {
+  return React.useSyncExternalStore(voiceSession.subscribeTranscript, voiceSession.getTranscriptSnapshot)
+}
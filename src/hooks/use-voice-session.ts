@@ -0,0 +1,41 @@
+import * as React from "react"
+
+import { socketService, type ConnectionState } from "@/services/socketService"
+import { voiceSession, type VoiceSessionState } from "@/services/voiceSession"
+import type { CaptureOptions } from "@/services/audioCapture"
+
+export interface UseVoiceSession extends VoiceSessionState {
+  connection: ConnectionState
+  start: (capture?: Partial<CaptureOptions>) => Promise<boolean>
+  stop: () => Promise<void>
+  toggle: () => Promise<boolean>
+  pressToTalk: () => Promise<boolean>
+  releaseToTalk: () => void
+  sendText: (text: string) => Promise<boolean>
+  connect: () => Promise<boolean>
+  clearError: () => void
+}
+
+// Reactive mic + connection state; attaching wires the voice services for as long as any caller is mounted
+export function useVoiceSession(): UseVoiceSession {
+  React.useEffect(() => voiceSession.attach(), [])
+
+  const session = React.useSyncExternalStore(voiceSession.subscribe, voiceSession.getSnapshot)
+  const connection = React.useSyncExternalStore(socketService.subscribeConnection, socketService.getConnectionSnapshot)
+
+  const actions = React.useMemo(
+    () => ({
+      start: (capture?: Partial<CaptureOptions>) => voiceSession.start(capture),
+      stop: () => voiceSession.stop(),
+      toggle: () => voiceSession.toggle(),
+      pressToTalk: () => voiceSession.pressToTalk(),
+      releaseToTalk: () => voiceSession.releaseToTalk(),
+      sendText: (text: string) => voiceSession.sendText(text),
+      connect: () => voiceSession.connect(),
+      clearError: () => voiceSession.clearError(),
+    }),
+    []
+  )
+
+  return { ...session, connection, ...actions }
+}
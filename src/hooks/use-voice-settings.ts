@@ -0,0 +1,34 @@
+import * as React from "react"
+
+import { voiceSettings, type InputMode, type VoiceSettingsState } from "@/services/voiceSettings"
+
+export interface UseVoiceSettings extends VoiceSettingsState {
+  effectiveLanguage: string
+  setLanguage: (language: string) => void
+  setAutoDetectLanguage: (enabled: boolean) => void
+  setInputMode: (mode: InputMode) => void
+  setMuteReplies: (muted: boolean) => void
+  setSaveAudio: (enabled: boolean) => void
+  setInputDeviceId: (deviceId: string | null) => void
+  setOutputDeviceId: (deviceId: string | null) => void
+}
+
+// Saved voice preferences for the current user; the voice session applies changes as they happen
+export function useVoiceSettings(): UseVoiceSettings {
+  const settings = React.useSyncExternalStore(voiceSettings.subscribe, voiceSettings.getSnapshot)
+
+  const actions = React.useMemo(
+    () => ({
+      setLanguage: (language: string) => voiceSettings.setLanguage(language),
+      setAutoDetectLanguage: (enabled: boolean) => voiceSettings.setAutoDetectLanguage(enabled),
+      setInputMode: (mode: InputMode) => voiceSettings.setInputMode(mode),
+      setMuteReplies: (muted: boolean) => voiceSettings.setMuteReplies(muted),
+      setSaveAudio: (enabled: boolean) => voiceSettings.setSaveAudio(enabled),
+      setInputDeviceId: (deviceId: string | null) => voiceSettings.setInputDeviceId(deviceId),
+      setOutputDeviceId: (deviceId: string | null) => voiceSettings.setOutputDeviceId(deviceId),
+    }),
+    []
+  )
+
+  return { ...settings, effectiveLanguage: voiceSettings.getEffectiveLanguage(), ...actions }
+}
@@ -3,11 +3,15 @@ import { DarkVeil } from "@/components/DarkVeil";
 import { TargetCursor } from "@/components/TargetCursor";
 import { InteractiveSoundBall } from "@/components/InteractiveSoundBall";
 import { MicButton } from "@/components/MicButton";
+import { TextComposer } from "@/components/TextComposer";
 import { LoadingScreen } from "@/components/LoadingScreen";
 import { VoiceTranscript } from "@/components/VoiceTranscript";
 import { AudioTest } from "@/components/AudioTest";
 import ThemeSwitch from "@/components/ThemeSwitch";
+import { VoiceSettingsPanel } from "@/components/VoiceSettingsPanel";
+import { ConversationPanel } from "@/components/ConversationPanel";
 import { useTheme } from "@/contexts/ThemeContext";
+import { useVoiceSettings } from "@/hooks/use-voice-settings";
 import { Heart, VolumeX, Mic } from "lucide-react";
 
 const Index = () => {
@@ -16,6 +20,8 @@ const Index = () => {
   const [currentTranscript, setCurrentTranscript] = useState("");
   const [isListening, setIsListening] = useState(false);
   const [isMicOn, setIsMicOn] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const { inputMode } = useVoiceSettings();
 
   useEffect(() => {
     // Simulate loading time
@@ -42,6 +48,7 @@ const Index = () => {
     
     // Simple state update without debouncing to prevent complexity
     setIsMicOn(enabled);
+    setIsRecording(recording);
     setIsListening(enabled); // When mic is on, we're listening
   }, []);
 
@@ -59,6 +66,12 @@ const Index = () => {
       
       {/* Theme Switch */}
       <ThemeSwitch isDark={isDark} onToggle={toggleTheme} />
+
+      {/* Voice settings */}
+      <VoiceSettingsPanel />
+
+      {/* Conversation history */}
+      <ConversationPanel />
       
       {/* Sova watermark - subtle and elegant */}
       <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-50 safe-area-top">
@@ -93,7 +106,7 @@ const Index = () => {
 
       {/* Interactive Sound Ball in center */}
       <div className="fixed inset-0 z-10">
-        <InteractiveSoundBall isListening={isMicOn} />
+        <InteractiveSoundBall isListening={isMicOn} isTransmitting={isRecording} mode={inputMode} />
       </div>
 
       {/* Voice Transcript Display */}
@@ -106,6 +119,9 @@ const Index = () => {
         onTranscriptUpdate={handleTranscriptUpdate} 
         onMicStateChange={handleMicStateChange}
       />
+
+      {/* Typed messages, alongside voice */}
+      <TextComposer />
       
       {/* Footer - Apple-style elegant */}
       <div className="fixed bottom-0 left-1/2 transform -translate-x-1/2 z-40 safe-area-bottom">
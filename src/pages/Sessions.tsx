@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, AudioLines, ChevronDown, Loader2, Play, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { TurnItem } from "@/components/ConversationPanel";
+import { ExportMenu } from "@/components/ExportMenu";
+import { useConversation } from "@/hooks/use-conversation";
+import { useConversationHistory } from "@/hooks/use-conversation-history";
+import { useToast } from "@/hooks/use-toast";
+import type { StoredConversation } from "@/services/conversationRepository";
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+}
+
+function ConversationCard({
+  conversation,
+  isCurrent,
+  onResume,
+  onDelete,
+}: {
+  conversation: StoredConversation;
+  isCurrent: boolean;
+  onResume: () => void;
+  onDelete: () => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CardHeader className="space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0 space-y-1">
+              <CardTitle className="truncate text-base">{conversation.title}</CardTitle>
+              <CardDescription className="flex flex-wrap items-center gap-2">
+                <span>{formatDate(conversation.updatedAt)}</span>
+                <span>·</span>
+                <span>{conversation.turns.length} turns</span>
+                {conversation.hasAudio && <AudioLines size={14} aria-label="Has audio" />}
+                {isCurrent && <Badge variant="secondary">Current</Badge>}
+              </CardDescription>
+            </div>
+            <div className="flex shrink-0 gap-1">
+              <Button size="sm" onClick={onResume} disabled={isCurrent}>
+                <Play size={14} className="mr-2" />
+                Resume
+              </Button>
+              <ExportMenu conversationId={conversation.id} hasAudio={conversation.hasAudio} />
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="sm" variant="ghost" title="Delete conversation">
+                    <Trash2 size={14} />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Its turns{conversation.hasAudio ? " and audio" : ""} will be removed from this browser.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="w-fit px-2 text-xs text-muted-foreground">
+              <ChevronDown size={14} className={`mr-1 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+              {isOpen ? "Hide turns" : "Show turns"}
+            </Button>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            {conversation.turns.map((turn) => (
+              <TurnItem key={turn.id} turn={turn} />
+            ))}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
+
+// Conversations saved in this browser, newest first; resuming one continues it with the backend
+const Sessions = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { conversationId } = useConversation();
+  const { isSupported, conversations, isLoading, error, resume, remove } = useConversationHistory();
+
+  const handleResume = async (id: string) => {
+    if (await resume(id)) {
+      navigate("/");
+    } else {
+      toast({
+        title: "Could Not Resume",
+        description: "This conversation could not be loaded.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="mx-auto max-w-2xl space-y-6 px-4 py-8">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft size={16} className="mr-2" />
+              Back
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold">Conversations</h1>
+        </div>
+
+        {!isSupported ? (
+          <p className="text-sm text-muted-foreground">This browser can't store conversations.</p>
+        ) : isLoading && conversations.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="animate-spin text-muted-foreground" />
+          </div>
+        ) : conversations.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">No saved conversations yet</p>
+        ) : (
+          <div className="space-y-3">
+            {conversations.map((conversation) => (
+              <ConversationCard
+                key={conversation.id}
+                conversation={conversation}
+                isCurrent={conversation.id === conversationId}
+                onResume={() => handleResume(conversation.id)}
+                onDelete={() => remove(conversation.id)}
+              />
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default Sessions;
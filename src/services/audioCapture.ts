@@ -0,0 +1,298 @@
+import pcmCaptureProcessorUrl from '../worklets/pcm-capture-processor.js?url';
+import type { MicrophoneLease } from './microphoneManager';
+
+// 'pcm' streams 16-bit Linear16 frames from an AudioWorklet; 'media-recorder' streams encoded blobs
+export type CaptureMode = 'pcm' | 'media-recorder';
+export type CapturePreference = 'auto' | CaptureMode;
+
+export interface CaptureOptions {
+  mode: CapturePreference; // 'auto' prefers PCM and falls back to MediaRecorder
+  sampleRate: number; // PCM output rate
+  frameMs: number; // PCM frame size
+  timesliceMs: number; // MediaRecorder chunk interval
+}
+
+// What the backend is receiving, sent along with each chunk as a mime type
+export interface CaptureFormat {
+  mode: CaptureMode;
+  mimeType: string;
+  sampleRate: number | null; // null when the recorder's container carries it
+  channels: number;
+  frameMs: number | null;
+}
+
+export type CaptureChunkHandler = (chunk: Blob | ArrayBuffer, format: CaptureFormat) => void;
+
+// Recorder containers in order of preference; Safari only produces mp4/aac
+const RECORDER_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/webm',
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/mp4',
+];
+
+const DEFAULT_OPTIONS: CaptureOptions = {
+  mode: 'auto',
+  sampleRate: 16000,
+  frameMs: 100,
+  timesliceMs: 1000,
+};
+
+const STOP_TIMEOUT = 250; // ms to wait for the worklet to flush its last partial frame
+const PREROLL_MS = 300; // PCM kept while paused, so speech that triggered a resume isn't clipped
+
+interface PcmGraph {
+  context: AudioContext;
+  sourceNode: MediaStreamAudioSourceNode | null;
+  workletNode: AudioWorkletNode | null;
+}
+
+/**
+ * Microphone capture for the voice session.
+ *
+ * Prefers an AudioWorklet that emits 16 kHz mono Linear16 frames, which the Gemini Live
+ * backend can forward without transcoding. Browsers without AudioWorklet (or where it
+ * fails to load) fall back to MediaRecorder with the first container they support.
+ */
+export class AudioCaptureService {
+  private options: CaptureOptions = { ...DEFAULT_OPTIONS };
+  private format: CaptureFormat | null = null;
+  private onChunk: CaptureChunkHandler | null = null;
+  private taps: Set<CaptureChunkHandler> = new Set();
+  private chunkCount: number = 0;
+  private paused: boolean = false;
+  private preroll: ArrayBuffer[] = [];
+
+  private pcm: PcmGraph | null = null;
+  private recorder: MediaRecorder | null = null;
+
+  static isPcmSupported(): boolean {
+    return typeof window !== 'undefined'
+      && typeof window.AudioContext !== 'undefined'
+      && typeof AudioWorkletNode !== 'undefined';
+  }
+
+  // First container the browser can record; '' lets MediaRecorder pick, null means no MediaRecorder at all
+  static getSupportedRecorderMimeType(): string | null {
+    if (typeof MediaRecorder === 'undefined') {
+      return null;
+    }
+    if (typeof MediaRecorder.isTypeSupported !== 'function') {
+      return '';
+    }
+    return RECORDER_MIME_TYPES.find((mimeType) => MediaRecorder.isTypeSupported(mimeType)) ?? '';
+  }
+
+  // Defaults for the next capture; `start` options override them per session
+  configure(options: Partial<CaptureOptions>): void {
+    this.options = { ...this.options, ...options };
+    console.log('🔧 Audio capture config updated:', this.options);
+  }
+
+  getOptions(): CaptureOptions {
+    return { ...this.options };
+  }
+
+  getFormat(): CaptureFormat | null {
+    return this.format;
+  }
+
+  isCapturing(): boolean {
+    return this.format !== null;
+  }
+
+  // Also receive every chunk that is sent, e.g. to keep a copy of the user's audio
+  tap(handler: CaptureChunkHandler): () => void {
+    this.taps.add(handler);
+    return () => {
+      this.taps.delete(handler);
+    };
+  }
+
+  isPaused(): boolean {
+    return this.format !== null && this.paused;
+  }
+
+  // Keep the capture running but stop sending; used between push-to-talk presses
+  pause(): void {
+    if (!this.format || this.paused) return;
+    this.paused = true;
+    this.preroll = [];
+    if (this.recorder && this.recorder.state === 'recording') {
+      // Flush what was recorded up to now, then hold the rest back
+      this.recorder.requestData();
+      this.recorder.pause();
+    }
+    console.log('⏸️ Capture paused');
+  }
+
+  // Send again; with `includePreroll`, the last few hundred ms of PCM heard while paused go first
+  resume(includePreroll: boolean = false): void {
+    if (!this.format || !this.paused) return;
+    this.paused = false;
+    if (this.recorder && this.recorder.state === 'paused') {
+      this.recorder.resume();
+    }
+
+    const preroll = this.preroll;
+    this.preroll = [];
+    if (includePreroll && this.format) {
+      preroll.forEach((frame) => this.deliver(frame, this.format!));
+    }
+    console.log(`▶️ Capture resumed${includePreroll && preroll.length > 0 ? ` with ${preroll.length} pre-roll frames` : ''}`);
+  }
+
+  async start(microphone: MicrophoneLease, onChunk: CaptureChunkHandler, overrides: Partial<CaptureOptions> = {}): Promise<CaptureFormat> {
+    this.stop();
+
+    const options = { ...this.options, ...overrides };
+    this.onChunk = onChunk;
+    this.chunkCount = 0;
+    this.paused = false;
+    this.preroll = [];
+
+    if (options.mode !== 'media-recorder') {
+      if (AudioCaptureService.isPcmSupported()) {
+        try {
+          this.format = await this.startPcm(microphone, options);
+          console.log(`🎙️ PCM capture started: ${this.format.sampleRate}Hz, ${options.frameMs}ms frames`);
+          return this.format;
+        } catch (error) {
+          console.warn('⚠️ PCM capture unavailable, falling back to MediaRecorder:', error);
+          if (this.pcm) {
+            this.closePcm(this.pcm);
+            this.pcm = null;
+          }
+        }
+      } else {
+        console.warn('⚠️ AudioWorklet not supported, falling back to MediaRecorder');
+      }
+    }
+
+    this.format = this.startRecorder(microphone.getStream(), options);
+    console.log(`🎙️ MediaRecorder capture started: ${this.format.mimeType || 'browser default'}, ${options.timesliceMs}ms chunks`);
+    return this.format;
+  }
+
+  stop(): void {
+    if (this.recorder) {
+      const recorder = this.recorder;
+      this.recorder = null;
+      // The final dataavailable still reaches the handler
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+    }
+
+    if (this.pcm) {
+      // Let the worklet post its last partial frame before the graph is torn down
+      const pcm = this.pcm;
+      this.pcm = null;
+      if (pcm.workletNode) {
+        pcm.workletNode.port.postMessage({ type: 'stop' });
+        setTimeout(() => this.closePcm(pcm), STOP_TIMEOUT);
+      } else {
+        this.closePcm(pcm);
+      }
+    }
+
+    if (this.format) {
+      console.log(`🛑 Capture stopped after ${this.chunkCount} chunks (${this.format.mode})`);
+    }
+    this.format = null;
+    // `paused` is left as it was: the flushed last frame of a live capture is still sent, one from a paused capture isn't
+    this.preroll = [];
+  }
+
+  private async startPcm(microphone: MicrophoneLease, options: CaptureOptions): Promise<CaptureFormat> {
+    // The shared mic context runs at the device rate; the worklet resamples to the target
+    const pcm: PcmGraph = { context: microphone.getContext(), sourceNode: null, workletNode: null };
+    this.pcm = pcm;
+    await microphone.addModule(pcmCaptureProcessorUrl);
+    if (pcm.context.state === 'suspended') {
+      await pcm.context.resume();
+    }
+
+    const frameSamples = Math.max(1, Math.round((options.sampleRate * options.frameMs) / 1000));
+    const format: CaptureFormat = {
+      mode: 'pcm',
+      mimeType: `audio/pcm;rate=${options.sampleRate}`,
+      sampleRate: options.sampleRate,
+      channels: 1,
+      frameMs: options.frameMs,
+    };
+
+    pcm.sourceNode = microphone.createSource();
+    pcm.workletNode = new AudioWorkletNode(pcm.context, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCountMode: 'explicit',
+      channelCount: 1,
+      processorOptions: { targetSampleRate: options.sampleRate, frameSamples },
+    });
+    pcm.workletNode.port.onmessage = (event) => {
+      if (event.data?.type === 'frame') {
+        this.deliver(event.data.buffer as ArrayBuffer, format);
+      } else if (event.data?.type === 'stopped') {
+        this.closePcm(pcm);
+      }
+    };
+    pcm.sourceNode.connect(pcm.workletNode);
+    return format;
+  }
+
+  private startRecorder(stream: MediaStream, options: CaptureOptions): CaptureFormat {
+    const mimeType = AudioCaptureService.getSupportedRecorderMimeType();
+    if (mimeType === null) {
+      throw new Error('Audio capture is not supported in this browser');
+    }
+
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const format: CaptureFormat = {
+      mode: 'media-recorder',
+      mimeType: recorder.mimeType || mimeType,
+      sampleRate: null,
+      channels: 1,
+      frameMs: null,
+    };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.deliver(event.data, format);
+      }
+    };
+    recorder.start(options.timesliceMs);
+    this.recorder = recorder;
+    return format;
+  }
+
+  private deliver(chunk: Blob | ArrayBuffer, format: CaptureFormat): void {
+    if (this.paused) {
+      if (chunk instanceof ArrayBuffer && format.frameMs) {
+        this.preroll.push(chunk);
+        if (this.preroll.length > Math.ceil(PREROLL_MS / format.frameMs)) {
+          this.preroll.shift();
+        }
+      }
+      return;
+    }
+    this.chunkCount++;
+    this.onChunk?.(chunk, format);
+    this.taps.forEach((tap) => tap(chunk, format));
+  }
+
+  // Disconnect the worklet graph; the context belongs to the microphone manager. Safe to call twice
+  private closePcm(pcm: PcmGraph): void {
+    if (pcm.workletNode) {
+      pcm.workletNode.port.onmessage = null;
+      pcm.workletNode.disconnect();
+      pcm.workletNode = null;
+    }
+    if (pcm.sourceNode) {
+      pcm.sourceNode.disconnect();
+      pcm.sourceNode = null;
+    }
+  }
+}
+
+export const audioCapture = new AudioCaptureService();
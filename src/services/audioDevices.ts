@@ -0,0 +1,141 @@
+import { ExternalStore } from './externalStore';
+import { EventBus, Unsubscribe } from './eventBus';
+
+export type AudioDeviceKind = 'audioinput' | 'audiooutput';
+
+export interface AudioDevice {
+  kind: AudioDeviceKind;
+  deviceId: string;
+  groupId: string;
+  label: string; // Empty until the page has been granted mic access
+}
+
+export interface AudioDevicesState {
+  isSupported: boolean;
+  isOutputSelectionSupported: boolean; // Playback can be routed to a chosen speaker
+  inputs: AudioDevice[]; // Real devices only; Chrome's 'default'/'communications' aliases are left out
+  outputs: AudioDevice[]; // Same; Firefox only lists speakers the page has been allowed to use
+  defaultGroupId: string | null; // What the default mic currently points at, where the browser says
+  hasLabels: boolean;
+}
+
+export type AudioDeviceEvents = {
+  change: { added: AudioDevice[]; removed: AudioDevice[] };
+};
+
+const ALIAS_IDS = ['default', 'communications'];
+
+// Ask for one specific mic; with no device the browser picks the system default
+export function withInputDevice(constraints: MediaTrackConstraints, deviceId: string | null): MediaTrackConstraints {
+  return deviceId ? { ...constraints, deviceId: { exact: deviceId } } : constraints;
+}
+
+/**
+ * The microphones and speakers the browser can see, kept current as devices are plugged in and out.
+ *
+ * Only lists devices; the microphone manager and the voice session decide what to do when the one in use goes away.
+ */
+export class AudioDeviceService {
+  private store = new ExternalStore<AudioDevicesState>({
+    isSupported: typeof navigator !== 'undefined' && !!navigator.mediaDevices?.enumerateDevices,
+    isOutputSelectionSupported:
+      (typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype) ||
+      (typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype),
+    inputs: [],
+    outputs: [],
+    defaultGroupId: null,
+    hasLabels: false,
+  });
+  private events = new EventBus<AudioDeviceEvents>('audioDevices');
+  private attachCount = 0;
+  private handleDeviceChange = () => {
+    this.refresh();
+  };
+
+  subscribe = (listener: () => void): Unsubscribe => this.store.subscribe(listener);
+  getSnapshot = (): AudioDevicesState => this.store.getSnapshot();
+
+  // Follow devicechange while anything is attached; reference counted like the voice session
+  attach(): Unsubscribe {
+    if (!this.getSnapshot().isSupported) return () => {};
+
+    this.attachCount++;
+    if (this.attachCount === 1) {
+      navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+      this.refresh();
+    }
+
+    let detached = false;
+    return () => {
+      if (detached) return;
+      detached = true;
+      this.attachCount--;
+      if (this.attachCount === 0) {
+        navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+      }
+    };
+  }
+
+  on<K extends keyof AudioDeviceEvents & string>(event: K, listener: (payload: AudioDeviceEvents[K]) => void): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  async refresh(): Promise<AudioDevice[]> {
+    if (!this.getSnapshot().isSupported) return [];
+
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      const listed = (kind: AudioDeviceKind): AudioDevice[] => devices
+        .filter((device) => device.kind === kind && !ALIAS_IDS.includes(device.deviceId))
+        .map((device) => ({ kind, deviceId: device.deviceId, groupId: device.groupId, label: device.label }));
+      const inputs = listed('audioinput');
+      const outputs = listed('audiooutput');
+      const defaultGroupId = devices.find((device) => device.kind === 'audioinput' && device.deviceId === 'default')?.groupId || null;
+
+      const snapshot = this.getSnapshot();
+      const previous = [...snapshot.inputs, ...snapshot.outputs];
+      const current = [...inputs, ...outputs];
+      const added = current.filter((device) => !previous.some((candidate) => candidate.deviceId === device.deviceId && candidate.kind === device.kind));
+      const removed = previous.filter((device) => !current.some((candidate) => candidate.deviceId === device.deviceId && candidate.kind === device.kind));
+      const defaultChanged = defaultGroupId !== snapshot.defaultGroupId;
+
+      this.store.setState({ inputs, outputs, defaultGroupId, hasLabels: current.some((device) => device.label) });
+
+      // The first listing isn't a change; a moved default (headset plugged in) is
+      if (previous.length > 0 && (added.length > 0 || removed.length > 0 || defaultChanged)) {
+        console.log(`🎧 Audio devices changed: +${added.length} -${removed.length}${defaultChanged ? ', default mic moved' : ''}`);
+        this.events.emit('change', { added, removed });
+      }
+      return current;
+    } catch (error) {
+      console.warn('⚠️ Could not list audio devices:', error);
+      const { inputs, outputs } = this.getSnapshot();
+      return [...inputs, ...outputs];
+    }
+  }
+
+  // The preferred mic if it's plugged in, otherwise null for the system default
+  resolveInput(preferredId: string | null): string | null {
+    return this.resolve(this.getSnapshot().inputs, preferredId);
+  }
+
+  // The preferred speaker if it's plugged in, otherwise null for the system default
+  resolveOutput(preferredId: string | null): string | null {
+    return this.resolve(this.getSnapshot().outputs, preferredId);
+  }
+
+  getLabel(deviceId: string | null): string | null {
+    if (!deviceId) return null;
+    const { inputs, outputs } = this.getSnapshot();
+    return [...inputs, ...outputs].find((device) => device.deviceId === deviceId)?.label || null;
+  }
+
+  private resolve(devices: AudioDevice[], preferredId: string | null): string | null {
+    if (!preferredId) return null;
+    // Before the first listing there's nothing to check against; let the browser decide
+    if (devices.length === 0) return preferredId;
+    return devices.some((device) => device.deviceId === preferredId) ? preferredId : null;
+  }
+}
+
+export const audioDevices = new AudioDeviceService();
@@ -0,0 +1,207 @@
+/**
+ * Sample-level helpers for decoding and reshaping the PCM audio the backend streams.
+ *
+ * Everything here is a pure function over typed arrays, so it can be shared by the
+ * buffered and streaming playback paths (and later by capture) without touching
+ * an AudioContext.
+ */
+
+export interface WavHeader {
+  audioFormat: number; // 1 = integer PCM, 3 = IEEE float
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+// Read the `fmt ` and `data` chunks of a RIFF/WAVE file; null if the header is missing or truncated
+export function parseWavHeader(bytes: Uint8Array): WavHeader | null {
+  if (bytes.length < 12) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') return null;
+
+  let header: Omit<WavHeader, 'dataOffset' | 'dataLength'> | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && body + 16 <= bytes.length) {
+      header = {
+        audioFormat: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === 'data') {
+      if (!header) return null;
+      // Streamed WAVs often carry a placeholder size (0 or 0xFFFFFFFF); trust the bytes we actually have
+      const available = bytes.length - body;
+      const dataLength = size > 0 && size <= available ? size : available;
+      return { ...header, dataOffset: body, dataLength };
+    }
+
+    offset = body + size + (size % 2);
+  }
+  return null;
+}
+
+// Interleaved Linear16 little-endian → mono Float32 in [-1, 1), averaging channels
+export function pcm16ToFloat32(bytes: Uint8Array, channels: number = 1): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const channelCount = Math.max(1, channels);
+  const frames = Math.floor(bytes.byteLength / (2 * channelCount));
+  const samples = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let c = 0; c < channelCount; c++) {
+      sum += view.getInt16((i * channelCount + c) * 2, true);
+    }
+    samples[i] = sum / channelCount / 32768;
+  }
+  return samples;
+}
+
+// Mono Float32 samples → a complete 16-bit PCM RIFF/WAVE file
+export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const dataLength = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // Integer PCM
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 32768 : sample * 32767, true);
+  }
+  return buffer;
+}
+
+// Linear-interpolation resampler; averages neighbouring samples first when downsampling to limit aliasing
+export function resampleLinear(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || samples.length === 0) return samples.slice();
+
+  const ratio = fromRate / toRate;
+  const source = ratio > 1 ? boxFilter(samples, Math.ceil(ratio)) : samples;
+  const length = Math.max(1, Math.round(samples.length / ratio));
+  const output = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const current = source[Math.min(index, source.length - 1)];
+    const next = source[Math.min(index + 1, source.length - 1)];
+    output[i] = current + (next - current) * fraction;
+  }
+  return output;
+}
+
+/**
+ * Change speech speed without changing pitch (WSOLA).
+ *
+ * Overlapping Hann-windowed frames are read from the input at `speed` times the rate
+ * they are written to the output; each next frame is nudged by up to ±10ms to the
+ * position that best continues the previous one, which avoids the phasing a plain
+ * overlap-add produces on voiced speech.
+ */
+export function timeStretch(samples: Float32Array, sampleRate: number, speed: number): Float32Array {
+  if (speed === 1 || speed <= 0 || samples.length === 0) return samples;
+
+  const frameSize = Math.max(64, Math.round(sampleRate * 0.03));
+  const synthesisHop = Math.floor(frameSize / 2);
+  const analysisHop = synthesisHop * speed;
+  const tolerance = Math.round(sampleRate * 0.01);
+
+  // Pad so the last frames still fit and the tail of the chunk isn't dropped
+  const input = new Float32Array(samples.length + frameSize * 2);
+  input.set(samples);
+
+  const outputLength = Math.max(1, Math.round(samples.length / speed));
+  const output = new Float32Array(outputLength + frameSize);
+  const weights = new Float32Array(outputLength + frameSize);
+  const window = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+  }
+
+  let inputPosition = 0;
+  for (let frame = 0; ; frame++) {
+    const outputPosition = frame * synthesisHop;
+    if (outputPosition >= outputLength || inputPosition + frameSize > input.length) break;
+
+    for (let i = 0; i < frameSize; i++) {
+      output[outputPosition + i] += input[inputPosition + i] * window[i];
+      weights[outputPosition + i] += window[i];
+    }
+
+    // Where the frame we just wrote would naturally continue, and where the next one nominally starts
+    const natural = inputPosition + synthesisHop;
+    const nominal = Math.round((frame + 1) * analysisHop);
+    const overlap = frameSize - synthesisHop;
+    let bestOffset = 0;
+    let bestScore = -Infinity;
+    for (let offset = -tolerance; offset <= tolerance; offset += 2) {
+      const candidate = nominal + offset;
+      if (candidate < 0 || candidate + frameSize > input.length || natural + overlap > input.length) continue;
+      let score = 0;
+      for (let i = 0; i < overlap; i += 2) {
+        score += input[natural + i] * input[candidate + i];
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestOffset = offset;
+      }
+    }
+    inputPosition = Math.max(0, nominal + bestOffset);
+  }
+
+  const stretched = new Float32Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    stretched[i] = weights[i] > 1e-3 ? output[i] / weights[i] : output[i];
+  }
+  return stretched;
+}
+
+// Moving average over `width` samples, centred
+function boxFilter(samples: Float32Array, width: number): Float32Array {
+  if (width <= 1) return samples;
+  const filtered = new Float32Array(samples.length);
+  const half = Math.floor(width / 2);
+  let sum = 0;
+  let count = 0;
+  for (let i = -half; i < samples.length; i++) {
+    const entering = i + half;
+    if (entering < samples.length) {
+      sum += samples[entering];
+      count++;
+    }
+    const leaving = i - half - 1;
+    if (leaving >= 0) {
+      sum -= samples[leaving];
+      count--;
+    }
+    if (i >= 0) {
+      filtered[i] = sum / count;
+    }
+  }
+  return filtered;
+}
@@ -1,6 +1,39 @@
+import { ExternalStore } from './externalStore';
+import { conversationState } from './conversationStateMachine';
+import { PcmStreamPlayer, PcmStreamStats } from './pcmStreamPlayer';
+import { AudioChunkFormat, AudioPayload } from './protocol';
+import { WavHeader, parseWavHeader, pcm16ToFloat32, timeStretch } from './audioFormat';
+
+// 'buffered' schedules one AudioBufferSourceNode per chunk; 'streaming' feeds a gapless AudioWorklet jitter buffer
+export type PlaybackMode = 'buffered' | 'streaming';
+
+// Reactive playback snapshot for `useSyncExternalStore` consumers
+export interface PlaybackState {
+  mode: PlaybackMode;
+  isInitialized: boolean;
+  isPlaying: boolean;
+  streamUnderruns: number;
+  queueLength: number;
+  activeSources: number;
+  currentChunkIndex: number | null;
+  sessionId: string | null;
+  contextState: AudioContextState | 'uninitialized';
+}
+
+// Container detected from the payload bytes, plus the real sample layout where it is known
+interface DetectedAudioFormat {
+  format: 'WAV' | 'OGG_OPUS' | 'MP3' | 'PCM16';
+  sampleRate: number | null; // null: left to the browser decoder
+  channels: number;
+  wav: WavHeader | null;
+}
+
+// AudioContext.setSinkId (Chrome 110+) isn't in the DOM typings yet
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
 export class AudioService {
   private audioContext: AudioContext | null = null;
-  private audioQueue: Array<{audioData: string, sessionId?: string, index: number, total: number}> = [];
+  private audioQueue: Array<{audioData: AudioPayload, sessionId?: string, index: number, total: number, format?: AudioChunkFormat}> = [];
   private isPlaying: boolean = false;
   private audioChunks: Map<number, string> = new Map();
   private expectedChunks: number = 0;
@@ -22,17 +55,18 @@ export class AudioService {
   private sessionMonitoringInterval: NodeJS.Timeout | null = null; // Track session monitoring interval
   private sessionRefreshInterval: NodeJS.Timeout | null = null; // Track session refresh interval
   private lastStuckAudioCheck: number = 0; // Track when we last checked for stuck audio
+  private currentChunkIndex: number | null = null; // Chunk index of the source currently playing
   
   // Enhanced configuration for backend integration with adaptive chunk optimization
   private config = {
-    defaultPlaybackRate: 0.5, // Reduced from 0.8 to 0.5 for more natural, slower voice speed
+    speechRate: 1.0, // Pitch-preserving speech speed; audio itself always plays at its recorded rate
+    pcmSampleRate: 24000, // Raw Linear16 chunks without metadata are assumed to be Gemini Live's 24kHz mono
     volume: 0.9, // Increased for better audibility
     chunkDelay: 10, // Increased from 5ms to 10ms for better chunk separation
     maxQueueSize: 50, // Reduced from 100 since chunks are larger now
     maxRetries: 3,
     fadeInDuration: 0.001, // Reduced from 0.002 for faster start
     fadeOutDuration: 0.003, // Reduced from 0.005 for faster transitions
-    adaptivePlayback: true, // Enable adaptive playback speed
     performanceMode: true, // Enable performance optimizations
     sentencePauseDuration: 0.0, // Removed sentence pauses completely
     dynamicVolume: true, // Enable dynamic volume adjustment
@@ -51,7 +85,33 @@ export class AudioService {
     largeChunkThreshold: 2000, // 2 seconds - chunks larger than this get special handling
     chunkSizeOptimization: true, // Enable chunk size-based optimizations
     // Logging control
-    verboseLogging: true, // Enable verbose logging to debug playback rate
+    verboseLogging: true, // Enable verbose logging to debug decoding and playback
+    // Gapless streaming playback
+    playbackMode: 'buffered' as PlaybackMode,
+    streamTargetLatency: 150, // ms buffered before streaming playback starts (and after an underrun)
+    streamMaxBuffer: 30000, // ms of audio the ring buffer holds; long responses arrive faster than real time
+    streamGapTimeout: 400, // ms to wait for a missing chunk before skipping past it
+  };
+
+  // Every voice source feeds this bus, so a whole response can be ducked in one place
+  private outputGain: GainNode | null = null;
+  private duckLevel: number = 1;
+  private muted: boolean = false; // Replies still play (and drive the conversation phases), just silently
+  private referenceTap: MediaStreamAudioDestinationNode | null = null; // Copy of the bus for echo-aware VAD
+  private outputDeviceId: string | null = null; // Speaker for AI replies; null is the system default
+  private sinkTap: MediaStreamAudioDestinationNode | null = null; // Where the bus goes when an <audio> element plays it
+  private sinkElement: HTMLAudioElement | null = null; // Fallback route to a chosen speaker without AudioContext.setSinkId
+
+  // Streaming playback state (only used in 'streaming' mode)
+  private streamPlayer: PcmStreamPlayer | null = null;
+  private streamGain: GainNode | null = null;
+  private streamState = {
+    sessionId: null as string | null,
+    nextIndex: 0,
+    total: 0,
+    started: false,
+    pending: new Map<number, { samples: Float32Array, sampleRate: number }>(),
+    gapTimeoutId: null as ReturnType<typeof setTimeout> | null,
   };
   
   // Enhanced performance tracking with backend integration
@@ -70,7 +130,6 @@ export class AudioService {
     reconnectionCount: 0,
     sessionHealthScore: 100,
     lastSessionRefresh: 0,
-    conversationState: 'idle', // 'idle', 'active', 'paused', 'ended'
   };
   
   // Session state management for backend integration
@@ -96,6 +155,19 @@ export class AudioService {
     }>
   };
   
+  // Playback snapshot; republished whenever playback starts, stops or the queue changes
+  private playbackStore = new ExternalStore<PlaybackState>({
+    mode: 'buffered',
+    isInitialized: false,
+    isPlaying: false,
+    streamUnderruns: 0,
+    queueLength: 0,
+    activeSources: 0,
+    currentChunkIndex: null,
+    sessionId: null,
+    contextState: 'uninitialized',
+  });
+  
   // Helper method to get formatted timestamp
   private getTimestamp(): string {
     const now = Date.now();
@@ -130,6 +202,9 @@ export class AudioService {
       }
       
       console.log('🔊 Audio context initialized, state:', this.audioContext.state, 'sample rate:', this.audioContext.sampleRate + 'Hz');
+      if (this.outputDeviceId) {
+        await this.applyOutputDevice();
+      }
     }
   }
 
@@ -148,6 +223,7 @@ export class AudioService {
     this.startSessionMonitoring();
     
     this.isInitialized = true;
+    this.publishPlaybackState();
     this.log('✅ AudioService initialized successfully', true);
   }
 
@@ -258,7 +334,6 @@ export class AudioService {
     const preservedState = {
       turnCount: this.performanceMetrics.turnCount,
       sessionDuration: this.performanceMetrics.sessionDuration,
-      conversationState: this.performanceMetrics.conversationState
     };
     
     // Clear current session
@@ -267,7 +342,6 @@ export class AudioService {
     // Restore conversation state
     this.performanceMetrics.turnCount = preservedState.turnCount;
     this.performanceMetrics.sessionDuration = preservedState.sessionDuration;
-    this.performanceMetrics.conversationState = preservedState.conversationState;
     
     // Update session state
     this.sessionState.startTime = Date.now();
@@ -290,9 +364,6 @@ export class AudioService {
     this.performanceMetrics.turnCount++;
     this.sessionState.lastActivity = Date.now();
     
-    // Update conversation state
-    this.performanceMetrics.conversationState = 'active';
-    
     const timestamp = this.getTimestamp();
     console.log(`${timestamp} 📊 TURN TRACKED: ${type.toUpperCase()} turn #${this.performanceMetrics.turnCount}, duration: ${duration}ms, chunks: ${chunkCount}`);
   }
@@ -311,7 +382,6 @@ export class AudioService {
     this.performanceMetrics.sessionDuration = 0;
     this.performanceMetrics.turnCount = 0;
     this.performanceMetrics.sessionHealthScore = 100;
-    this.performanceMetrics.conversationState = 'active';
     
     // Clear old data
     this.sessionState.turnHistory = [];
@@ -349,6 +419,8 @@ export class AudioService {
       });
       this.sessionAudioSources.set(sessionId, []); // Clear session sources after stopping
     }
+    this.currentChunkIndex = null;
+    this.publishPlaybackState();
     this.log(`${timestamp} 🛑 STOP COMPLETE: all sources cleared`);
   }
 
@@ -367,6 +439,13 @@ export class AudioService {
     // Reset sequential playback flag
     this.isPlayingSequentially = false;
     
+    // Drop anything buffered for streaming playback
+    this.streamPlayer?.clear();
+    this.resetStream();
+    
+    // Nothing is playing any more, so the next response starts at full level
+    this.unduck(0);
+    
     // Reset playback promise
     this.playbackPromise = null;
     
@@ -380,10 +459,125 @@ export class AudioService {
     this.sessionStartTime = 0;
     this.consecutiveChunkCount = 0;
     this.lastChunkTime = 0;
+    this.publishPlaybackState();
     
     console.log(`${timestamp} 🚫 INTERRUPT COMPLETE: Stopped ${this.getTotalActiveSources()} sources, cleared ${queueLength} queued chunks`);
   }
 
+  // Fade the AI voice to `level` (0..1), e.g. while deciding whether the user is barging in
+  public duck(level: number, rampMs: number = 80): void {
+    this.duckLevel = Math.max(0, Math.min(1, level));
+    this.rampOutput(rampMs);
+  }
+
+  public unduck(rampMs: number = 150): void {
+    this.duck(1, rampMs);
+  }
+
+  public isDucked(): boolean {
+    return this.duckLevel < 1;
+  }
+
+  // Silence AI replies without stopping them, e.g. when the user is typing in a meeting
+  public setMuted(muted: boolean): void {
+    if (muted === this.muted) return;
+    this.muted = muted;
+    console.log(muted ? '🔇 AI replies muted' : '🔊 AI replies unmuted');
+    this.rampOutput(50);
+  }
+
+  public isMuted(): boolean {
+    return this.muted;
+  }
+
+  private getOutputLevel(): number {
+    return this.muted ? 0 : this.duckLevel;
+  }
+
+  private rampOutput(rampMs: number): void {
+    if (!this.audioContext || !this.outputGain) return;
+
+    const gain = this.outputGain.gain;
+    const now = this.audioContext.currentTime;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(this.getOutputLevel(), now + rampMs / 1000);
+  }
+
+  // Play AI replies on a specific speaker; takes effect immediately, including mid-reply
+  public async setOutputDevice(deviceId: string | null): Promise<void> {
+    if (deviceId === this.outputDeviceId) return;
+    this.outputDeviceId = deviceId;
+    await this.applyOutputDevice();
+  }
+
+  public getOutputDevice(): string | null {
+    return this.outputDeviceId;
+  }
+
+  // Route the context to the chosen speaker: natively where the context supports it, otherwise
+  // by playing the bus through an <audio> element, which can pick its sink almost everywhere
+  private async applyOutputDevice(): Promise<void> {
+    const context = this.audioContext as SinkableAudioContext | null;
+    if (!context || context.state === 'closed') return; // Applied when the context is created
+
+    const deviceId = this.outputDeviceId;
+    try {
+      if (typeof context.setSinkId === 'function') {
+        await context.setSinkId(deviceId ?? '');
+      } else if (deviceId) {
+        await this.routeThroughSinkElement(deviceId);
+      } else {
+        this.disposeSinkElement();
+        this.connectOutput();
+      }
+      console.log(`🔈 AI replies now play on ${deviceId ?? 'the system default speaker'}`);
+    } catch (error) {
+      console.warn('⚠️ Could not switch speaker, using the default:', error);
+      if (typeof context.setSinkId === 'function') {
+        await context.setSinkId('').catch(() => undefined);
+      } else {
+        this.disposeSinkElement();
+        this.connectOutput();
+      }
+    }
+  }
+
+  private async routeThroughSinkElement(deviceId: string): Promise<void> {
+    if (!this.sinkTap || this.sinkTap.context !== this.audioContext) {
+      this.disposeSinkElement();
+      this.sinkTap = this.audioContext!.createMediaStreamDestination();
+    }
+    if (!this.sinkElement) {
+      this.sinkElement = new Audio();
+      this.sinkElement.autoplay = true;
+      this.sinkElement.srcObject = this.sinkTap.stream;
+    }
+    await this.sinkElement.setSinkId(deviceId);
+    this.connectOutput();
+    await this.sinkElement.play();
+  }
+
+  private disposeSinkElement(): void {
+    if (this.sinkElement) {
+      this.sinkElement.pause();
+      this.sinkElement.srcObject = null;
+      this.sinkElement = null;
+    }
+    this.sinkTap = null;
+  }
+
+  // (Re)connect the bus to whichever sink is active, plus the echo reference
+  private connectOutput(): void {
+    if (!this.outputGain || !this.audioContext) return;
+    this.outputGain.disconnect();
+    const sink = this.sinkElement && this.sinkTap?.context === this.audioContext ? this.sinkTap : this.audioContext.destination;
+    this.outputGain.connect(sink);
+    if (this.referenceTap && this.referenceTap.context === this.audioContext) {
+      this.outputGain.connect(this.referenceTap);
+    }
+  }
+
   // Method to handle user interruption (connect with socket service)
   public handleUserInterruption(): void {
     const timestamp = this.getTimestamp();
@@ -397,7 +591,7 @@ export class AudioService {
   }
 
   // Enhanced method to queue audio chunks for sequential playback
-  private queueAudioChunk(audioData: string, sessionId: string | undefined, index: number, total: number): void {
+  private queueAudioChunk(audioData: AudioPayload, sessionId: string | undefined, index: number, total: number, format?: AudioChunkFormat): void {
     const timestamp = this.getTimestamp();
     
     // Prevent queue overflow
@@ -407,13 +601,14 @@ export class AudioService {
     }
     
     // Add to queue and sort by index to ensure correct order
-    this.audioQueue.push({ audioData, sessionId, index, total });
+    this.audioQueue.push({ audioData, sessionId, index, total, format });
     this.audioQueue.sort((a, b) => a.index - b.index); // Sort by chunk index
     this.log(`${timestamp} 📋 QUEUED: chunk ${index}/${total}, queue length: ${this.audioQueue.length}, isPlayingSequentially: ${this.isPlayingSequentially}`);
     
     // Update chunk timing
     this.lastChunkTime = Date.now();
     this.consecutiveChunkCount++;
+    this.publishPlaybackState();
     
     // Check if we can start playing consecutive chunks
     this.checkAndPlayConsecutiveChunks();
@@ -509,6 +704,8 @@ export class AudioService {
     }
 
     this.isPlayingSequentially = true;
+    this.publishPlaybackState();
+    conversationState.send('ai-audio-start', 'audioService');
     const timestamp = this.getTimestamp();
     this.log(`${timestamp} 🎵 SEQUENTIAL PLAYBACK START: queue length: ${this.audioQueue.length}`);
 
@@ -524,7 +721,7 @@ export class AudioService {
         this.log(`${timestamp} 🎵 PLAYING SEQUENTIAL: chunk ${chunk.index}/${chunk.total}`);
         
         // Play the audio chunk and wait for it to finish completely
-        this.playbackPromise = this.playAudioChunk(chunk.audioData, chunk.sessionId || undefined, chunk.index, chunk.total);
+        this.playbackPromise = this.playAudioChunk(chunk.audioData, chunk.sessionId || undefined, chunk.index, chunk.total, chunk.format);
         await this.playbackPromise; // Wait for this chunk to finish before continuing
         
         // Add a small gap between chunks for better separation
@@ -554,6 +751,7 @@ export class AudioService {
 
     this.isPlayingSequentially = false;
     this.playbackPromise = null;
+    this.publishPlaybackState();
     
     // Clear timeout since playback is complete
     if (this.playbackTimeoutId) {
@@ -580,7 +778,7 @@ export class AudioService {
   }
 
   // Enhanced audio chunk playback with better error handling and performance
-  async playAudioChunk(base64Audio: string, sessionId?: string, chunkIndex?: number, totalChunks?: number): Promise<void> {
+  async playAudioChunk(audioData: AudioPayload, sessionId?: string, chunkIndex?: number, totalChunks?: number, format?: AudioChunkFormat): Promise<void> {
     this._chunkCount++;
     const timestamp = this.getTimestamp();
     const chunkInfo = chunkIndex !== undefined ? `${chunkIndex}/${totalChunks}` : `#${this._chunkCount}`;
@@ -596,38 +794,31 @@ export class AudioService {
       return;
     }
     
-    this.log(`${timestamp} 🔧 DECODE START: chunk ${chunkInfo}, session: ${sessionId?.substring(0, 8) || 'none'}..., input size: ${base64Audio.length}B`);
+    this.log(`${timestamp} 🔧 DECODE START: chunk ${chunkInfo}, session: ${sessionId?.substring(0, 8) || 'none'}..., input size: ${audioData.length}B, ${typeof audioData === 'string' ? 'base64' : 'binary'}`);
     
     try {
       await this.initAudioContext();
       
-      // Validate audio data
-      if (!this.validateAudioData(base64Audio, chunkInfo, timestamp)) {
-        return;
-      }
-      
-      // Convert base64 to bytes
-      const bytes = await this.convertBase64ToBytes(base64Audio, chunkInfo, timestamp);
+      // Validate audio data and get its bytes
+      const bytes = await this.toAudioBytes(audioData, chunkInfo, timestamp);
       if (!bytes) {
         return;
       }
       
-      // Detect audio format and calculate playback rate
-      const formatInfo = this.detectAudioFormat(bytes, chunkInfo, timestamp);
-      if (!formatInfo) {
-        return;
-      }
+      // Detect the container and the real sample rate
+      const formatInfo = this.detectAudioFormat(bytes, chunkInfo, timestamp, format);
       
       // Decode audio buffer
-      const audioBuffer = await this.decodeAudioBuffer(bytes, formatInfo, chunkInfo, timestamp);
-      if (!audioBuffer) {
+      const decodedBuffer = await this.decodeAudioBuffer(bytes, formatInfo, chunkInfo, timestamp);
+      if (!decodedBuffer) {
         return;
       }
+      const audioBuffer = this.applySpeechRate(decodedBuffer);
       
       // Create and play audio source with proper promise handling
       return new Promise<void>((resolve, reject) => {
         try {
-          this.createAudioSourceAndPlayInternal(audioBuffer, chunkIndex || 0, sessionId || 'default', formatInfo.playbackRate, resolve);
+          this.createAudioSourceAndPlayInternal(audioBuffer, chunkIndex || 0, sessionId || 'default', resolve);
         } catch (error) {
           reject(error);
         }
@@ -640,6 +831,22 @@ export class AudioService {
     }
   }
 
+  // Binary payloads are used as-is; base64 ones are validated and decoded
+  private async toAudioBytes(audioData: AudioPayload, chunkInfo: string, timestamp: string): Promise<Uint8Array | null> {
+    if (typeof audioData !== 'string') {
+      if (audioData.byteLength < 10) {
+        console.error(`${timestamp} ❌ Audio data too short for chunk ${chunkInfo}, likely invalid`);
+        return null;
+      }
+      return audioData;
+    }
+    
+    if (!this.validateAudioData(audioData, chunkInfo, timestamp)) {
+      return null;
+    }
+    return this.convertBase64ToBytes(audioData, chunkInfo, timestamp);
+  }
+
   // Enhanced validation method
   private validateAudioData(base64Audio: string, chunkInfo: string, timestamp: string): boolean {
     if (!base64Audio || base64Audio.length < 10) {
@@ -674,73 +881,31 @@ export class AudioService {
     }
   }
 
-  // Enhanced format detection
-  private detectAudioFormat(bytes: Uint8Array, chunkInfo: string, timestamp: string): { format: string, playbackRate: number } | null {
-    let audioFormat = 'unknown';
-    let playbackRate = this.config.defaultPlaybackRate;
-    
+  // Enhanced format detection: containers by magic bytes, everything else is raw Linear16
+  private detectAudioFormat(bytes: Uint8Array, chunkInfo: string, timestamp: string, hint?: AudioChunkFormat): DetectedAudioFormat {
     // Debug: Check first few bytes to identify format
     const header = Array.from(bytes.slice(0, 8)).map(b => b.toString(16).padStart(2, '0')).join(' ');
-    this.log(`${timestamp} 🔍 AUDIO HEADER: chunk ${chunkInfo}, hex: ${header}`);
-    
-    if (bytes.length >= 12) {
-      const riffHeader = String.fromCharCode(...bytes.slice(0, 4));
-      const waveHeader = String.fromCharCode(...bytes.slice(8, 12));
-      this.log(`${timestamp} 🔍 HEADER ANALYSIS: RIFF="${riffHeader}", WAVE="${waveHeader}"`);
-      if (riffHeader === 'RIFF' && waveHeader === 'WAVE') {
-        audioFormat = 'WAV';
-        this.log(`${timestamp} ✅ WAV FORMAT CONFIRMED`);
-      } else {
-        this.log(`${timestamp} ⚠️ NOT WAV FORMAT: RIFF="${riffHeader}", WAVE="${waveHeader}"`);
-      }
-    }
-    
-    // Check for other formats if not WAV
-    if (audioFormat === 'unknown') {
-      if (bytes[0] === 0x4F && bytes[1] === 0x67 && bytes[2] === 0x67 && bytes[3] === 0x53) {
-        audioFormat = 'OGG_OPUS';
-      } else if (bytes[0] === 0xFF && (bytes[1] & 0xE0) === 0xE0) {
-        audioFormat = 'MP3';
-      }
-    }
-    
-    // Adaptive playback rate based on format and performance
-    if (this.config.adaptivePlayback) {
-      playbackRate = this.calculateAdaptivePlaybackRate(audioFormat);
-    }
-    
-    this.log(`${timestamp} 🔍 FORMAT DETECTED: chunk ${chunkInfo}, format: ${audioFormat}, playback rate: ${playbackRate}x`);
-    this.log(`${timestamp} 🔍 BACKEND INFO: Properly chunked WAV files (16KB chunks, each with headers)`);
-    
-    return { format: audioFormat, playbackRate };
-  }
-
-  // Calculate adaptive playback rate
-  private calculateAdaptivePlaybackRate(format: string): number {
-    // Base rate for natural voice sound
-    let baseRate = 0.5; // Reduced from 0.8 to 0.5 for more natural, slower voice
-    
-    // Adjust based on format
-    switch (format.toLowerCase()) {
-      case 'wav':
-        baseRate = 0.55; // Slightly faster for WAV files but still natural
-        break;
-      case 'mp3':
-        baseRate = 0.5; // Standard rate for MP3
-        break;
-      case 'ogg':
-        baseRate = 0.6; // Slightly faster for OGG files
-        break;
-      default:
-        baseRate = 0.5; // Default natural rate
-    }
-    
-    // Apply performance mode adjustments
-    if (this.config.performanceMode) {
-      baseRate = Math.min(0.7, baseRate * 1.05); // Cap at 0.7x for natural speed
+    this.log(`${timestamp} 🔍 AUDIO HEADER: chunk ${chunkInfo}, hex: ${header}, metadata: ${hint ? JSON.stringify(hint) : 'none'}`);
+    
+    let detected: DetectedAudioFormat;
+    const wav = parseWavHeader(bytes);
+    if (wav) {
+      detected = { format: 'WAV', sampleRate: wav.sampleRate, channels: wav.channels, wav };
+    } else if (bytes[0] === 0x4F && bytes[1] === 0x67 && bytes[2] === 0x67 && bytes[3] === 0x53) {
+      detected = { format: 'OGG_OPUS', sampleRate: null, channels: 1, wav: null };
+    } else if (bytes[0] === 0xFF && (bytes[1] & 0xE0) === 0xE0) {
+      detected = { format: 'MP3', sampleRate: null, channels: 1, wav: null };
+    } else {
+      detected = {
+        format: 'PCM16',
+        sampleRate: hint?.sampleRate || this.config.pcmSampleRate,
+        channels: hint?.channels || 1,
+        wav: null,
+      };
     }
     
-    return baseRate;
+    this.log(`${timestamp} 🔍 FORMAT DETECTED: chunk ${chunkInfo}, format: ${detected.format}, sample rate: ${detected.sampleRate ? `${detected.sampleRate}Hz` : 'from decoder'}, channels: ${detected.channels}`);
+    return detected;
   }
 
   // Calculate dynamic volume based on audio content
@@ -782,23 +947,28 @@ export class AudioService {
   }
 
   // Enhanced audio decoding
-  private async decodeAudioBuffer(bytes: Uint8Array, formatInfo: { format: string, playbackRate: number }, chunkInfo: string, timestamp: string): Promise<AudioBuffer | null> {
+  private async decodeAudioBuffer(bytes: Uint8Array, formatInfo: DetectedAudioFormat, chunkInfo: string, timestamp: string): Promise<AudioBuffer | null> {
     try {
       let audioBuffer: AudioBuffer;
       
-      if (formatInfo.format === 'WAV' || formatInfo.format === 'OGG_OPUS' || formatInfo.format === 'MP3') {
-        // Handle encoded audio formats
+      if (formatInfo.format !== 'PCM16') {
+        // Handle encoded audio formats; the browser resamples them to the context rate
         try {
-          audioBuffer = await this.audioContext!.decodeAudioData(bytes.buffer);
-          this.log(`${timestamp} ✅ ${formatInfo.format} DECODE SUCCESS: chunk ${chunkInfo}, duration: ${audioBuffer.duration.toFixed(2)}s, sample rate: ${audioBuffer.sampleRate}Hz, channels: ${audioBuffer.numberOfChannels}, playback: ${formatInfo.playbackRate}x, context SR: ${this.audioContext?.sampleRate}Hz`);
+          audioBuffer = await this.audioContext!.decodeAudioData(bytes.slice().buffer);
+          this.log(`${timestamp} ✅ ${formatInfo.format} DECODE SUCCESS: chunk ${chunkInfo}, duration: ${audioBuffer.duration.toFixed(2)}s, sample rate: ${audioBuffer.sampleRate}Hz, channels: ${audioBuffer.numberOfChannels}, source SR: ${formatInfo.sampleRate || 'unknown'}Hz, context SR: ${this.audioContext?.sampleRate}Hz`);
         } catch (decodeError) {
           console.error(`${timestamp} ❌ ${formatInfo.format} DECODE FAILED: chunk ${chunkInfo}, error: ${decodeError.message}`);
-          // Fallback to PCM decoding
-          audioBuffer = await this.decodeRawPCM(bytes, chunkInfo, timestamp);
+          // Truncated WAV chunks still have a usable header: decode their data chunk as PCM
+          const wav = formatInfo.wav;
+          if (wav && wav.audioFormat === 1 && wav.bitsPerSample === 16) {
+            audioBuffer = await this.decodeRawPCM(bytes.subarray(wav.dataOffset, wav.dataOffset + wav.dataLength), wav.sampleRate, wav.channels, chunkInfo, timestamp);
+          } else {
+            audioBuffer = await this.decodeRawPCM(bytes, this.config.pcmSampleRate, 1, chunkInfo, timestamp);
+          }
         }
       } else {
-        // Handle raw PCM data (fallback)
-        audioBuffer = await this.decodeRawPCM(bytes, chunkInfo, timestamp);
+        // Handle raw PCM data at the rate the backend produced it
+        audioBuffer = await this.decodeRawPCM(bytes, formatInfo.sampleRate!, formatInfo.channels, chunkInfo, timestamp);
         if (!audioBuffer) return null;
       }
       
@@ -811,33 +981,49 @@ export class AudioService {
     }
   }
 
-  // Enhanced raw PCM decoding
-  private async decodeRawPCM(bytes: Uint8Array, chunkInfo: string, timestamp: string): Promise<AudioBuffer | null> {
-    console.log(`${timestamp} 🔊 PCM FALLBACK: chunk ${chunkInfo}, processing as raw Linear16 PCM data`);
-    
-    const sampleRate = this.audioContext!.sampleRate; // Use context sample rate
-    const numberOfChannels = 1; // Mono audio from Gemini
+  // Enhanced raw PCM decoding: the buffer keeps the source rate and the browser resamples it on playback
+  private async decodeRawPCM(bytes: Uint8Array, sampleRate: number, channels: number, chunkInfo: string, timestamp: string): Promise<AudioBuffer | null> {
+    console.log(`${timestamp} 🔊 PCM DECODE: chunk ${chunkInfo}, processing as raw Linear16 PCM data, ${sampleRate}Hz, ${channels} channel(s)`);
     
-    // Convert bytes to 16-bit signed integers (Linear16 PCM)
-    const samples = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2);
-    const numberOfSamples = samples.length;
+    // Convert Linear16 to Float32 (normalized to -1.0 to 1.0), downmixed to mono
+    const samples = pcm16ToFloat32(bytes, channels);
     
-    if (numberOfSamples === 0) {
+    if (samples.length === 0) {
       console.warn(`${timestamp} ⚠️ NO PCM SAMPLES: chunk ${chunkInfo}, no audio samples found`);
       return null;
     }
     
-    // Create AudioBuffer
-    const audioBuffer = this.audioContext!.createBuffer(numberOfChannels, numberOfSamples, sampleRate);
-    const channelData = audioBuffer.getChannelData(0);
+    const audioBuffer = this.audioContext!.createBuffer(1, samples.length, sampleRate);
+    audioBuffer.copyToChannel(samples, 0);
     
-    // Convert Int16 samples to Float32 (normalize to -1.0 to 1.0 range)
-    for (let i = 0; i < numberOfSamples; i++) {
-      channelData[i] = samples[i] / 32768.0; // Convert from 16-bit to float
+    console.log(`${timestamp} ✅ PCM SUCCESS: chunk ${chunkInfo}, duration: ${audioBuffer.duration.toFixed(2)}s, samples: ${samples.length}, sample rate: ${sampleRate}Hz, context SR: ${this.audioContext!.sampleRate}Hz`);
+    return audioBuffer;
+  }
+
+  // Time-stretch to the configured speech rate without shifting pitch
+  private applySpeechRate(audioBuffer: AudioBuffer): AudioBuffer {
+    const speechRate = this.config.speechRate;
+    if (speechRate === 1 || !this.audioContext) {
+      return audioBuffer;
     }
     
-    console.log(`${timestamp} ✅ PCM SUCCESS: chunk ${chunkInfo}, duration: ${audioBuffer.duration.toFixed(2)}s, samples: ${numberOfSamples}, sample rate: ${sampleRate}Hz`);
-    return audioBuffer;
+    // Downmix first, as pcm16ToFloat32 does; stretching channels separately would let them drift apart
+    let samples = audioBuffer.getChannelData(0);
+    if (audioBuffer.numberOfChannels > 1) {
+      samples = new Float32Array(audioBuffer.length);
+      for (let c = 0; c < audioBuffer.numberOfChannels; c++) {
+        const channel = audioBuffer.getChannelData(c);
+        for (let i = 0; i < channel.length; i++) {
+          samples[i] += channel[i] / audioBuffer.numberOfChannels;
+        }
+      }
+    }
+
+    const stretched = timeStretch(samples, audioBuffer.sampleRate, speechRate);
+    const output = this.audioContext.createBuffer(1, stretched.length, audioBuffer.sampleRate);
+    output.copyToChannel(stretched, 0);
+    this.log(`🎚️ SPEECH RATE: ${speechRate}x, ${audioBuffer.duration.toFixed(2)}s → ${output.duration.toFixed(2)}s`);
+    return output;
   }
 
   // Enhanced audio buffer validation
@@ -854,7 +1040,7 @@ export class AudioService {
   }
 
   // Enhanced method to create and play audio source with optimized cleanup
-  private createAndPlayAudioSource(audioBuffer: AudioBuffer, chunkIndex: number, sessionId: string, playbackRate?: number): void {
+  private createAndPlayAudioSource(audioBuffer: AudioBuffer, chunkIndex: number, sessionId: string): void {
     try {
       // Only stop existing audio if we're not in sequential playback
       if (!this.isPlayingSequentially) {
@@ -862,13 +1048,13 @@ export class AudioService {
       }
       
       // Create and play immediately without delay
-      this.createAudioSourceAndPlayInternal(audioBuffer, chunkIndex, sessionId, playbackRate);
+      this.createAudioSourceAndPlayInternal(audioBuffer, chunkIndex, sessionId);
     } catch (error) {
       console.error('❌ Error in createAndPlayAudioSource:', error);
     }
   }
 
-  private createAudioSourceAndPlayInternal(audioBuffer: AudioBuffer, chunkIndex: number, sessionId: string, playbackRate?: number, onEnded?: () => void): void {
+  private createAudioSourceAndPlayInternal(audioBuffer: AudioBuffer, chunkIndex: number, sessionId: string, onEnded?: () => void): void {
     try {
       // Don't stop existing audio - let it play naturally
       // This prevents the rapid start/stop cycle
@@ -880,15 +1066,7 @@ export class AudioService {
       }
       
       const source = this.audioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      
-      // Set playback rate if provided
-      if (playbackRate !== undefined) {
-        source.playbackRate.setValueAtTime(playbackRate, this.audioContext.currentTime);
-        this.log(`🎵 SETTING PLAYBACK RATE: chunk ${chunkIndex}, rate: ${playbackRate}x`);
-      } else {
-        this.log(`⚠️ NO PLAYBACK RATE: chunk ${chunkIndex}, using default`);
-      }
+      source.buffer = audioBuffer; // Always played at 1.0x; speed changes are applied by applySpeechRate
       
       // Debug audio buffer content
       const channelData = audioBuffer.getChannelData(0);
@@ -905,7 +1083,7 @@ export class AudioService {
       
       const gainNode = this.audioContext.createGain();
       source.connect(gainNode);
-      gainNode.connect(this.audioContext.destination);
+      gainNode.connect(this.getOutputNode());
       
       // Set volume based on audio analysis
       const volume = this.calculateDynamicVolume(audioBuffer);
@@ -919,16 +1097,18 @@ export class AudioService {
       
       // Update current source tracking
       this.currentAudioSource = source;
+      this.currentChunkIndex = chunkIndex;
       
       const startTime = this.audioContext.currentTime;
       const duration = audioBuffer.duration;
       
-      this.log(`🎛️ AUDIO SOURCE: chunk ${chunkIndex}, created source, total active: ${this.getTotalActiveSources()}, current source: YES, session: ${sessionId}, VERSION: ${this.version}, playback rate: ${source.playbackRate.value}x`);
+      this.log(`🎛️ AUDIO SOURCE: chunk ${chunkIndex}, created source, total active: ${this.getTotalActiveSources()}, current source: YES, session: ${sessionId}, VERSION: ${this.version}, buffer SR: ${audioBuffer.sampleRate}Hz, speech rate: ${this.config.speechRate}x`);
       
       // Allow multiple sources for better audio continuity
       // This prevents the rapid start/stop cycle
       
       source.start(startTime);
+      this.publishPlaybackState();
       
       // Improved cleanup with session awareness
       const cleanup = () => {
@@ -945,7 +1125,9 @@ export class AudioService {
           // Update current source if this was it
           if (this.currentAudioSource === source) {
             this.currentAudioSource = null;
+            this.currentChunkIndex = null;
           }
+          this.publishPlaybackState();
           
           this.log(`✅ PLAYBACK END: chunk ${chunkIndex}, remaining active: ${this.getTotalActiveSources()}, session: ${sessionId}`);
           
@@ -1057,6 +1239,8 @@ export class AudioService {
     // Clear all session sources
     this.sessionAudioSources.clear();
     this.currentAudioSource = null;
+    this.currentChunkIndex = null;
+    this.publishPlaybackState();
     
     this.log('✅ ALL AUDIO CLEARED');
   }
@@ -1083,7 +1267,7 @@ export class AudioService {
   }
 
   // Update speech quality assessment
-  private updateSpeechQuality(audioBuffer: AudioBuffer, playbackRate: number): void {
+  private updateSpeechQuality(audioBuffer: AudioBuffer): void {
     const channelData = audioBuffer.getChannelData(0);
     const samples = channelData.length;
     let sum = 0;
@@ -1110,7 +1294,7 @@ export class AudioService {
     let quality = 'good';
     if (rms < 0.05) {
       quality = 'quiet';
-    } else if (playbackRate > 0.8) {
+    } else if (this.config.speechRate > 1.5) {
       quality = 'fast';
     } else if (frequency < 100) {
       quality = 'low_freq';
@@ -1126,16 +1310,32 @@ export class AudioService {
   }
 
   // Method to handle session-based audio management with proper WAV chunking and adaptive optimization
-  async playAudioResponse(audioData: string, index: number, total: number, sessionId?: string): Promise<void> {
+  async playAudioResponse(audioData: AudioPayload, index: number, total: number, sessionId?: string, format?: AudioChunkFormat): Promise<void> {
     // Initialize the service if it hasn't been initialized yet
     if (!this.isInitialized) {
       await this.initialize();
     }
-    
+
     const timestamp = this.getTimestamp();
-    
+
+    // Chunks of a response the user already interrupted are still in flight; don't play them
+    if (conversationState.is('interrupted')) {
+      this.log(`${timestamp} 🚫 DROPPING CHUNK: ${index}/${total} arrived after interruption`);
+      return;
+    }
+
+    // Streaming mode bypasses the per-chunk queue entirely
+    if (this.config.playbackMode === 'streaming') {
+      if (await this.streamAudioChunk(audioData, index, total, sessionId, format)) {
+        this.sessionState.lastActivity = Date.now();
+        return;
+      }
+      console.warn(`${timestamp} ⚠️ STREAMING UNAVAILABLE: AudioWorklet not supported, falling back to buffered playback`);
+      this.config.playbackMode = 'buffered';
+    }
+
     // Calculate adaptive playback parameters based on chunk characteristics
-    const estimatedChunkSizeMs = audioData.length * 0.75; // Rough estimate of audio duration
+    const estimatedChunkSizeMs = typeof audioData === 'string' ? audioData.length * 0.75 : audioData.byteLength; // Rough estimate of audio duration
     const adaptiveParams = this.calculateAdaptivePlaybackParams(estimatedChunkSizeMs, total);
     
     // Log adaptive optimization details
@@ -1215,12 +1415,12 @@ export class AudioService {
     }
 
     // Log audio preview for debugging
-    const audioPreview = audioData.substring(0, 20) + '...';
+    const audioPreview = typeof audioData === 'string' ? audioData.substring(0, 20) + '...' : `<${audioData.byteLength} bytes>`;
     this.log(`${timestamp} 🎵 PROCESSING: chunk ${index}/${total}, preview: ${audioPreview}, active sources: ${this.getTotalActiveSources()}, adaptive params: ${JSON.stringify(adaptiveParams)}`);
 
     // QUEUE CHUNKS: Add to queue for sequential playback with adaptive parameters
     this.log(`${timestamp} 🎵 QUEUING ADAPTIVE CHUNK: ${index}/${total}`);
-    this.queueAudioChunk(audioData, sessionId, index, total);
+    this.queueAudioChunk(audioData, sessionId, index, total, format);
     
     // Set up timeout to force playback if we're waiting too long for missing chunks
     // Use adaptive timeout based on chunk size
@@ -1345,7 +1545,7 @@ export class AudioService {
   }
 
   // Enhanced method to handle multiple audio chunks in sequence
-  async playAudioSequence(audioChunks: string[]): Promise<void> {
+  async playAudioSequence(audioChunks: AudioPayload[]): Promise<void> {
     const timestamp = this.getTimestamp();
     console.log(`${timestamp} 🔊 SEQUENCE START: Playing audio sequence with ${audioChunks.length} chunks`);
     
@@ -1353,7 +1553,7 @@ export class AudioService {
       await this.playAudioChunk(audioChunks[i], this.currentSessionId || undefined, i, audioChunks.length);
       // Adaptive delay between chunks
       if (i < audioChunks.length - 1) {
-        const delay = this.config.adaptivePlayback ? Math.max(50, this.config.chunkDelay - this.performanceMetrics.averageDecodeTime) : this.config.chunkDelay;
+        const delay = this.config.performanceMode ? Math.max(50, this.config.chunkDelay - this.performanceMetrics.averageDecodeTime) : this.config.chunkDelay;
         await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
@@ -1371,6 +1571,7 @@ export class AudioService {
     if (this.audioContext && this.audioContext.state === 'suspended') {
       console.log('🔊 Resuming audio context on user interaction...');
       await this.audioContext.resume();
+      this.publishPlaybackState();
     }
   }
 
@@ -1400,7 +1601,7 @@ export class AudioService {
       turnCount: this.performanceMetrics.turnCount,
       reconnectionCount: this.performanceMetrics.reconnectionCount,
       sessionHealthScore: this.performanceMetrics.sessionHealthScore,
-      conversationState: this.performanceMetrics.conversationState,
+      conversationState: conversationState.getPhase(),
       lastSessionRefresh: this.performanceMetrics.lastSessionRefresh,
       // Session state summary
       sessionId: this.sessionState.sessionId,
@@ -1409,6 +1610,9 @@ export class AudioService {
       healthChecks: this.sessionState.healthChecks.length,
       reconnectionEvents: this.sessionState.reconnectionEvents.length,
       turnHistory: this.sessionState.turnHistory.length,
+      // Streaming playback
+      playbackMode: this.config.playbackMode,
+      streaming: this.getStreamingStats(),
     };
   }
 
@@ -1434,31 +1638,258 @@ export class AudioService {
     const hasCurrentSource = this.currentAudioSource !== null;
     const hasQueueItems = this.audioQueue.length > 0;
     
-    const isPlaying = this.isPlaying || isSequentiallyPlaying || hasCurrentSource || hasActiveSources || hasQueueItems;
+    const isStreaming = this.streamPlayer?.isActive() || false;
+    
+    const isPlaying = this.isPlaying || isSequentiallyPlaying || hasCurrentSource || hasActiveSources || hasQueueItems || isStreaming;
     
     // Log detailed audio state for debugging
     if (this.config.verboseLogging) {
       const timestamp = this.getTimestamp();
-      this.log(`${timestamp} 🎵 AUDIO STATE CHECK: playing=${isPlaying}, isPlaying=${this.isPlaying}, sequential=${isSequentiallyPlaying}, currentSource=${hasCurrentSource}, activeSources=${hasActiveSources}, queueLength=${hasQueueItems}`);
+      this.log(`${timestamp} 🎵 AUDIO STATE CHECK: playing=${isPlaying}, isPlaying=${this.isPlaying}, sequential=${isSequentiallyPlaying}, currentSource=${hasCurrentSource}, activeSources=${hasActiveSources}, queueLength=${hasQueueItems}, streaming=${isStreaming}`);
     }
     
     return isPlaying;
   }
 
+  // Subscribe to playback changes instead of polling isAudioPlaying()
+  subscribePlayback = (listener: () => void): (() => void) => {
+    return this.playbackStore.subscribe(listener);
+  };
+
+  getPlaybackSnapshot = (): PlaybackState => {
+    return this.playbackStore.getSnapshot();
+  };
+
+  // Same rule as isAudioPlaying(), without its debug logging (this runs on every change)
+  private publishPlaybackState(): void {
+    const activeSources = this.getTotalActiveSources();
+    const isStreaming = this.streamPlayer?.isActive() || false;
+    this.playbackStore.setState({
+      mode: this.config.playbackMode,
+      isInitialized: this.isInitialized,
+      isPlaying: this.isPlaying || this.isPlayingSequentially || this.currentAudioSource !== null || activeSources > 0 || this.audioQueue.length > 0 || isStreaming,
+      streamUnderruns: this.streamPlayer?.getStats().underruns || 0,
+      queueLength: this.audioQueue.length,
+      activeSources,
+      currentChunkIndex: this.currentChunkIndex,
+      sessionId: this.currentSessionId,
+      contextState: this.audioContext ? this.audioContext.state : 'uninitialized',
+    });
+  }
+
   // Update configuration
   updateConfig(newConfig: Partial<typeof this.config>) {
+    const previousMode = this.config.playbackMode;
     this.config = { ...this.config, ...newConfig };
+    
+    if (this.streamPlayer) {
+      if (newConfig.streamTargetLatency !== undefined) {
+        this.streamPlayer.setTargetLatency(this.config.streamTargetLatency);
+      }
+      if (newConfig.volume !== undefined && this.streamGain && this.audioContext) {
+        this.streamGain.gain.setValueAtTime(this.config.volume, this.audioContext.currentTime);
+      }
+      if (previousMode === 'streaming' && this.config.playbackMode !== 'streaming') {
+        this.streamPlayer.clear();
+        this.resetStream();
+      }
+    }
+    
+    this.publishPlaybackState();
     console.log('🔧 Audio service config updated:', this.config);
   }
 
+  // Stats of the streaming jitter buffer, or null when streaming has not been used
+  getStreamingStats(): PcmStreamStats | null {
+    return this.streamPlayer ? this.streamPlayer.getStats() : null;
+  }
+
+  // The shared output bus, recreated if the context was replaced since it was built
+  private getOutputNode(): AudioNode {
+    if (!this.outputGain || this.outputGain.context !== this.audioContext) {
+      this.outputGain = this.audioContext!.createGain();
+      this.outputGain.gain.setValueAtTime(this.getOutputLevel(), this.audioContext!.currentTime);
+      this.connectOutput();
+    }
+    return this.outputGain;
+  }
+
+  // What the speakers are playing (after volume and ducking), as a stream other contexts can read;
+  // null until the audio context exists. The stream ends if cleanup() closes the context.
+  public getPlaybackReference(): MediaStream | null {
+    if (!this.audioContext || this.audioContext.state === 'closed') {
+      return null;
+    }
+    if (!this.referenceTap || this.referenceTap.context !== this.audioContext) {
+      this.referenceTap = this.audioContext.createMediaStreamDestination();
+      this.referenceTap.channelCount = 1;
+      this.getOutputNode().connect(this.referenceTap); // A repeat connection is ignored by Web Audio
+    }
+    return this.referenceTap.stream;
+  }
+
+  // Create the worklet player on first use; null when AudioWorklet is unavailable
+  private async ensureStreamPlayer(): Promise<PcmStreamPlayer | null> {
+    await this.initAudioContext();
+    if (!PcmStreamPlayer.isSupported(this.audioContext)) {
+      return null;
+    }
+    
+    if (!this.streamPlayer) {
+      this.streamGain = this.audioContext!.createGain();
+      this.streamGain.gain.setValueAtTime(this.config.volume, this.audioContext!.currentTime);
+      this.streamGain.connect(this.getOutputNode());
+      
+      this.streamPlayer = new PcmStreamPlayer(this.audioContext!, this.streamGain, {
+        targetLatencyMs: this.config.streamTargetLatency,
+        maxBufferMs: this.config.streamMaxBuffer,
+      });
+      this.streamPlayer.onEvent((event) => {
+        if (event === 'drained') {
+          this.updateSpeakingStatus(false);
+        }
+        this.publishPlaybackState();
+      });
+    }
+    
+    try {
+      await this.streamPlayer.init();
+      return this.streamPlayer;
+    } catch (error) {
+      console.error('❌ Failed to load PCM stream worklet:', error);
+      this.disposeStreamPlayer();
+      return null;
+    }
+  }
+
+  // Decode one chunk and hand it to the jitter buffer in index order; false if streaming is unavailable
+  private async streamAudioChunk(audioData: AudioPayload, index: number, total: number, sessionId?: string, format?: AudioChunkFormat): Promise<boolean> {
+    const player = await this.ensureStreamPlayer();
+    if (!player) {
+      return false;
+    }
+    
+    const timestamp = this.getTimestamp();
+    const chunkInfo = `${index}/${total}`;
+    const startTime = performance.now();
+    
+    // A new session, or chunk 0 again, starts a new response: restart ordering but let buffered audio finish
+    const streamSessionId = sessionId || null;
+    if (streamSessionId !== this.streamState.sessionId || (index === 0 && this.streamState.nextIndex > 0)) {
+      this.resetStream();
+      this.streamState.sessionId = streamSessionId;
+    }
+    if (index < this.streamState.nextIndex || this.streamState.pending.has(index)) {
+      this.log(`${timestamp} 🔄 STREAM DUPLICATE: chunk ${chunkInfo} already handled`);
+      return true;
+    }
+    this.streamState.total = total;
+    
+    let decoded = { samples: new Float32Array(0), sampleRate: this.audioContext!.sampleRate };
+    const bytes = await this.toAudioBytes(audioData, chunkInfo, timestamp);
+    if (bytes) {
+      const formatInfo = this.detectAudioFormat(bytes, chunkInfo, timestamp, format);
+      if (formatInfo.format !== 'PCM16') {
+        const audioBuffer = await this.decodeAudioBuffer(bytes, formatInfo, chunkInfo, timestamp);
+        if (audioBuffer) {
+          decoded = { samples: audioBuffer.getChannelData(0), sampleRate: audioBuffer.sampleRate };
+        }
+      } else {
+        decoded = { samples: pcm16ToFloat32(bytes, formatInfo.channels), sampleRate: formatInfo.sampleRate! };
+      }
+      if (this.config.speechRate !== 1 && decoded.samples.length > 0) {
+        decoded = { ...decoded, samples: timeStretch(decoded.samples, decoded.sampleRate, this.config.speechRate) };
+      }
+    }
+    this.updatePerformanceMetrics(performance.now() - startTime, decoded.samples.length > 0);
+    
+    // Undecodable chunks are kept as empty placeholders so ordering can move past them
+    this.streamState.pending.set(index, decoded);
+    this.flushStream();
+    return true;
+  }
+
+  private flushStream(): void {
+    const player = this.streamPlayer;
+    if (!player) return;
+    
+    const state = this.streamState;
+    while (state.pending.has(state.nextIndex)) {
+      const chunk = state.pending.get(state.nextIndex)!;
+      state.pending.delete(state.nextIndex);
+      state.nextIndex++;
+      
+      if (chunk.samples.length > 0) {
+        player.push(chunk.samples, chunk.sampleRate);
+        if (!state.started) {
+          state.started = true;
+          this.updateSpeakingStatus(true);
+          conversationState.send('ai-audio-start', 'audioService');
+        }
+      }
+    }
+    
+    if (state.total > 0 && state.nextIndex >= state.total) {
+      player.end();
+    }
+    
+    if (state.gapTimeoutId) {
+      clearTimeout(state.gapTimeoutId);
+      state.gapTimeoutId = null;
+    }
+    if (state.pending.size > 0) {
+      // A later chunk is here but an earlier one is missing; don't stall the stream on it forever
+      state.gapTimeoutId = setTimeout(() => {
+        state.gapTimeoutId = null;
+        const next = Math.min(...state.pending.keys());
+        this.log(`${this.getTimestamp()} ⏭️ STREAM GAP: skipping chunks ${state.nextIndex}-${next - 1} after ${this.config.streamGapTimeout}ms`);
+        state.nextIndex = next;
+        this.flushStream();
+      }, this.config.streamGapTimeout);
+    }
+    
+    this.publishPlaybackState();
+  }
+
+  private resetStream(): void {
+    if (this.streamState.gapTimeoutId) {
+      clearTimeout(this.streamState.gapTimeoutId);
+    }
+    this.streamState = {
+      sessionId: null,
+      nextIndex: 0,
+      total: 0,
+      started: false,
+      pending: new Map(),
+      gapTimeoutId: null,
+    };
+  }
+
+  private disposeStreamPlayer(): void {
+    this.streamPlayer?.dispose();
+    this.streamPlayer = null;
+    if (this.streamGain) {
+      this.streamGain.disconnect();
+      this.streamGain = null;
+    }
+    this.resetStream();
+  }
+
   // Enhanced cleanup method
   cleanup() {
+    // The worklet node belongs to the context being closed below
+    this.disposeStreamPlayer();
+    
     if (this.audioContext && this.audioContext.state !== 'closed') {
       this.audioContext.close().catch(err => {
         console.warn('Error closing audio context:', err);
       });
       this.audioContext = null;
     }
+    this.outputGain = null;
+    this.referenceTap = null;
+    this.disposeSinkElement();
+    this.duckLevel = 1;
     
     // Clear session monitoring intervals
     if (this.sessionMonitoringInterval) {
@@ -1513,8 +1944,8 @@ export class AudioService {
       reconnectionCount: 0,
       sessionHealthScore: 100,
       lastSessionRefresh: 0,
-      conversationState: 'idle',
     };
+    this.publishPlaybackState();
   }
   
   // New method to handle session cleanup and recovery
@@ -1579,7 +2010,6 @@ export class AudioService {
 
   // Adaptive chunk optimization methods
   private calculateAdaptivePlaybackParams(chunkSizeMs: number, totalChunks: number): {
-    playbackRate: number;
     volume: number;
     delay: number;
     fadeIn: number;
@@ -1587,7 +2017,6 @@ export class AudioService {
   } {
     if (!this.config.adaptiveChunkMode) {
       return {
-        playbackRate: this.config.defaultPlaybackRate,
         volume: this.config.volume,
         delay: this.config.chunkDelay,
         fadeIn: this.config.fadeInDuration,
@@ -1600,34 +2029,29 @@ export class AudioService {
     const isShortResponse = totalChunks <= 3;
     const isLongResponse = totalChunks > 10;
 
-    let playbackRate = this.config.defaultPlaybackRate;
-    let volume = this.config.volume;
+    const volume = this.config.volume;
     let delay = this.config.chunkDelay;
     let fadeIn = this.config.fadeInDuration;
     let fadeOut = this.config.fadeOutDuration;
 
     if (isLargeChunk) {
-      // Larger chunks can handle slightly faster playback but stay natural
-      playbackRate = Math.min(0.65, this.config.defaultPlaybackRate * 1.1); // Cap at 0.65x for natural speed
+      // Larger chunks need less separation between them
       delay = Math.max(2, this.config.chunkDelay * 0.5);
       fadeIn = this.config.fadeInDuration * 0.5;
       fadeOut = this.config.fadeOutDuration * 0.5;
     }
 
     if (isShortResponse) {
-      // Short responses can be slightly faster but still natural
-      playbackRate = Math.min(0.7, playbackRate * 1.05); // Cap at 0.7x for natural speed
+      // Short responses can start the next chunk sooner
       delay = Math.max(1, delay * 0.8);
     }
 
     if (isLongResponse) {
-      // Long responses need more careful handling but still natural
-      playbackRate = Math.max(0.4, playbackRate * 0.95); // Minimum 0.4x for natural sound
+      // Long responses need more careful handling
       delay = Math.min(10, delay * 1.2);
     }
 
     return {
-      playbackRate,
       volume,
       delay,
       fadeIn,
@@ -1642,7 +2066,7 @@ export class AudioService {
     console.log(`${timestamp} 🎵 ADAPTIVE CHUNK OPTIMIZATION:`, {
       chunkSize: `${Math.round(chunkSizeMs)}ms`,
       totalChunks,
-      playbackRate: params.playbackRate.toFixed(2),
+      speechRate: this.config.speechRate.toFixed(2),
       delay: `${params.delay}ms`,
       efficiency: `${(chunkSizeMs / params.delay).toFixed(1)}x`
     });
@@ -1708,6 +2132,7 @@ export class AudioService {
     // Reset performance metrics for new conversation
     this.performanceMetrics.lastChunkTime = 0;
     this.performanceMetrics.isCurrentlySpeaking = false;
+    this.publishPlaybackState();
     
     this.log(`${timestamp} ✅ CONTINUOUS CONVERSATION RESET COMPLETE`);
   }
@@ -0,0 +1,220 @@
+import { EventBus, Unsubscribe } from './eventBus';
+import { audioService } from './audioService';
+import { socketService } from './socketService';
+import { speechRecognition } from './speechRecognition';
+import { conversationState } from './conversationStateMachine';
+import { voiceActivityDetection } from './voiceActivityDetection';
+
+export interface BargeInConfig {
+  enabled: boolean;
+  duckLevel: number; // Output level (0..1) while a possible barge-in is being confirmed
+  confirmDuration: number; // ms the user must keep talking, ducked, before playback is stopped
+  minProbability: number; // Mean VAD score over the confirmation window; the AI's own echo tends to score lower
+  echoWordOverlap: number; // Share of recognized words also in the AI's reply above which it is treated as echo
+}
+
+export type BargeInStatus = 'idle' | 'confirming';
+
+export type BargeInOutcome = 'interrupted' | 'false-start' | 'echo' | 'low-confidence' | 'ai-finished';
+
+export type BargeInEvents = {
+  candidate: { timestamp: number };
+  resolved: { outcome: BargeInOutcome; transcript: string; timestamp: number };
+};
+
+export interface BargeInStats {
+  candidates: number;
+  interruptions: number;
+  falseStarts: number;
+  echoRejections: number;
+  lowConfidenceRejections: number;
+}
+
+const DEFAULT_CONFIG: BargeInConfig = {
+  enabled: true,
+  duckLevel: 0.25,
+  confirmDuration: 350,
+  minProbability: 0.65,
+  echoWordOverlap: 0.6,
+};
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').split(/\s+/).filter((word) => word.length > 1);
+}
+
+/**
+ * Lets the user talk over the AI.
+ *
+ * While AI audio plays, a VAD speech-start ducks the output and opens a short confirmation
+ * window. If the user is still talking when it closes, playback stops and the backend gets
+ * `interrupt` with the partial transcript; otherwise the level comes back. The VAD's echo
+ * gate drops most of the AI's own voice coming back through the mic; what gets past it is
+ * caught by what was recognized: a partial transcript that mostly repeats the reply being
+ * played is the speakers, not the user.
+ */
+export class BargeInController {
+  private config: BargeInConfig = { ...DEFAULT_CONFIG };
+  private events = new EventBus<BargeInEvents>('bargeInController');
+  private unsubscribers: Unsubscribe[] = [];
+  private status: BargeInStatus = 'idle';
+  private confirmTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private probabilities: number[] = [];
+  private partialTranscript: string = '';
+  private aiReplyWords: Set<string> = new Set();
+  private stats: BargeInStats = { candidates: 0, interruptions: 0, falseStarts: 0, echoRejections: 0, lowConfidenceRejections: 0 };
+
+  // Start watching for barge-in; returns the detach function
+  attach(): Unsubscribe {
+    this.detach();
+    this.unsubscribers = [
+      voiceActivityDetection.onSpeechStart(() => this.handleSpeechStart()),
+      voiceActivityDetection.onSpeechEnd(() => {
+        if (this.status === 'confirming') this.resolve('false-start');
+      }),
+      voiceActivityDetection.onFrame((frame) => {
+        if (this.status === 'confirming') this.probabilities.push(frame.probability);
+      }),
+      socketService.onAudioResponse((data) => {
+        if (data.transcript) this.addAIText(data.transcript);
+      }),
+      socketService.onAIResponseText((data) => this.addAIText(data.text)),
+      conversationState.onTransition((transition) => {
+        // A new reply starts from an empty vocabulary; a finished one ends any pending check
+        if (transition.event === 'user-turn-end') {
+          this.aiReplyWords.clear();
+        }
+        if (transition.to !== 'ai-speaking' && this.status === 'confirming' && !audioService.getPlaybackSnapshot().isPlaying) {
+          this.resolve('ai-finished');
+        }
+      }),
+    ];
+    return () => this.detach();
+  }
+
+  detach(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    if (this.status === 'confirming') {
+      this.clearConfirmTimeout();
+      this.status = 'idle';
+      audioService.unduck();
+    }
+  }
+
+  configure(config: Partial<BargeInConfig>): void {
+    this.config = { ...this.config, ...config };
+    console.log('🔧 Barge-in config updated:', this.config);
+    if (!this.config.enabled && this.status === 'confirming') {
+      this.resolve('false-start');
+    }
+  }
+
+  getConfig(): BargeInConfig {
+    return { ...this.config };
+  }
+
+  getStatus(): BargeInStatus {
+    return this.status;
+  }
+
+  getStats(): BargeInStats {
+    return { ...this.stats };
+  }
+
+  on<K extends keyof BargeInEvents & string>(event: K, listener: (payload: BargeInEvents[K]) => void): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  // Fed with recognition results; only used while a barge-in is being confirmed
+  handleUserTranscript(transcript: string): void {
+    if (this.status === 'confirming' && transcript.trim()) {
+      this.partialTranscript = transcript.trim();
+    }
+  }
+
+  private isAIPlaying(): boolean {
+    return conversationState.is('ai-speaking') || audioService.getPlaybackSnapshot().isPlaying;
+  }
+
+  private handleSpeechStart(): void {
+    if (!this.config.enabled || this.status === 'confirming' || !this.isAIPlaying()) return;
+
+    this.status = 'confirming';
+    this.stats.candidates++;
+    this.probabilities = [];
+    this.partialTranscript = '';
+    audioService.duck(this.config.duckLevel);
+    console.log('🤚 Possible barge-in, ducking AI audio');
+    this.events.emit('candidate', { timestamp: Date.now() });
+
+    this.confirmTimeoutId = setTimeout(() => {
+      this.confirmTimeoutId = null;
+      this.evaluate();
+    }, this.config.confirmDuration);
+  }
+
+  private evaluate(): void {
+    if (this.status !== 'confirming') return;
+
+    if (!voiceActivityDetection.isCurrentlySpeaking()) {
+      this.resolve('false-start');
+    } else if (!this.isAIPlaying()) {
+      this.resolve('ai-finished');
+    } else if (this.isEcho(this.partialTranscript)) {
+      this.resolve('echo');
+    } else if (this.meanProbability() < this.config.minProbability) {
+      this.resolve('low-confidence');
+    } else {
+      this.resolve('interrupted');
+    }
+  }
+
+  private resolve(outcome: BargeInOutcome): void {
+    this.clearConfirmTimeout();
+    this.status = 'idle';
+    const transcript = this.partialTranscript;
+
+    if (outcome === 'interrupted') {
+      this.stats.interruptions++;
+      console.log(`🗣️ BARGE-IN: user interrupted the AI${transcript ? ` ("${transcript}")` : ''}`);
+      audioService.handleUserInterruption();
+      socketService.interrupt({ reason: 'barge-in', transcript: transcript || undefined });
+      // The user holds the floor again; make sure recognition is listening for the rest of what they say
+      speechRecognition.resetForNewQuery();
+    } else {
+      if (outcome === 'false-start') this.stats.falseStarts++;
+      if (outcome === 'echo') this.stats.echoRejections++;
+      if (outcome === 'low-confidence') this.stats.lowConfidenceRejections++;
+      console.log(`↩️ Barge-in rejected (${outcome}), restoring AI audio`);
+      audioService.unduck();
+    }
+
+    this.events.emit('resolved', { outcome, transcript, timestamp: Date.now() });
+  }
+
+  private isEcho(transcript: string): boolean {
+    const heard = words(transcript);
+    if (heard.length < 2 || this.aiReplyWords.size === 0) return false;
+
+    const overlap = heard.filter((word) => this.aiReplyWords.has(word)).length / heard.length;
+    return overlap >= this.config.echoWordOverlap;
+  }
+
+  private meanProbability(): number {
+    if (this.probabilities.length === 0) return voiceActivityDetection.getProbability();
+    return this.probabilities.reduce((sum, probability) => sum + probability, 0) / this.probabilities.length;
+  }
+
+  private addAIText(text: string): void {
+    words(text).forEach((word) => this.aiReplyWords.add(word));
+  }
+
+  private clearConfirmTimeout(): void {
+    if (this.confirmTimeoutId) {
+      clearTimeout(this.confirmTimeoutId);
+      this.confirmTimeoutId = null;
+    }
+  }
+}
+
+export const bargeInController = new BargeInController();
@@ -0,0 +1,203 @@
+import { ExternalStore } from './externalStore';
+import type { Unsubscribe } from './eventBus';
+
+export type ConnectionQualityLevel = 'unknown' | 'excellent' | 'good' | 'fair' | 'poor';
+
+// One ping; null rtt means no pong came back within the timeout
+export interface LatencySample {
+  sequence: number;
+  sentAt: number;
+  rtt: number | null;
+}
+
+export interface LatencyWindowStats {
+  samples: number; // Pings sent in the window, lost ones included
+  lost: number;
+  lossRate: number; // 0-1
+  rttAvg: number | null; // ms; null until a pong has arrived
+  rttMin: number | null;
+  rttMax: number | null;
+  rttP95: number | null;
+  jitter: number | null; // Mean difference between consecutive round trips, as in RFC 3550
+}
+
+export interface ConnectionQualityState {
+  isSupported: boolean; // False on legacy backends, or once the backend has ignored every ping; probing then stops
+  isProbing: boolean;
+  lastRtt: number | null;
+  lastSampleAt: number | null;
+  short: LatencyWindowStats; // Roughly the last minute; what the score is based on
+  long: LatencyWindowStats; // Roughly the last five minutes
+  score: number | null; // 0-100
+  level: ConnectionQualityLevel;
+}
+
+// Sends one ping and resolves with the round trip in ms, or null if it timed out
+export type LatencyProbe = (sequence: number) => Promise<number | null>;
+
+const PING_INTERVAL = 5000;
+const SHORT_WINDOW = 12; // Samples; one minute at the ping interval
+const LONG_WINDOW = 60; // Five minutes
+const UNSUPPORTED_AFTER = 3; // Consecutive timeouts, with no pong ever, before deciding the backend can't answer
+
+const emptyWindow: LatencyWindowStats = {
+  samples: 0,
+  lost: 0,
+  lossRate: 0,
+  rttAvg: null,
+  rttMin: null,
+  rttMax: null,
+  rttP95: null,
+  jitter: null,
+};
+
+const initialState: ConnectionQualityState = {
+  isSupported: true,
+  isProbing: false,
+  lastRtt: null,
+  lastSampleAt: null,
+  short: emptyWindow,
+  long: emptyWindow,
+  score: null,
+  level: 'unknown',
+};
+
+/**
+ * Application-level round-trip measurement for the backend connection.
+ *
+ * Pings go through the same socket as audio and replies, so a slow round trip here means the
+ * network is slow; a fast one while replies still lag points at the model. Samples are kept
+ * per connection and scored over a rolling window.
+ */
+export class ConnectionQualityMonitor {
+  private store = new ExternalStore<ConnectionQualityState>(initialState);
+  private samples: LatencySample[] = [];
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private generation: number = 0; // Bumped on stop so pongs from an old connection are ignored
+  private sequence: number = 0;
+  private hasPong: boolean = false;
+  private consecutiveTimeouts: number = 0;
+
+  subscribe = (listener: () => void): Unsubscribe => this.store.subscribe(listener);
+  getSnapshot = (): ConnectionQualityState => this.store.getSnapshot();
+
+  // Begin pinging a fresh connection; previous samples are dropped
+  start(probe: LatencyProbe): void {
+    this.stop();
+    this.samples = [];
+    this.hasPong = false;
+    this.consecutiveTimeouts = 0;
+    this.store.setState({ ...initialState, isProbing: true });
+
+    const generation = this.generation;
+    const ping = () => this.ping(probe, generation);
+    this.intervalId = setInterval(ping, PING_INTERVAL);
+    ping();
+  }
+
+  // The backend can't answer pings (e.g. a legacy protocol); report that rather than a dead network
+  markUnsupported(): void {
+    this.stop();
+    this.samples = [];
+    this.store.setState({ ...initialState, isSupported: false });
+  }
+
+  // Stop pinging; the last statistics stay readable until the next start
+  stop(): void {
+    this.generation++;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.store.setState({ isProbing: false });
+  }
+
+  private async ping(probe: LatencyProbe, generation: number): Promise<void> {
+    const sample: LatencySample = { sequence: this.sequence++, sentAt: Date.now(), rtt: null };
+    let rtt: number | null = null;
+    try {
+      rtt = await probe(sample.sequence);
+    } catch (error) {
+      console.warn('⚠️ Latency ping failed:', error);
+    }
+    if (generation !== this.generation) return;
+
+    sample.rtt = rtt;
+    this.record(sample);
+    if (rtt !== null) {
+      this.hasPong = true;
+      this.consecutiveTimeouts = 0;
+    } else if (!this.hasPong && ++this.consecutiveTimeouts >= UNSUPPORTED_AFTER) {
+      // Older backends don't answer pings; don't report that as a dead network
+      console.log('📶 Backend does not answer latency pings, measurement off for this connection');
+      this.markUnsupported();
+    }
+  }
+
+  private record(sample: LatencySample): void {
+    this.samples.push(sample);
+    if (this.samples.length > LONG_WINDOW) {
+      this.samples.shift();
+    }
+
+    const short = ConnectionQualityMonitor.summarize(this.samples.slice(-SHORT_WINDOW));
+    const long = ConnectionQualityMonitor.summarize(this.samples);
+    const score = ConnectionQualityMonitor.score(short);
+    this.store.setState({
+      lastRtt: sample.rtt,
+      lastSampleAt: sample.sentAt,
+      short,
+      long,
+      score,
+      level: ConnectionQualityMonitor.level(score),
+    });
+  }
+
+  private static summarize(samples: LatencySample[]): LatencyWindowStats {
+    const rtts = samples.map((sample) => sample.rtt).filter((rtt): rtt is number => rtt !== null);
+    const lost = samples.length - rtts.length;
+    if (rtts.length === 0) {
+      return { ...emptyWindow, samples: samples.length, lost, lossRate: samples.length > 0 ? 1 : 0 };
+    }
+
+    const sorted = [...rtts].sort((a, b) => a - b);
+    let jitter: number | null = null;
+    if (rtts.length > 1) {
+      let total = 0;
+      for (let i = 1; i < rtts.length; i++) {
+        total += Math.abs(rtts[i] - rtts[i - 1]);
+      }
+      jitter = total / (rtts.length - 1);
+    }
+
+    return {
+      samples: samples.length,
+      lost,
+      lossRate: lost / samples.length,
+      rttAvg: rtts.reduce((sum, rtt) => sum + rtt, 0) / rtts.length,
+      rttMin: sorted[0],
+      rttMax: sorted[sorted.length - 1],
+      rttP95: sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)],
+      jitter,
+    };
+  }
+
+  // 100 for a clean LAN-like link; round trips over 100ms, jitter and loss each take a capped share
+  private static score(stats: LatencyWindowStats): number | null {
+    if (stats.samples === 0) return null;
+    if (stats.rttAvg === null) return 0;
+
+    const latencyPenalty = Math.min(40, Math.max(0, (stats.rttAvg - 100) / 10));
+    const jitterPenalty = Math.min(30, (stats.jitter ?? 0) / 2.5);
+    const lossPenalty = Math.min(50, stats.lossRate * 250);
+    return Math.round(Math.max(0, 100 - latencyPenalty - jitterPenalty - lossPenalty));
+  }
+
+  private static level(score: number | null): ConnectionQualityLevel {
+    if (score === null) return 'unknown';
+    if (score >= 85) return 'excellent';
+    if (score >= 70) return 'good';
+    if (score >= 50) return 'fair';
+    return 'poor';
+  }
+}
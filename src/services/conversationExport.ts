@@ -0,0 +1,379 @@
+import { conversationStore, type Turn } from './conversationStore';
+import { conversationHistory } from './conversationHistory';
+import type { StoredConversation, StoredTurnAudio } from './conversationRepository';
+import { socketService } from './socketService';
+import { encodeWav, parseWavHeader, pcm16ToFloat32, resampleLinear } from './audioFormat';
+
+export type ExportFormat = 'json' | 'markdown' | 'srt' | 'vtt' | 'wav';
+
+export const EXPORT_FORMATS: Array<{ id: ExportFormat; label: string; extension: string; mimeType: string }> = [
+  { id: 'json', label: 'JSON (turns and metrics)', extension: 'json', mimeType: 'application/json' },
+  { id: 'markdown', label: 'Markdown transcript', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'srt', label: 'SRT captions', extension: 'srt', mimeType: 'application/x-subrip' },
+  { id: 'vtt', label: 'WebVTT captions', extension: 'vtt', mimeType: 'text/vtt' },
+  { id: 'wav', label: 'WAV audio', extension: 'wav', mimeType: 'audio/wav' },
+];
+
+// Where each turn sits in the stitched audio; captions and the WAV share this timeline
+export interface TimelineEntry {
+  turn: Turn;
+  startMs: number;
+  endMs: number;
+  samples: Float32Array | null; // null when the turn has no saved audio
+}
+
+export interface ConversationMetrics {
+  turnCount: number;
+  userTurns: number;
+  aiTurns: number;
+  typedTurns: number;
+  interruptedAITurns: number;
+  droppedUserTurns: number; // User turns that never reached the AI
+  averageLatencyMs: number | null;
+  medianLatencyMs: number | null;
+  p95LatencyMs: number | null;
+  wallClockDurationMs: number; // First turn starting to last turn ending
+  audioDurationMs: number; // Length of the stitched timeline
+  turnsWithAudio: number;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+}
+
+const EXPORT_SAMPLE_RATE = 24000; // The AI's native rate; user audio is upsampled to it
+const DEFAULT_PCM_SAMPLE_RATE = 24000; // Matches audioService's assumption for bare Linear16
+const GAP_MS = 500; // Silence between turns in the stitched audio
+const MIN_TURN_MS = 1000; // Turns without audio still get a readable caption
+const MAX_SILENT_TURN_MS = 10000; // ...but never a long stretch of silence
+
+function percentile(sorted: number[], fraction: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+}
+
+function speakerLabel(turn: Turn): string {
+  return turn.speaker === 'user' ? 'You' : 'AI';
+}
+
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+function slugify(text: string): string {
+  const slug = text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return slug || 'conversation';
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+function concatSamples(parts: Float32Array[]): Float32Array {
+  const output = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+}
+
+function mimeRate(mimeType: string): number | null {
+  const match = mimeType.match(/rate=(\d+)/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Client-side export of saved conversations.
+ *
+ * Text formats come from the locally recorded turns; JSON also carries the backend's own
+ * export of every session the conversation used, when the server still has it. Captions are
+ * timed against the stitched WAV: turns play back to back with a short gap, and turns without
+ * saved audio are held for a silence roughly as long as they took.
+ */
+export class ConversationExportService {
+  async build(conversationId: string, format: ExportFormat): Promise<ExportResult> {
+    const conversation = await this.loadConversation(conversationId);
+    const option = EXPORT_FORMATS.find((candidate) => candidate.id === format);
+    const filename = `${slugify(conversation.title)}-${new Date(conversation.createdAt).toISOString().slice(0, 10)}.${option.extension}`;
+
+    if (format === 'markdown') {
+      const timeline = await this.buildTimeline(conversation, false);
+      return { blob: new Blob([this.toMarkdown(conversation, timeline)], { type: option.mimeType }), filename };
+    }
+
+    const timeline = await this.buildTimeline(conversation, true);
+    switch (format) {
+      case 'json': {
+        const json = await this.toJson(conversation, timeline);
+        return { blob: new Blob([JSON.stringify(json, null, 2)], { type: option.mimeType }), filename };
+      }
+      case 'srt':
+        return { blob: new Blob([this.toSrt(timeline)], { type: option.mimeType }), filename };
+      case 'vtt':
+        return { blob: new Blob([this.toVtt(timeline)], { type: option.mimeType }), filename };
+      case 'wav':
+        return { blob: new Blob([this.toWav(timeline)], { type: option.mimeType }), filename };
+    }
+  }
+
+  // Build the export and hand it to the browser as a download
+  async download(conversationId: string, format: ExportFormat): Promise<void> {
+    const { blob, filename } = await this.build(conversationId, format);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Some browsers start the download asynchronously
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    console.log(`📦 Exported ${conversationId} as ${format}: ${filename} (${blob.size}B)`);
+  }
+
+  computeMetrics(turns: Turn[], timeline: TimelineEntry[]): ConversationMetrics {
+    const latencies = turns
+      .map((turn) => turn.latencyMs)
+      .filter((latency): latency is number => latency !== null)
+      .sort((a, b) => a - b);
+    const ended = turns.filter((turn) => turn.endedAt !== null);
+
+    return {
+      turnCount: turns.length,
+      userTurns: turns.filter((turn) => turn.speaker === 'user').length,
+      aiTurns: turns.filter((turn) => turn.speaker === 'ai').length,
+      typedTurns: turns.filter((turn) => turn.modality === 'text').length,
+      interruptedAITurns: turns.filter((turn) => turn.speaker === 'ai' && turn.interrupted).length,
+      droppedUserTurns: turns.filter((turn) => turn.speaker === 'user' && turn.interrupted).length,
+      averageLatencyMs: latencies.length > 0 ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length) : null,
+      medianLatencyMs: percentile(latencies, 0.5),
+      p95LatencyMs: percentile(latencies, 0.95),
+      wallClockDurationMs: turns.length > 0 && ended.length > 0
+        ? Math.max(...ended.map((turn) => turn.endedAt)) - turns[0].startedAt
+        : 0,
+      audioDurationMs: timeline.length > 0 ? timeline[timeline.length - 1].endMs : 0,
+      turnsWithAudio: timeline.filter((entry) => entry.samples !== null).length,
+    };
+  }
+
+  // The saved record, with the live turns if it's the conversation in progress
+  private async loadConversation(conversationId: string): Promise<StoredConversation> {
+    conversationHistory.flush();
+    const stored = await conversationHistory.getConversation(conversationId).catch((error) => {
+      console.warn('⚠️ Could not read saved conversation:', error);
+      return null;
+    });
+
+    const current = conversationStore.getSnapshot();
+    if (current.conversationId === conversationId && current.turns.length > 0) {
+      return {
+        id: conversationId,
+        title: stored?.title ?? current.turns.find((turn) => turn.speaker === 'user')?.text.slice(0, 60) ?? 'Conversation',
+        createdAt: stored?.createdAt ?? current.turns[0].startedAt,
+        updatedAt: current.updatedAt,
+        turns: current.turns,
+        hasAudio: stored?.hasAudio ?? false,
+        sessionIds: stored?.sessionIds,
+      };
+    }
+    if (!stored) {
+      throw new Error('Conversation not found');
+    }
+    return stored;
+  }
+
+  private async buildTimeline(conversation: StoredConversation, withAudio: boolean): Promise<TimelineEntry[]> {
+    const audio = withAudio && conversation.hasAudio ? await conversationHistory.getAudio(conversation.id) : [];
+    const audioByTurn = new Map(audio.map((entry) => [entry.turnId, entry]));
+
+    const timeline: TimelineEntry[] = [];
+    let cursor = 0;
+    for (const turn of conversation.turns) {
+      const stored = audioByTurn.get(turn.id);
+      const samples = stored ? await this.decodeTurnAudio(stored) : null;
+      if (!samples && !turn.text.trim()) continue;
+
+      const spokenMs = turn.endedAt !== null ? turn.endedAt - turn.startedAt : 0;
+      const durationMs = samples
+        ? (samples.length / EXPORT_SAMPLE_RATE) * 1000
+        : Math.min(MAX_SILENT_TURN_MS, Math.max(MIN_TURN_MS, spokenMs));
+      timeline.push({ turn, startMs: cursor, endMs: cursor + durationMs, samples });
+      cursor += durationMs + GAP_MS;
+    }
+    return timeline;
+  }
+
+  // One turn's chunks as mono samples at the export rate; null if nothing could be decoded
+  private async decodeTurnAudio(audio: StoredTurnAudio): Promise<Float32Array | null> {
+    try {
+      const chunks = await Promise.all(audio.chunks.map(async (chunk) => new Uint8Array(await chunk.arrayBuffer())));
+      if (chunks.length === 0) return null;
+
+      // Raw Linear16 can be split anywhere, so it's joined before converting
+      if (audio.mimeType.startsWith('audio/pcm')) {
+        const samples = pcm16ToFloat32(concatBytes(chunks));
+        return resampleLinear(samples, mimeRate(audio.mimeType) ?? DEFAULT_PCM_SAMPLE_RATE, EXPORT_SAMPLE_RATE);
+      }
+
+      const decoded: Float32Array[] = [];
+      for (const chunk of chunks) {
+        const samples = await this.decodeChunk(chunk);
+        if (samples) decoded.push(samples);
+      }
+      return decoded.length > 0 ? concatSamples(decoded) : null;
+    } catch (error) {
+      console.warn(`⚠️ Could not decode audio for turn ${audio.turnId}:`, error);
+      return null;
+    }
+  }
+
+  // Containers by magic bytes, as audioService does; anything else is treated as bare Linear16
+  private async decodeChunk(bytes: Uint8Array): Promise<Float32Array | null> {
+    const wav = parseWavHeader(bytes);
+    if (wav && wav.audioFormat === 1 && wav.bitsPerSample === 16) {
+      const samples = pcm16ToFloat32(bytes.subarray(wav.dataOffset, wav.dataOffset + wav.dataLength), wav.channels);
+      return resampleLinear(samples, wav.sampleRate, EXPORT_SAMPLE_RATE);
+    }
+
+    const isOgg = bytes[0] === 0x4F && bytes[1] === 0x67 && bytes[2] === 0x67 && bytes[3] === 0x53;
+    const isMp3 = (bytes[0] === 0xFF && (bytes[1] & 0xE0) === 0xE0) || (bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33);
+    if (wav || isOgg || isMp3) {
+      // decodeAudioData resamples to the context's rate and detaches the buffer it's given
+      const context = new OfflineAudioContext(1, 1, EXPORT_SAMPLE_RATE);
+      const buffer = await context.decodeAudioData(bytes.slice().buffer);
+      const mono = new Float32Array(buffer.length);
+      for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < data.length; i++) {
+          mono[i] += data[i] / buffer.numberOfChannels;
+        }
+      }
+      return mono;
+    }
+
+    return resampleLinear(pcm16ToFloat32(bytes), DEFAULT_PCM_SAMPLE_RATE, EXPORT_SAMPLE_RATE);
+  }
+
+  private async toJson(conversation: StoredConversation, timeline: TimelineEntry[]) {
+    const entries = new Map(timeline.map((entry) => [entry.turn.id, entry]));
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        createdAt: new Date(conversation.createdAt).toISOString(),
+        updatedAt: new Date(conversation.updatedAt).toISOString(),
+      },
+      metrics: this.computeMetrics(conversation.turns, timeline),
+      turns: conversation.turns.map((turn) => {
+        const entry = entries.get(turn.id);
+        return {
+          ...turn,
+          startedAt: new Date(turn.startedAt).toISOString(),
+          endedAt: turn.endedAt !== null ? new Date(turn.endedAt).toISOString() : null,
+          hasAudio: entry?.samples != null,
+          audioStartMs: entry ? Math.round(entry.startMs) : null,
+          audioEndMs: entry ? Math.round(entry.endMs) : null,
+        };
+      }),
+      server: await this.fetchServerExports(conversation.sessionIds ?? []),
+    };
+  }
+
+  // The backend forgets sessions eventually; a missing one is reported, not fatal
+  private async fetchServerExports(sessionIds: string[]) {
+    return Promise.all(
+      sessionIds.map(async (sessionId) => {
+        try {
+          return { sessionId, export: await socketService.getSessionExport(sessionId) };
+        } catch (error) {
+          console.warn(`⚠️ Server export unavailable for session ${sessionId}:`, error);
+          return { sessionId, error: error instanceof Error ? error.message : String(error) };
+        }
+      })
+    );
+  }
+
+  private toMarkdown(conversation: StoredConversation, timeline: TimelineEntry[]): string {
+    const metrics = this.computeMetrics(conversation.turns, timeline);
+    const lines = [
+      `# ${conversation.title}`,
+      '',
+      `_${new Date(conversation.createdAt).toLocaleString()} · ${metrics.turnCount} turns_`,
+      '',
+    ];
+
+    if (metrics.averageLatencyMs !== null) {
+      lines.push(`Reply latency: ${(metrics.averageLatencyMs / 1000).toFixed(1)}s average, ${(metrics.p95LatencyMs / 1000).toFixed(1)}s p95`, '');
+    }
+
+    conversation.turns.forEach((turn) => {
+      const notes = [
+        new Date(turn.startedAt).toLocaleTimeString(),
+        turn.modality === 'text' ? 'typed' : null,
+        turn.latencyMs !== null ? `${(turn.latencyMs / 1000).toFixed(1)}s` : null,
+        turn.interrupted ? (turn.speaker === 'ai' ? 'interrupted' : 'not sent') : null,
+      ].filter(Boolean);
+      lines.push(`**${speakerLabel(turn)}** _(${notes.join(', ')})_`, '');
+      lines.push(turn.text.trim() || '_(no text)_', '');
+      if (turn.heardText && turn.heardText !== turn.text) {
+        lines.push(`> Heard: ${turn.heardText}`, '');
+      }
+    });
+
+    return lines.join('\n');
+  }
+
+  private toSrt(timeline: TimelineEntry[]): string {
+    return timeline
+      .map((entry, index) => [
+        String(index + 1),
+        `${formatTimestamp(entry.startMs, ',')} --> ${formatTimestamp(entry.endMs, ',')}`,
+        `${speakerLabel(entry.turn)}: ${entry.turn.text.trim() || '…'}`,
+        '',
+      ].join('\n'))
+      .join('\n');
+  }
+
+  private toVtt(timeline: TimelineEntry[]): string {
+    const cues = timeline.map((entry) => [
+      `${formatTimestamp(entry.startMs, '.')} --> ${formatTimestamp(entry.endMs, '.')}`,
+      `<v ${speakerLabel(entry.turn)}>${entry.turn.text.trim() || '…'}`,
+      '',
+    ].join('\n'));
+    return ['WEBVTT', '', ...cues].join('\n');
+  }
+
+  private toWav(timeline: TimelineEntry[]): ArrayBuffer {
+    if (!timeline.some((entry) => entry.samples !== null)) {
+      throw new Error('No audio was saved for this conversation');
+    }
+
+    const total = timeline.length > 0 ? Math.ceil((timeline[timeline.length - 1].endMs / 1000) * EXPORT_SAMPLE_RATE) : 0;
+    const output = new Float32Array(total);
+    timeline.forEach((entry) => {
+      if (!entry.samples) return;
+      const offset = Math.round((entry.startMs / 1000) * EXPORT_SAMPLE_RATE);
+      output.set(entry.samples.subarray(0, Math.max(0, total - offset)), offset);
+    });
+    return encodeWav(output, EXPORT_SAMPLE_RATE);
+  }
+}
+
+export const conversationExport = new ConversationExportService();
@@ -0,0 +1,358 @@
+import { ExternalStore } from './externalStore';
+import type { Unsubscribe } from './eventBus';
+import { conversationStore, type ConversationStoreState, type Turn } from './conversationStore';
+import { ConversationRepository, conversationRepository, type StoredConversation, type StoredTurnAudio } from './conversationRepository';
+import { conversationState, USER_TURN_PHASES } from './conversationStateMachine';
+import { socketService } from './socketService';
+import { audioCapture, type CaptureFormat } from './audioCapture';
+import { voiceSettings } from './voiceSettings';
+import type { AudioResponse, ConversationContext } from './protocol';
+
+export interface ConversationHistoryState {
+  isSupported: boolean;
+  conversations: StoredConversation[]; // Newest first, turns included
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface PendingAudio {
+  turnId: string | null; // null while the user's turn hasn't been created yet
+  mimeType: string;
+  chunks: Blob[];
+  bytes: number;
+}
+
+const SAVE_DELAY = 1000; // Coalesce the many updates a streaming turn makes into one write
+const CONTEXT_TURNS = 20; // Prior turns handed to the backend when a conversation is resumed
+const MAX_TURN_AUDIO_BYTES = 10 * 1024 * 1024;
+const TITLE_LENGTH = 60;
+const DEFAULT_AI_SAMPLE_RATE = 24000; // Matches audioService's assumption for bare Linear16
+
+function titleFor(turns: Turn[]): string {
+  const first = turns.find((turn) => turn.speaker === 'user' && turn.text.trim());
+  if (!first) return 'Untitled conversation';
+  const text = first.text.trim();
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : text;
+}
+
+// What the backend needs to pick the conversation back up: finished turns that actually reached it
+function contextFor(state: ConversationStoreState): ConversationContext | null {
+  const turns = state.turns
+    .filter((turn) => turn.endedAt !== null && !turn.interrupted && turn.text.trim())
+    .slice(-CONTEXT_TURNS)
+    .map((turn) => ({
+      role: turn.speaker === 'user' ? ('user' as const) : ('assistant' as const),
+      text: turn.text.trim(),
+      timestamp: new Date(turn.startedAt).toISOString(),
+    }));
+  return turns.length > 0 ? { conversationId: state.conversationId, turns } : null;
+}
+
+function audioMimeType(format: AudioResponse['format']): string {
+  if (!format?.encoding) return '';
+  if (['pcm', 'linear16', 'l16'].includes(format.encoding)) {
+    return `audio/pcm;rate=${format.sampleRate ?? DEFAULT_AI_SAMPLE_RATE}`;
+  }
+  return `audio/${format.encoding}`;
+}
+
+function toBlob(audio: AudioResponse['audio']): Blob | null {
+  if (typeof audio !== 'string') return new Blob([audio]);
+  try {
+    const binary = atob(audio);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keeps the conversation store saved in IndexedDB and lets past conversations be resumed.
+ *
+ * Saving is debounced per conversation; resuming loads the turns back into the store and hands
+ * the backend the recent ones as context on the next start-conversation. With the saveAudio
+ * setting on, each turn's audio is stored next to it: the user's from PCM capture (recorder
+ * chunks after the first can't be decoded alone) and the AI's as it arrives.
+ */
+export class ConversationHistoryService {
+  private store = new ExternalStore<ConversationHistoryState>({
+    isSupported: ConversationRepository.isSupported(),
+    conversations: [],
+    isLoading: false,
+    error: null,
+  });
+  private unsubscribers: Unsubscribe[] = [];
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastSnapshot: ConversationStoreState | null = null;
+  private conversationsWithAudio: Set<string> = new Set();
+  private sessionIds: string[] = []; // Backend sessions that served the current conversation
+  private userAudio: PendingAudio | null = null;
+  private aiAudio: PendingAudio | null = null;
+
+  subscribe = (listener: () => void): Unsubscribe => this.store.subscribe(listener);
+  getSnapshot = (): ConversationHistoryState => this.store.getSnapshot();
+
+  attach(): Unsubscribe {
+    this.detach();
+    this.lastSnapshot = conversationStore.getSnapshot();
+    socketService.setConversationContext(contextFor(this.lastSnapshot));
+    this.trackSession();
+
+    const handlePageHide = () => this.flush();
+    window.addEventListener('pagehide', handlePageHide);
+
+    this.unsubscribers = [
+      conversationStore.subscribe(() => this.handleStoreChange()),
+      conversationStore.on('turn-started', (turn) => this.handleTurnStarted(turn)),
+      conversationStore.on('turn-ended', (turn) => this.handleTurnEnded(turn)),
+      conversationState.onTransition((transition) => {
+        // Each user turn records from when the mic starts listening for it
+        if (USER_TURN_PHASES.includes(transition.to) && !USER_TURN_PHASES.includes(transition.from)) {
+          this.userAudio = null;
+        }
+      }),
+      socketService.subscribeConnection(() => this.trackSession()),
+      audioCapture.tap((chunk, format) => this.captureUserAudio(chunk, format)),
+      socketService.onAudioResponse((data) => this.captureAIAudio(data)),
+      () => window.removeEventListener('pagehide', handlePageHide),
+    ];
+    return () => this.detach();
+  }
+
+  detach(): void {
+    this.flush();
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.userAudio = null;
+    this.aiAudio = null;
+  }
+
+  async refresh(): Promise<void> {
+    if (!ConversationRepository.isSupported()) return;
+    this.store.setState({ isLoading: true, error: null });
+    try {
+      const conversations = await conversationRepository.listConversations();
+      conversations.filter((conversation) => conversation.hasAudio).forEach((conversation) => this.conversationsWithAudio.add(conversation.id));
+      this.store.setState({ conversations, isLoading: false });
+    } catch (error) {
+      console.error('❌ Could not load saved conversations:', error);
+      this.store.setState({ isLoading: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Make a saved conversation the current one; the backend gets its recent turns as context
+  async resume(id: string): Promise<boolean> {
+    this.flush();
+    try {
+      const conversation = await conversationRepository.getConversation(id);
+      if (!conversation) return false;
+
+      if (conversation.hasAudio) this.conversationsWithAudio.add(id);
+      conversationStore.load(conversation.id, conversation.turns);
+      this.lastSnapshot = conversationStore.getSnapshot();
+      this.sessionIds = [...(conversation.sessionIds ?? [])];
+      this.trackSession();
+      socketService.setConversationContext(contextFor(this.lastSnapshot));
+      if (socketService.isConnected()) {
+        socketService.startConversation();
+      }
+      console.log(`📂 Resumed conversation ${id} (${conversation.turns.length} turns)`);
+      return true;
+    } catch (error) {
+      console.error('❌ Could not resume conversation:', error);
+      this.store.setState({ error: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    if (id === conversationStore.getConversationId()) {
+      // Nothing of the current conversation should be written back after it's gone
+      this.cancelSave();
+      this.lastSnapshot = null;
+      conversationStore.startNew();
+    }
+    try {
+      await conversationRepository.deleteConversation(id);
+      this.conversationsWithAudio.delete(id);
+      this.store.setState({ conversations: this.getSnapshot().conversations.filter((conversation) => conversation.id !== id) });
+    } catch (error) {
+      console.error('❌ Could not delete conversation:', error);
+      this.store.setState({ error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  getConversation(id: string): Promise<StoredConversation | null> {
+    return conversationRepository.getConversation(id);
+  }
+
+  getAudio(conversationId: string): Promise<StoredTurnAudio[]> {
+    return conversationRepository.getConversationAudio(conversationId);
+  }
+
+  // Write any pending change now instead of waiting for the debounce
+  flush(): void {
+    if (!this.saveTimer) return;
+    this.cancelSave();
+    if (this.lastSnapshot) {
+      void this.save(this.lastSnapshot, this.sessionIds);
+    }
+  }
+
+  private handleStoreChange(): void {
+    const snapshot = conversationStore.getSnapshot();
+    const previous = this.lastSnapshot;
+    this.lastSnapshot = snapshot;
+
+    // Switching conversations: finish writing the one being left before tracking the new one
+    if (previous && previous.conversationId !== snapshot.conversationId) {
+      if (this.saveTimer) {
+        this.cancelSave();
+        void this.save(previous, this.sessionIds);
+      }
+      this.userAudio = null;
+      this.aiAudio = null;
+      this.sessionIds = [];
+      this.trackSession();
+    }
+
+    socketService.setConversationContext(contextFor(snapshot));
+    this.scheduleSave();
+  }
+
+  private scheduleSave(): void {
+    this.cancelSave();
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      if (this.lastSnapshot) {
+        void this.save(this.lastSnapshot, this.sessionIds);
+      }
+    }, SAVE_DELAY);
+  }
+
+  private cancelSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+
+  private async save(snapshot: ConversationStoreState, sessionIds: string[]): Promise<void> {
+    if (!ConversationRepository.isSupported() || snapshot.turns.length === 0) return;
+
+    const existing = this.getSnapshot().conversations.find((conversation) => conversation.id === snapshot.conversationId);
+    const conversation: StoredConversation = {
+      id: snapshot.conversationId,
+      title: titleFor(snapshot.turns),
+      createdAt: existing?.createdAt ?? snapshot.turns[0].startedAt,
+      updatedAt: snapshot.updatedAt,
+      turns: snapshot.turns,
+      hasAudio: this.conversationsWithAudio.has(snapshot.conversationId),
+      sessionIds: [...sessionIds],
+    };
+
+    try {
+      await conversationRepository.saveConversation(conversation);
+      const others = this.getSnapshot().conversations.filter((candidate) => candidate.id !== conversation.id);
+      this.store.setState({
+        conversations: [conversation, ...others].sort((a, b) => b.updatedAt - a.updatedAt),
+        error: null,
+      });
+    } catch (error) {
+      console.error('❌ Could not save conversation:', error);
+      this.store.setState({ error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Remember the backend session so the server's export can be merged in later
+  private trackSession(): void {
+    const { sessionId } = socketService.getConnectionSnapshot();
+    if (!sessionId || this.sessionIds.includes(sessionId)) return;
+    this.sessionIds.push(sessionId);
+    if (conversationStore.getTurns().length > 0) {
+      this.scheduleSave();
+    }
+  }
+
+  private handleTurnStarted(turn: Turn): void {
+    if (turn.speaker === 'ai') {
+      this.aiAudio = { turnId: turn.id, mimeType: '', chunks: [], bytes: 0 };
+    } else if (turn.modality === 'voice' && this.userAudio) {
+      this.userAudio.turnId = turn.id;
+    }
+  }
+
+  private handleTurnEnded(turn: Turn): void {
+    if (turn.speaker === 'ai') {
+      if (this.aiAudio?.turnId === turn.id) {
+        void this.saveAudio(turn, this.aiAudio);
+        this.aiAudio = null;
+      }
+      return;
+    }
+
+    if (turn.modality !== 'voice') return;
+    const pending = this.userAudio;
+    this.userAudio = null;
+    // A turn dropped before reaching the AI keeps its text but not its audio
+    if (pending && !turn.interrupted) {
+      void this.saveAudio(turn, pending);
+    }
+  }
+
+  private captureUserAudio(chunk: Blob | ArrayBuffer, format: CaptureFormat): void {
+    if (!voiceSettings.getSnapshot().saveAudio || format.mode !== 'pcm') return;
+    if (!USER_TURN_PHASES.includes(conversationState.getPhase())) return;
+
+    if (!this.userAudio) {
+      this.userAudio = { turnId: null, mimeType: `audio/pcm;rate=${format.sampleRate}`, chunks: [], bytes: 0 };
+    }
+    const blob = chunk instanceof Blob ? chunk : new Blob([chunk]);
+    this.append(this.userAudio, blob);
+  }
+
+  private captureAIAudio(data: AudioResponse): void {
+    if (!voiceSettings.getSnapshot().saveAudio || !this.aiAudio) return;
+    const blob = toBlob(data.audio);
+    if (!blob) return;
+    if (!this.aiAudio.mimeType) {
+      this.aiAudio.mimeType = audioMimeType(data.format);
+    }
+    this.append(this.aiAudio, blob);
+  }
+
+  private append(pending: PendingAudio, blob: Blob): void {
+    if (pending.bytes + blob.size > MAX_TURN_AUDIO_BYTES) return;
+    pending.chunks.push(blob);
+    pending.bytes += blob.size;
+  }
+
+  private async saveAudio(turn: Turn, pending: PendingAudio): Promise<void> {
+    if (!ConversationRepository.isSupported() || pending.chunks.length === 0) return;
+
+    const conversationId = conversationStore.getConversationId();
+    try {
+      await conversationRepository.saveTurnAudio({
+        id: `${conversationId}:${turn.id}`,
+        conversationId,
+        turnId: turn.id,
+        speaker: turn.speaker,
+        mimeType: pending.mimeType,
+        chunks: pending.chunks,
+        createdAt: Date.now(),
+      });
+      if (!this.conversationsWithAudio.has(conversationId)) {
+        this.conversationsWithAudio.add(conversationId);
+        this.scheduleSave();
+      }
+    } catch (error) {
+      console.error('❌ Could not save turn audio:', error);
+    }
+  }
+}
+
+export const conversationHistory = new ConversationHistoryService();
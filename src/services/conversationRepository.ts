@@ -0,0 +1,136 @@
+import type { Turn, TurnSpeaker } from './conversationStore';
+
+export interface StoredConversation {
+  id: string;
+  title: string; // First thing the user said or typed
+  createdAt: number;
+  updatedAt: number;
+  turns: Turn[];
+  hasAudio: boolean;
+  sessionIds?: string[]; // Backend sessions that served it, for the server-side export; missing on older records
+}
+
+// One turn's audio, kept as the chunks it arrived in; encoded chunks only decode one at a time
+export interface StoredTurnAudio {
+  id: string; // `${conversationId}:${turnId}`
+  conversationId: string;
+  turnId: string;
+  speaker: TurnSpeaker;
+  mimeType: string; // '' when the backend didn't say; the decoder has to sniff it
+  chunks: Blob[];
+  createdAt: number;
+}
+
+const DB_NAME = 'sova';
+const DB_VERSION = 1;
+const CONVERSATIONS = 'conversations';
+const AUDIO = 'audio';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+  });
+}
+
+/**
+ * IndexedDB storage for past conversations and, optionally, their audio.
+ *
+ * Conversations are stored whole (turns included) since they are small and always read
+ * together; audio lives in its own store so listing conversations never loads it.
+ */
+export class ConversationRepository {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async listConversations(): Promise<StoredConversation[]> {
+    const db = await this.open();
+    const conversations = await requestToPromise(db.transaction(CONVERSATIONS).objectStore(CONVERSATIONS).getAll());
+    return (conversations as StoredConversation[]).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getConversation(id: string): Promise<StoredConversation | null> {
+    const db = await this.open();
+    const conversation = await requestToPromise(db.transaction(CONVERSATIONS).objectStore(CONVERSATIONS).get(id));
+    return (conversation as StoredConversation | undefined) ?? null;
+  }
+
+  async saveConversation(conversation: StoredConversation): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(CONVERSATIONS, 'readwrite');
+    transaction.objectStore(CONVERSATIONS).put(conversation);
+    await transactionDone(transaction);
+  }
+
+  // Removes the conversation and all of its audio
+  async deleteConversation(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([CONVERSATIONS, AUDIO], 'readwrite');
+    transaction.objectStore(CONVERSATIONS).delete(id);
+    const audio = transaction.objectStore(AUDIO);
+    const keys = await requestToPromise(audio.index('conversationId').getAllKeys(id));
+    keys.forEach((key) => audio.delete(key));
+    await transactionDone(transaction);
+  }
+
+  async saveTurnAudio(audio: StoredTurnAudio): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(AUDIO, 'readwrite');
+    transaction.objectStore(AUDIO).put(audio);
+    await transactionDone(transaction);
+  }
+
+  async getConversationAudio(conversationId: string): Promise<StoredTurnAudio[]> {
+    const db = await this.open();
+    const audio = await requestToPromise(db.transaction(AUDIO).objectStore(AUDIO).index('conversationId').getAll(conversationId));
+    return audio as StoredTurnAudio[];
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!ConversationRepository.isSupported()) {
+      return Promise.reject(new Error('IndexedDB is not available in this browser'));
+    }
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CONVERSATIONS)) {
+            db.createObjectStore(CONVERSATIONS, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+          }
+          if (!db.objectStoreNames.contains(AUDIO)) {
+            db.createObjectStore(AUDIO, { keyPath: 'id' }).createIndex('conversationId', 'conversationId');
+          }
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Another tab upgrading the schema needs this connection out of the way
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error ?? new Error('Could not open IndexedDB'));
+        request.onblocked = () => console.warn('⚠️ Conversation storage upgrade is blocked by another tab');
+      }).catch((error) => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+export const conversationRepository = new ConversationRepository();
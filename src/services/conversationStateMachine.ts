@@ -0,0 +1,214 @@
+import { EventBus, Unsubscribe } from './eventBus';
+import { ExternalStore } from './externalStore';
+
+export type ConversationPhase =
+  | 'idle'
+  | 'connecting'
+  | 'listening'
+  | 'user-speaking'
+  | 'awaiting-ai'
+  | 'ai-speaking'
+  | 'interrupted'
+  | 'error';
+
+export type ConversationEvent =
+  | 'connect'
+  | 'connected'
+  | 'disconnected'
+  | 'mic-on'
+  | 'mic-off'
+  | 'speech-start'
+  | 'user-turn-end'
+  | 'ai-audio-start'
+  | 'ai-finished'
+  | 'interrupt'
+  | 'resume'
+  | 'fail'
+  | 'reset';
+
+export interface ConversationTransition {
+  from: ConversationPhase;
+  to: ConversationPhase;
+  event: ConversationEvent;
+  source: string; // Which service drove the event, for the debug history
+  detail?: string;
+  accepted: boolean;
+  timestamp: number;
+}
+
+export interface ConversationSnapshot {
+  phase: ConversationPhase;
+  previousPhase: ConversationPhase | null;
+  lastEvent: ConversationEvent | null;
+  since: number;
+  error: string | null;
+}
+
+export type ConversationStateEvents = {
+  transition: ConversationTransition;
+  rejected: ConversationTransition;
+};
+
+// Phases in which the microphone is live and the conversation is running
+export const ACTIVE_CONVERSATION_PHASES: ConversationPhase[] = ['listening', 'user-speaking', 'awaiting-ai', 'ai-speaking', 'interrupted'];
+
+// Phases in which the user holds the floor and may still end their turn
+export const USER_TURN_PHASES: ConversationPhase[] = ['listening', 'user-speaking', 'interrupted'];
+
+const HISTORY_LIMIT = 100;
+
+// Allowed transitions; anything not listed here is rejected and recorded in the history
+const transitions: Record<ConversationPhase, Partial<Record<ConversationEvent, ConversationPhase>>> = {
+  'idle': {
+    'connect': 'connecting',
+    'mic-on': 'listening',
+  },
+  'connecting': {
+    'connected': 'idle',
+    'disconnected': 'idle',
+  },
+  'listening': {
+    'speech-start': 'user-speaking',
+    'user-turn-end': 'awaiting-ai',
+    'ai-audio-start': 'ai-speaking',
+    'mic-off': 'idle',
+    'disconnected': 'error',
+  },
+  'user-speaking': {
+    'user-turn-end': 'awaiting-ai',
+    'ai-audio-start': 'ai-speaking',
+    'interrupt': 'interrupted',
+    'mic-off': 'idle',
+    'disconnected': 'error',
+  },
+  'awaiting-ai': {
+    'ai-audio-start': 'ai-speaking',
+    'ai-finished': 'listening',
+    'speech-start': 'user-speaking',
+    'interrupt': 'interrupted',
+    'mic-off': 'idle',
+    'disconnected': 'error',
+  },
+  'ai-speaking': {
+    'ai-finished': 'listening',
+    'interrupt': 'interrupted',
+    'mic-off': 'idle',
+    'disconnected': 'error',
+  },
+  'interrupted': {
+    'resume': 'listening',
+    'speech-start': 'user-speaking',
+    'user-turn-end': 'awaiting-ai',
+    'mic-off': 'idle',
+    'disconnected': 'error',
+  },
+  'error': {
+    'connect': 'connecting',
+    'mic-off': 'idle',
+  },
+};
+
+// Valid from every phase
+const globalTransitions: Partial<Record<ConversationEvent, ConversationPhase>> = {
+  'fail': 'error',
+  'reset': 'idle',
+};
+
+/**
+ * Single source of truth for where the conversation is.
+ *
+ * SocketService, AudioService, SpeechRecognitionService and the voice session all send
+ * events here and read the phase back, instead of each keeping its own flag. Events that
+ * are not valid in the current phase are rejected (and kept in the debug history), so a
+ * late or duplicated signal can't push the conversation into an impossible state.
+ */
+export class ConversationStateMachine {
+  private store = new ExternalStore<ConversationSnapshot>({
+    phase: 'idle',
+    previousPhase: null,
+    lastEvent: null,
+    since: Date.now(),
+    error: null,
+  });
+  private events = new EventBus<ConversationStateEvents>('conversationState');
+  private history: ConversationTransition[] = [];
+
+  subscribe = (listener: () => void): Unsubscribe => this.store.subscribe(listener);
+  getSnapshot = (): ConversationSnapshot => this.store.getSnapshot();
+
+  getPhase(): ConversationPhase {
+    return this.store.getSnapshot().phase;
+  }
+
+  is(...phases: ConversationPhase[]): boolean {
+    return phases.includes(this.getPhase());
+  }
+
+  can(event: ConversationEvent): boolean {
+    return this.resolve(this.getPhase(), event) !== null;
+  }
+
+  // Apply an event; returns false (and changes nothing) when the guard rejects it
+  send(event: ConversationEvent, source: string, detail?: string): boolean {
+    const from = this.getPhase();
+    const to = this.resolve(from, event);
+    const transition: ConversationTransition = {
+      from,
+      to: to || from,
+      event,
+      source,
+      detail,
+      accepted: to !== null,
+      timestamp: Date.now(),
+    };
+    this.record(transition);
+
+    if (to === null) {
+      this.events.emit('rejected', transition);
+      return false;
+    }
+
+    if (to !== from) {
+      console.log(`🔀 Conversation: ${from} → ${to} (${event} from ${source}${detail ? `: ${detail}` : ''})`);
+    }
+    this.store.setState({
+      phase: to,
+      previousPhase: from,
+      lastEvent: event,
+      since: to !== from ? transition.timestamp : this.store.getSnapshot().since,
+      error: to === 'error' ? detail || event : null,
+    });
+    this.events.emit('transition', transition);
+    return true;
+  }
+
+  onTransition(listener: (transition: ConversationTransition) => void): Unsubscribe {
+    return this.events.on('transition', listener);
+  }
+
+  onRejected(listener: (transition: ConversationTransition) => void): Unsubscribe {
+    return this.events.on('rejected', listener);
+  }
+
+  // Most recent transitions (accepted and rejected), oldest first
+  getHistory(): ConversationTransition[] {
+    return [...this.history];
+  }
+
+  clearHistory(): void {
+    this.history = [];
+  }
+
+  private resolve(phase: ConversationPhase, event: ConversationEvent): ConversationPhase | null {
+    return transitions[phase][event] || globalTransitions[event] || null;
+  }
+
+  private record(transition: ConversationTransition): void {
+    this.history.push(transition);
+    if (this.history.length > HISTORY_LIMIT) {
+      this.history.shift();
+    }
+  }
+}
+
+export const conversationState = new ConversationStateMachine();
@@ -0,0 +1,239 @@
+import { ExternalStore } from './externalStore';
+import { EventBus, Unsubscribe } from './eventBus';
+import { socketService } from './socketService';
+import { conversationState } from './conversationStateMachine';
+import { endpointing } from './endpointing';
+
+export type TurnSpeaker = 'user' | 'ai';
+export type TurnModality = 'voice' | 'text';
+
+export interface Turn {
+  id: string;
+  speaker: TurnSpeaker;
+  modality: TurnModality;
+  text: string;
+  heardText: string | null; // User voice turns: what the backend's own transcription heard
+  startedAt: number;
+  endedAt: number | null; // null while the turn is still in progress
+  interrupted: boolean; // AI turns the user cut off; user turns dropped before reaching the AI
+  latencyMs: number | null; // AI turns: from the end of the user's turn to the first sign of a reply
+}
+
+export interface ConversationStoreState {
+  conversationId: string; // Stable across reconnects and reloads, unlike the socket id
+  turns: Turn[];
+  updatedAt: number;
+}
+
+export type ConversationStoreEvents = {
+  'turn-started': Turn;
+  'turn-ended': Turn;
+};
+
+const MAX_TURNS = 500;
+
+function createConversationId(): string {
+  return `conv-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Replies arrive as sentences, as cumulative text or repeated on every audio chunk; keep each part once
+function mergeText(current: string, incoming: string): string {
+  const next = incoming.trim();
+  if (!next || current.endsWith(next)) return current;
+  if (!current || next.startsWith(current)) return next;
+  return `${current} ${next}`;
+}
+
+/**
+ * Structured record of the conversation: one entry per user or AI turn, voice or typed.
+ *
+ * Built from the endpointer (what the user said and when their turn ended), the socket
+ * (AI text, audio and what the backend heard) and the conversation phases (interruptions).
+ * Turns outlive the session, so the panel can be reopened after the mic is off.
+ */
+export class ConversationStore {
+  private store = new ExternalStore<ConversationStoreState>({ conversationId: createConversationId(), turns: [], updatedAt: 0 });
+  private events = new EventBus<ConversationStoreEvents>('conversationStore');
+  private unsubscribers: Unsubscribe[] = [];
+  private openUserTurnId: string | null = null;
+  private openAITurnId: string | null = null;
+  private lastUserTurnEndedAt: number | null = null;
+  private nextId = 1;
+
+  subscribe = (listener: () => void): Unsubscribe => this.store.subscribe(listener);
+  getSnapshot = (): ConversationStoreState => this.store.getSnapshot();
+
+  attach(): Unsubscribe {
+    this.detach();
+    this.unsubscribers = [
+      endpointing.on('transcript', ({ transcript }) => this.updateUserSpeech(transcript)),
+      endpointing.on('endpoint', (record) => this.endUserSpeech(record.transcript, record.timestamp)),
+      socketService.onTranscription((data) => this.addHeardText(data.text)),
+      socketService.onAIResponseText((data) => this.addAIText(data.text)),
+      socketService.onAudioResponse((data) => this.addAIText(data.transcript ?? '')),
+      socketService.onAIFinished(() => this.endAITurn(false)),
+      conversationState.onTransition((transition) => {
+        if (transition.event === 'interrupt') {
+          this.endAITurn(true);
+        } else if (transition.event === 'ai-audio-start') {
+          // The AI started before the user's turn was sent; what they said so far is left behind
+          this.endUserTurn(Date.now(), true);
+          this.addAIText('');
+        } else if (transition.event === 'mic-off' || transition.to === 'error') {
+          // Whatever the user was still saying never reached the AI
+          this.endUserTurn(Date.now(), true);
+          this.endAITurn(true);
+        }
+      }),
+    ];
+    return () => this.detach();
+  }
+
+  detach(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  on<K extends keyof ConversationStoreEvents & string>(event: K, listener: (payload: ConversationStoreEvents[K]) => void): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  getTurns(): Turn[] {
+    return this.store.getSnapshot().turns;
+  }
+
+  getConversationId(): string {
+    return this.store.getSnapshot().conversationId;
+  }
+
+  // A message typed in the composer; replaces anything the user had started saying
+  addTypedTurn(text: string): void {
+    const now = Date.now();
+    this.endUserTurn(now, true);
+    this.endAITurn(false);
+    const turn = this.append({ speaker: 'user', modality: 'text', text, startedAt: now, endedAt: now });
+    this.events.emit('turn-ended', turn);
+    this.lastUserTurnEndedAt = now;
+  }
+
+  // Continue a saved conversation; unfinished turns from it are closed as they were left
+  load(conversationId: string, turns: Turn[]): void {
+    this.resetOpenTurns();
+    this.store.setState({
+      conversationId,
+      turns: turns.map((turn) => (turn.endedAt === null ? { ...turn, endedAt: turn.startedAt, interrupted: true } : turn)),
+      updatedAt: Date.now(),
+    });
+  }
+
+  // Leave the current conversation (it stays saved) and begin an empty one
+  startNew(): void {
+    this.resetOpenTurns();
+    this.store.setState({ conversationId: createConversationId(), turns: [], updatedAt: Date.now() });
+  }
+
+  private resetOpenTurns(): void {
+    this.openUserTurnId = null;
+    this.openAITurnId = null;
+    this.lastUserTurnEndedAt = null;
+  }
+
+  private updateUserSpeech(transcript: string): void {
+    if (this.openUserTurnId) {
+      this.update(this.openUserTurnId, { text: transcript });
+      return;
+    }
+    this.openUserTurnId = this.append({ speaker: 'user', modality: 'voice', text: transcript, startedAt: Date.now() }).id;
+  }
+
+  private endUserSpeech(transcript: string, timestamp: number): void {
+    if (!this.openUserTurnId) {
+      this.openUserTurnId = this.append({ speaker: 'user', modality: 'voice', text: transcript, startedAt: timestamp }).id;
+    }
+    this.end(this.openUserTurnId, { text: transcript, endedAt: timestamp });
+    this.openUserTurnId = null;
+    this.lastUserTurnEndedAt = timestamp;
+  }
+
+  private endUserTurn(timestamp: number, interrupted: boolean): void {
+    if (!this.openUserTurnId) return;
+    this.end(this.openUserTurnId, { endedAt: timestamp, interrupted });
+    this.openUserTurnId = null;
+  }
+
+  // Attach the backend's transcription to the most recent user voice turn
+  private addHeardText(text: string): void {
+    const turn = [...this.getTurns()].reverse().find((candidate) => candidate.speaker === 'user');
+    if (!turn || turn.modality !== 'voice' || !text.trim()) return;
+    this.update(turn.id, { heardText: mergeText(turn.heardText ?? '', text) });
+  }
+
+  private addAIText(text: string): void {
+    const turns = this.getTurns();
+    const last = turns[turns.length - 1];
+
+    if (!this.openAITurnId) {
+      // Text for a reply that already finished is late, not a new turn; an interrupted reply's leftovers are dropped
+      if (last?.speaker === 'ai') {
+        if (!last.interrupted && text.trim()) {
+          this.update(last.id, { text: mergeText(last.text, text) });
+        }
+        return;
+      }
+
+      const now = Date.now();
+      this.openAITurnId = this.append({
+        speaker: 'ai',
+        modality: 'voice',
+        text: text.trim(),
+        startedAt: now,
+        latencyMs: this.lastUserTurnEndedAt !== null ? now - this.lastUserTurnEndedAt : null,
+      }).id;
+      this.lastUserTurnEndedAt = null;
+      return;
+    }
+
+    const turn = turns.find((candidate) => candidate.id === this.openAITurnId);
+    if (turn && text.trim()) {
+      this.update(turn.id, { text: mergeText(turn.text, text) });
+    }
+  }
+
+  private endAITurn(interrupted: boolean): void {
+    if (!this.openAITurnId) return;
+    this.end(this.openAITurnId, { endedAt: Date.now(), interrupted });
+    this.openAITurnId = null;
+  }
+
+  private append(fields: Pick<Turn, 'speaker' | 'modality' | 'text' | 'startedAt'> & Partial<Turn>): Turn {
+    const turn: Turn = {
+      id: `turn-${Date.now().toString(36)}-${this.nextId++}`,
+      heardText: null,
+      endedAt: null,
+      interrupted: false,
+      latencyMs: null,
+      ...fields,
+    };
+    const turns = [...this.getTurns(), turn];
+    this.store.setState({ turns: turns.slice(-MAX_TURNS), updatedAt: Date.now() });
+    this.events.emit('turn-started', turn);
+    return turn;
+  }
+
+  private end(id: string, changes: Partial<Turn>): void {
+    this.update(id, changes);
+    const turn = this.getTurns().find((candidate) => candidate.id === id);
+    if (turn) {
+      this.events.emit('turn-ended', turn);
+    }
+  }
+
+  private update(id: string, changes: Partial<Turn>): void {
+    this.store.setState({
+      turns: this.getTurns().map((turn) => (turn.id === id ? { ...turn, ...changes } : turn)),
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+export const conversationStore = new ConversationStore();
@@ -0,0 +1,125 @@
+export interface EchoGateConfig {
+  enabled: boolean;
+  referenceFloorDb: number; // Playback quieter than this counts as silence
+  marginDb: number; // How far the mic must rise above the expected echo to count as the user
+  echoDelayFrames: number; // Reference frames remembered to cover the speaker→mic delay
+  initialCouplingDb: number; // Echo level relative to the playback before anything is learned
+  couplingAdaptRate: number; // Per-frame smoothing of the learned coupling
+}
+
+export interface EchoGateStats {
+  referenceActive: boolean;
+  referenceLevelDb: number | null;
+  couplingDb: number;
+  echoFrames: number; // Mic frames explained by playback
+}
+
+const DEFAULT_CONFIG: EchoGateConfig = {
+  enabled: true,
+  referenceFloorDb: -55,
+  marginDb: 6,
+  echoDelayFrames: 8, // ~250 ms of 32 ms frames
+  initialCouplingDb: 0, // Assume the worst (echo as loud as the playback) until measured
+  couplingAdaptRate: 0.02,
+};
+
+const SILENT_DB = -100;
+const MAX_COUPLING_DB = 6;
+const MIN_COUPLING_DB = -50;
+
+export function frameLevelDb(frame: Float32Array): number {
+  if (frame.length === 0) return SILENT_DB;
+  let sumSquares = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sumSquares += frame[i] * frame[i];
+  }
+  const rms = Math.sqrt(sumSquares / frame.length);
+  return rms > 0 ? Math.max(SILENT_DB, 20 * Math.log10(rms)) : SILENT_DB;
+}
+
+/**
+ * Energy gate that tells the AI's own voice, picked up by the mic, from the user.
+ *
+ * It watches the playback signal as a reference. While the AI is audible, a mic frame is
+ * only trusted if it is louder than the echo that playback would produce; how loud that
+ * echo is (the speaker→mic coupling) is learned from frames where the mic rises above its
+ * own noise floor during playback.
+ */
+export class EchoGate {
+  private config: EchoGateConfig = { ...DEFAULT_CONFIG };
+  private referenceLevels: number[] = [];
+  private couplingDb: number = DEFAULT_CONFIG.initialCouplingDb;
+  private micNoiseFloorDb: number | null = null;
+  private echoFrames: number = 0;
+
+  configure(config: Partial<EchoGateConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): EchoGateConfig {
+    return { ...this.config };
+  }
+
+  // One frame of what the speakers are playing, at the same cadence as the mic frames
+  pushReference(frame: Float32Array): void {
+    this.referenceLevels.push(frameLevelDb(frame));
+    if (this.referenceLevels.length > this.config.echoDelayFrames) {
+      this.referenceLevels.shift();
+    }
+  }
+
+  // True when this mic frame is no louder than the echo of the current playback
+  isEcho(frame: Float32Array): boolean {
+    const micDb = frameLevelDb(frame);
+    const referenceDb = this.getReferenceLevel();
+
+    if (referenceDb === null || referenceDb < this.config.referenceFloorDb) {
+      this.trackNoiseFloor(micDb);
+      return false;
+    }
+    if (!this.config.enabled) return false;
+
+    // Learn from frames that carry something besides room noise
+    if (this.micNoiseFloorDb === null || micDb > this.micNoiseFloorDb + this.config.marginDb) {
+      const observed = Math.max(MIN_COUPLING_DB, Math.min(MAX_COUPLING_DB, micDb - referenceDb));
+      this.couplingDb += (observed - this.couplingDb) * this.config.couplingAdaptRate;
+    }
+
+    const isEcho = micDb < referenceDb + this.couplingDb + this.config.marginDb;
+    if (isEcho) {
+      this.echoFrames++;
+    }
+    return isEcho;
+  }
+
+  // Loudest reference frame within the echo delay window; null before any playback was seen
+  getReferenceLevel(): number | null {
+    return this.referenceLevels.length > 0 ? Math.max(...this.referenceLevels) : null;
+  }
+
+  getStats(): EchoGateStats {
+    const referenceLevelDb = this.getReferenceLevel();
+    return {
+      referenceActive: referenceLevelDb !== null && referenceLevelDb >= this.config.referenceFloorDb,
+      referenceLevelDb,
+      couplingDb: Math.round(this.couplingDb * 10) / 10,
+      echoFrames: this.echoFrames,
+    };
+  }
+
+  // Keeps the learned coupling: the same speakers and mic are usually in use next time
+  reset(): void {
+    this.referenceLevels = [];
+    this.micNoiseFloorDb = null;
+  }
+
+  private trackNoiseFloor(micDb: number): void {
+    if (this.micNoiseFloorDb === null) {
+      this.micNoiseFloorDb = micDb;
+    } else if (micDb < this.micNoiseFloorDb) {
+      this.micNoiseFloorDb += (micDb - this.micNoiseFloorDb) * 0.1;
+    } else {
+      this.micNoiseFloorDb += (micDb - this.micNoiseFloorDb) * 0.005;
+    }
+  }
+}
@@ -0,0 +1,296 @@
+import { EventBus, Unsubscribe } from './eventBus';
+import { socketService } from './socketService';
+import { USER_TURN_PHASES, conversationState } from './conversationStateMachine';
+import { voiceActivityDetection } from './voiceActivityDetection';
+
+// 'fixed-silence' waits a set pause; 'adaptive-silence' scales it with how fast the user talks;
+// 'punctuation-aware' waits less when the sentence looks finished and more when it trails off
+export type EndpointingStrategy = 'fixed-silence' | 'adaptive-silence' | 'punctuation-aware';
+
+export type EndpointTrigger = 'silence' | 'recognition-end' | 'manual';
+
+export interface EndpointingConfig {
+  strategy: EndpointingStrategy;
+  automatic: boolean; // Off when something else decides, e.g. releasing push-to-talk; only commit() ends the turn
+  silenceMs: number; // fixed-silence pause, and the adaptive baseline at the reference rate
+  minSilenceMs: number; // Bounds for the adaptive and punctuation-aware strategies
+  maxSilenceMs: number;
+  referenceWordsPerSecond: number; // Speaking rate at which the adaptive pause equals silenceMs
+  completeSentenceSilenceMs: number;
+  incompleteSentenceSilenceMs: number;
+  finalResultCreditMs: number; // A recognizer's final result already implies this much pause
+  minTranscriptLength: number; // Shorter turns are dropped as noise
+  maxStaleMs: number; // When recognition ends, only send a transcript heard this recently
+}
+
+export interface EndpointRecord {
+  transcript: string;
+  trigger: EndpointTrigger;
+  strategy: EndpointingStrategy;
+  requiredSilenceMs: number;
+  silenceMs: number; // Actual pause between the last activity and the endpoint
+  speechMs: number; // First to last activity
+  wordsPerSecond: number | null;
+  looksComplete: boolean;
+  finalResult: boolean; // Whether the last transcript was a recognizer final
+  timestamp: number;
+}
+
+export type EndpointingEvents = {
+  transcript: { transcript: string; isFinal: boolean }; // The whole turn so far, after each result
+  endpoint: EndpointRecord;
+};
+
+const DEFAULT_CONFIG: EndpointingConfig = {
+  strategy: 'fixed-silence',
+  automatic: true,
+  silenceMs: 1000,
+  minSilenceMs: 500,
+  maxSilenceMs: 2000,
+  referenceWordsPerSecond: 2.5,
+  completeSentenceSilenceMs: 500,
+  incompleteSentenceSilenceMs: 1800,
+  finalResultCreditMs: 800,
+  minTranscriptLength: 2,
+  maxStaleMs: 10000,
+};
+
+const HISTORY_LIMIT = 50;
+
+// Words a finished sentence rarely ends on; recognizers without punctuation still leave these
+const TRAILING_WORDS = new Set([
+  'and', 'or', 'but', 'so', 'because', 'if', 'then', 'that', 'which', 'who', 'when', 'where',
+  'the', 'a', 'an', 'to', 'of', 'for', 'with', 'in', 'on', 'at', 'from', 'by', 'about', 'like',
+  'my', 'your', 'our', 'their', 'his', 'her', 'its', 'is', 'are', 'was', 'were', 'be',
+  'can', 'could', 'would', 'should', 'will', 'do', 'does', 'did', 'um', 'uh', 'er', 'hmm',
+]);
+
+export function looksComplete(transcript: string): boolean {
+  const text = transcript.trim();
+  if (!text) return false;
+  if (/[.?!。？！]["')\]]*$/.test(text)) return true;
+  if (/[,;:\-–—]$/.test(text)) return false;
+
+  const words = text.toLowerCase().split(/\s+/);
+  return words.length >= 2 && !TRAILING_WORDS.has(words[words.length - 1].replace(/[^\p{L}']/gu, ''));
+}
+
+function countWords(transcript: string): number {
+  return transcript.trim() ? transcript.trim().split(/\s+/).length : 0;
+}
+
+/**
+ * Decides when the user's turn is over, and is the only place that sends `stop-speaking`.
+ *
+ * Recognition results, recognizer finals, the recognizer stopping and VAD frames all
+ * count as evidence; the configured strategy turns them into a required pause, and once
+ * the user has been quiet that long the turn's transcript is sent. Every endpoint is
+ * logged with its timings and kept in a short history for tuning.
+ */
+export class EndpointingService {
+  private config: EndpointingConfig = { ...DEFAULT_CONFIG };
+  private events = new EventBus<EndpointingEvents>('endpointing');
+  private unsubscribers: Unsubscribe[] = [];
+  private history: EndpointRecord[] = [];
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  // Current turn
+  private segments: string[] = []; // Finalized recognizer segments; Web Speech restarts its text after each final
+  private interim: string = '';
+  private lastResultFinal: boolean = false;
+  private firstActivity: number = 0;
+  private lastActivity: number = 0;
+  private ended: boolean = false;
+
+  attach(): Unsubscribe {
+    this.detach();
+    this.unsubscribers = [
+      conversationState.onTransition((transition) => {
+        const wasUserTurn = USER_TURN_PHASES.includes(transition.from);
+        const isUserTurn = USER_TURN_PHASES.includes(transition.to);
+        if (isUserTurn && !wasUserTurn) {
+          this.resetTurn();
+        } else if (!isUserTurn && wasUserTurn) {
+          this.ended = true;
+          this.clearTimer();
+        }
+      }),
+      voiceActivityDetection.onFrame((frame) => {
+        if (frame.probability >= voiceActivityDetection.getOptions().positiveThreshold) {
+          this.noteActivity(frame.timestamp);
+        }
+      }),
+    ];
+    this.resetTurn();
+    return () => this.detach();
+  }
+
+  detach(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.clearTimer();
+  }
+
+  configure(config: Partial<EndpointingConfig>): void {
+    this.config = { ...this.config, ...config };
+    console.log('🔧 Endpointing config updated:', this.config);
+    this.schedule();
+  }
+
+  getConfig(): EndpointingConfig {
+    return { ...this.config };
+  }
+
+  getHistory(): EndpointRecord[] {
+    return [...this.history];
+  }
+
+  on<K extends keyof EndpointingEvents & string>(event: K, listener: (payload: EndpointingEvents[K]) => void): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  // The whole turn so far: finalized segments plus the words still being recognized
+  getTranscript(): string {
+    return [...this.segments, this.interim].filter(Boolean).join(' ').trim();
+  }
+
+  // A recognition result for the current turn
+  handleTranscript(transcript: string, isFinal: boolean): void {
+    if (this.ended || !transcript.trim()) return;
+
+    if (isFinal) {
+      this.segments.push(transcript.trim());
+      this.interim = '';
+    } else {
+      this.interim = transcript.trim();
+    }
+    this.lastResultFinal = isFinal;
+    this.events.emit('transcript', { transcript: this.getTranscript(), isFinal });
+    this.noteActivity(Date.now());
+  }
+
+  // The recognizer stopped on its own; nothing more will be transcribed, so send what there is
+  handleRecognitionEnd(): void {
+    if (!this.config.automatic || this.ended || !this.getTranscript()) return;
+
+    const sinceLastActivity = Date.now() - this.lastActivity;
+    if (sinceLastActivity > this.config.maxStaleMs) {
+      console.log(`🔇 Recognition ended but the transcript is ${sinceLastActivity}ms old, not sending`);
+      return;
+    }
+    this.commit('recognition-end');
+  }
+
+  // End the turn now, e.g. when a push-to-talk button is released
+  commit(trigger: EndpointTrigger = 'manual'): boolean {
+    if (this.ended) return false;
+    this.clearTimer();
+
+    const transcript = this.getTranscript();
+    if (transcript.length < this.config.minTranscriptLength) {
+      console.log(`📏 TRANSCRIPT TOO SHORT, not ending turn: "${transcript}" (min: ${this.config.minTranscriptLength} chars)`);
+      return false;
+    }
+    if (!conversationState.is(...USER_TURN_PHASES)) {
+      return false;
+    }
+
+    const now = Date.now();
+    const record: EndpointRecord = {
+      transcript,
+      trigger,
+      strategy: this.config.strategy,
+      requiredSilenceMs: this.requiredSilence(),
+      silenceMs: now - this.lastActivity,
+      speechMs: this.lastActivity - this.firstActivity,
+      wordsPerSecond: this.wordsPerSecond(),
+      looksComplete: looksComplete(transcript),
+      finalResult: this.lastResultFinal,
+      timestamp: now,
+    };
+    this.ended = true;
+    this.history.push(record);
+    if (this.history.length > HISTORY_LIMIT) {
+      this.history.shift();
+    }
+
+    console.log('🏁 ENDPOINT:', {
+      ...record,
+      wordsPerSecond: record.wordsPerSecond !== null ? record.wordsPerSecond.toFixed(2) : 'n/a',
+    });
+    this.events.emit('endpoint', record);
+    socketService.stopSpeaking(transcript);
+    return true;
+  }
+
+  // How long the user must be quiet before the turn ends, under the current strategy
+  requiredSilence(): number {
+    const { strategy, silenceMs, minSilenceMs, maxSilenceMs } = this.config;
+    let required = silenceMs;
+
+    if (strategy === 'adaptive-silence') {
+      const rate = this.wordsPerSecond();
+      if (rate !== null) {
+        required = silenceMs * (this.config.referenceWordsPerSecond / rate);
+      }
+    } else if (strategy === 'punctuation-aware') {
+      required = looksComplete(this.getTranscript()) ? this.config.completeSentenceSilenceMs : this.config.incompleteSentenceSilenceMs;
+    }
+
+    if (strategy !== 'fixed-silence') {
+      required = Math.max(minSilenceMs, Math.min(maxSilenceMs, required));
+    }
+    if (this.lastResultFinal) {
+      required = Math.max(0, required - this.config.finalResultCreditMs);
+    }
+    return Math.round(required);
+  }
+
+  private wordsPerSecond(): number | null {
+    const words = countWords(this.getTranscript());
+    const seconds = (this.lastActivity - this.firstActivity) / 1000;
+    // Too little speech for a meaningful rate
+    if (words < 3 || seconds < 1) return null;
+    return words / seconds;
+  }
+
+  private noteActivity(timestamp: number): void {
+    if (this.ended) return;
+    if (!this.firstActivity) {
+      this.firstActivity = timestamp;
+    }
+    this.lastActivity = Math.max(this.lastActivity, timestamp);
+    this.schedule();
+  }
+
+  // (Re)arm the silence timer from the last activity; VAD frames push it back while the user talks
+  private schedule(): void {
+    this.clearTimer();
+    if (!this.config.automatic || this.ended || !this.getTranscript()) return;
+
+    const delay = Math.max(0, this.lastActivity + this.requiredSilence() - Date.now());
+    this.timeoutId = setTimeout(() => {
+      this.timeoutId = null;
+      this.commit('silence');
+    }, delay);
+  }
+
+  private resetTurn(): void {
+    this.clearTimer();
+    this.segments = [];
+    this.interim = '';
+    this.lastResultFinal = false;
+    this.firstActivity = 0;
+    this.lastActivity = 0;
+    this.ended = false;
+  }
+
+  private clearTimer(): void {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+}
+
+export const endpointing = new EndpointingService();
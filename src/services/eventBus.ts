@@ -0,0 +1,162 @@
+export type Unsubscribe = () => void;
+
+export type EventListener<T> = (payload: T) => void;
+
+export type WildcardListener<Events extends object> = <K extends keyof Events & string>(event: K, payload: Events[K]) => void;
+
+interface WildcardSubscription<Events extends object> {
+  pattern: RegExp;
+  listener: WildcardListener<Events>;
+}
+
+/**
+ * Small typed pub/sub used by the services to fan events out to any number of subscribers.
+ *
+ * - `on` / `once` return an unsubscribe handle so components only remove what they added
+ * - `onAny` subscribes to every event, or to a glob such as `ai*`
+ * - a throwing listener is logged and skipped; it never stops delivery to the others
+ */
+export class EventBus<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<unknown>>>();
+  private wildcardListeners = new Set<WildcardSubscription<Events>>();
+  // once() registers a wrapper; this lets off() find it from the listener the caller passed
+  private onceWrappers = new Map<keyof Events, Map<EventListener<unknown>, Set<EventListener<unknown>>>>();
+  private name: string;
+
+  constructor(name: string = 'EventBus') {
+    this.name = name;
+  }
+
+  on<K extends keyof Events & string>(event: K, listener: EventListener<Events[K]>): Unsubscribe {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener as EventListener<unknown>);
+    return () => this.off(event, listener);
+  }
+
+  once<K extends keyof Events & string>(event: K, listener: EventListener<Events[K]>): Unsubscribe {
+    const wrapper: EventListener<Events[K]> = (payload) => {
+      unsubscribe();
+      listener(payload);
+    };
+    const unsubscribe = () => {
+      this.removeListener(event, wrapper as EventListener<unknown>);
+      this.forgetOnceWrapper(event, listener as EventListener<unknown>, wrapper as EventListener<unknown>);
+    };
+
+    if (!this.onceWrappers.has(event)) {
+      this.onceWrappers.set(event, new Map());
+    }
+    const wrappers = this.onceWrappers.get(event)!;
+    if (!wrappers.has(listener as EventListener<unknown>)) {
+      wrappers.set(listener as EventListener<unknown>, new Set());
+    }
+    wrappers.get(listener as EventListener<unknown>)!.add(wrapper as EventListener<unknown>);
+
+    this.on(event, wrapper);
+    return unsubscribe;
+  }
+
+  // Accepts the listener given to on() or to once()
+  off<K extends keyof Events & string>(event: K, listener: EventListener<Events[K]>): void {
+    this.removeListener(event, listener as EventListener<unknown>);
+
+    const wrappers = this.onceWrappers.get(event)?.get(listener as EventListener<unknown>);
+    if (wrappers) {
+      wrappers.forEach((wrapper) => this.removeListener(event, wrapper));
+      this.onceWrappers.get(event)!.delete(listener as EventListener<unknown>);
+      if (this.onceWrappers.get(event)!.size === 0) {
+        this.onceWrappers.delete(event);
+      }
+    }
+  }
+
+  // Subscribe to all events, or to those whose name matches a `*` glob
+  onAny(listener: WildcardListener<Events>, pattern: string = '*'): Unsubscribe {
+    const subscription: WildcardSubscription<Events> = {
+      pattern: EventBus.globToRegExp(pattern),
+      listener,
+    };
+    this.wildcardListeners.add(subscription);
+    return () => {
+      this.wildcardListeners.delete(subscription);
+    };
+  }
+
+  emit<K extends keyof Events & string>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (listeners) {
+      // Copy so listeners that unsubscribe during delivery don't affect this round
+      for (const listener of Array.from(listeners)) {
+        this.invoke(event, () => listener(payload));
+      }
+    }
+
+    for (const subscription of Array.from(this.wildcardListeners)) {
+      if (subscription.pattern.test(event)) {
+        this.invoke(event, () => subscription.listener(event, payload));
+      }
+    }
+  }
+
+  listenerCount(event?: keyof Events & string): number {
+    if (event) {
+      return this.listeners.get(event)?.size || 0;
+    }
+    let total = this.wildcardListeners.size;
+    for (const listeners of this.listeners.values()) {
+      total += listeners.size;
+    }
+    return total;
+  }
+
+  // Remove every subscription for one event, or everything when no event is given
+  clear(event?: keyof Events & string): void {
+    if (event) {
+      this.listeners.delete(event);
+      this.onceWrappers.delete(event);
+      return;
+    }
+    this.listeners.clear();
+    this.onceWrappers.clear();
+    this.wildcardListeners.clear();
+  }
+
+  private removeListener(event: keyof Events, listener: EventListener<unknown>): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  private forgetOnceWrapper(event: keyof Events, listener: EventListener<unknown>, wrapper: EventListener<unknown>): void {
+    const wrappers = this.onceWrappers.get(event);
+    const registered = wrappers?.get(listener);
+    if (!wrappers || !registered) return;
+
+    registered.delete(wrapper);
+    if (registered.size === 0) {
+      wrappers.delete(listener);
+    }
+    if (wrappers.size === 0) {
+      this.onceWrappers.delete(event);
+    }
+  }
+
+  private invoke(event: string, deliver: () => void): void {
+    try {
+      deliver();
+    } catch (error) {
+      console.error(`❌ ${this.name}: listener for "${event}" threw, continuing with remaining listeners`, error);
+    }
+  }
+
+  private static globToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`);
+  }
+}
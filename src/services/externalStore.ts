@@ -0,0 +1,41 @@
+export type StoreListener = () => void;
+
+/**
+ * Minimal snapshot store compatible with React's `useSyncExternalStore`.
+ *
+ * Snapshots are immutable: every change produces a new object, and updates that
+ * don't change any field are dropped so subscribers don't re-render for nothing.
+ * `subscribe` and `getSnapshot` are bound so they can be handed to React directly.
+ */
+export class ExternalStore<T extends object> {
+  private state: T;
+  private listeners = new Set<StoreListener>();
+
+  constructor(initialState: T) {
+    this.state = initialState;
+  }
+
+  getSnapshot = (): T => this.state;
+
+  subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  setState(update: Partial<T> | ((previous: T) => Partial<T>)): void {
+    const patch = typeof update === 'function' ? update(this.state) : update;
+    const changed = (Object.keys(patch) as Array<keyof T>).some((key) => !Object.is(patch[key], this.state[key]));
+    if (!changed) return;
+
+    this.state = { ...this.state, ...patch };
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('❌ Store listener threw:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,270 @@
+import { ExternalStore } from './externalStore';
+import { EventBus, Unsubscribe } from './eventBus';
+import { audioDevices, withInputDevice } from './audioDevices';
+import { voiceSettings } from './voiceSettings';
+
+export interface MicrophoneState {
+  stream: MediaStream | null; // Replaced, not mutated, when the device changes
+  deviceId: string | null; // What the stream was opened with; null is the system default
+  deviceLabel: string | null; // Empty until the browser reveals labels
+  consumers: string[]; // Names of the current leases, for debugging
+}
+
+export type MicrophoneEvents = {
+  // The shared stream moved to another device; consumers rebuild their graphs on `stream`
+  'stream-change': { stream: MediaStream; previous: MediaStream };
+  // The new device couldn't be opened; consumers are still on the old stream, which may have ended
+  'switch-failed': { error: unknown };
+};
+
+// One consumer's hold on the mic. Everything created through it is torn down by release().
+export interface MicrophoneLease {
+  readonly consumer: string;
+  getStream(): MediaStream;
+  getContext(): AudioContext;
+  // A source on the current stream in the shared context; disconnect it when rebuilding
+  createSource(): MediaStreamAudioSourceNode;
+  createAnalyser(options?: { fftSize?: number; smoothingTimeConstant?: number; gain?: number }): AnalyserNode;
+  // Load an AudioWorklet module into the shared context once, however many consumers ask
+  addModule(url: string): Promise<void>;
+  release(): void;
+}
+
+const MIC_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  sampleRate: 48000,
+};
+
+/**
+ * Owns the one microphone stream and AudioContext the app uses.
+ *
+ * Capture, VAD, noise calibration and the visualizer each take a lease; the device opens on
+ * the first lease and is released with the last. While it is open the manager follows the
+ * chosen input device, swapping the stream when it changes or is unplugged and announcing it
+ * with `stream-change` so consumers can rebuild without the conversation noticing.
+ */
+export class MicrophoneManager {
+  private store = new ExternalStore<MicrophoneState>({ stream: null, deviceId: null, deviceLabel: null, consumers: [] });
+  private events = new EventBus<MicrophoneEvents>('microphoneManager');
+  private leases: Set<MicrophoneLease> = new Set();
+  private context: AudioContext | null = null;
+  private modules: Map<string, Promise<void>> = new Map();
+  private opening: Promise<MediaStream> | null = null;
+  private switching: Promise<void> | null = null;
+  private syncPending: boolean = false;
+  private unsubscribers: Unsubscribe[] = [];
+
+  subscribe = (listener: () => void): Unsubscribe => this.store.subscribe(listener);
+  getSnapshot = (): MicrophoneState => this.store.getSnapshot();
+
+  on<K extends keyof MicrophoneEvents & string>(event: K, listener: (payload: MicrophoneEvents[K]) => void): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  isOpen(): boolean {
+    return this.store.getSnapshot().stream !== null;
+  }
+
+  getStream(): MediaStream | null {
+    return this.store.getSnapshot().stream;
+  }
+
+  // Open the mic if nobody has yet, and hand out a lease on it
+  async acquire(consumer: string): Promise<MicrophoneLease> {
+    if (!this.opening) {
+      this.opening = this.open();
+    }
+    try {
+      await this.opening;
+    } catch (error) {
+      this.opening = null;
+      throw error;
+    }
+
+    const lease = this.createLease(consumer);
+    this.leases.add(lease);
+    this.publishConsumers();
+    console.log(`🎙️ Microphone leased to ${consumer} (${this.leases.size} consumer${this.leases.size === 1 ? '' : 's'})`);
+    return lease;
+  }
+
+  private async open(): Promise<MediaStream> {
+    const stream = await this.openStream(audioDevices.resolveInput(voiceSettings.getSnapshot().inputDeviceId));
+
+    // Device rate; Firefox refuses to connect a MediaStream to a context at another rate
+    this.context = new AudioContext();
+    this.modules.clear();
+    if (this.context.state === 'suspended') {
+      await this.context.resume().catch(() => undefined);
+    }
+
+    this.unsubscribers = [
+      audioDevices.attach(),
+      audioDevices.on('change', () => this.syncDevice()),
+      voiceSettings.subscribe(() => this.syncDevice()),
+    ];
+    console.log('🎙️ Microphone opened');
+    return stream;
+  }
+
+  // getUserMedia on the given mic, or the system default; a stale saved id falls back to the default
+  private async openStream(deviceId: string | null): Promise<MediaStream> {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: withInputDevice(MIC_CONSTRAINTS, deviceId) });
+    } catch (error) {
+      const name = (error as DOMException)?.name;
+      if (!deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) {
+        throw error;
+      }
+      console.warn(`⚠️ Microphone ${deviceId} unavailable, using the default`);
+      return this.openStream(null);
+    }
+
+    const track = stream.getAudioTracks()[0];
+    // An unplugged mic ends its track; Firefox doesn't always fire devicechange for it
+    track?.addEventListener('ended', () => {
+      if (this.store.getSnapshot().stream === stream) {
+        console.log('🎤 Microphone track ended');
+        this.syncDevice();
+      }
+    });
+    this.store.setState({ stream, deviceId, deviceLabel: track?.label || null });
+    // Labels only appear once permission is granted
+    audioDevices.refresh();
+    return stream;
+  }
+
+  private createLease(consumer: string): MicrophoneLease {
+    const nodes: AudioNode[] = [];
+    let released = false;
+
+    const lease: MicrophoneLease = {
+      consumer,
+      getStream: () => this.store.getSnapshot().stream!,
+      getContext: () => this.context!,
+      createSource: () => {
+        const source = this.context!.createMediaStreamSource(this.store.getSnapshot().stream!);
+        nodes.push(source);
+        return source;
+      },
+      createAnalyser: (options = {}) => {
+        const source = lease.createSource();
+        const analyser = this.context!.createAnalyser();
+        analyser.fftSize = options.fftSize ?? 2048;
+        analyser.smoothingTimeConstant = options.smoothingTimeConstant ?? 0.8;
+        if (options.gain !== undefined && options.gain !== 1) {
+          const gain = this.context!.createGain();
+          gain.gain.value = options.gain;
+          source.connect(gain);
+          gain.connect(analyser);
+          nodes.push(gain);
+        } else {
+          source.connect(analyser);
+        }
+        nodes.push(analyser);
+        return analyser;
+      },
+      addModule: (url: string) => {
+        if (!this.modules.has(url)) {
+          const loading = this.context!.audioWorklet.addModule(url);
+          loading.catch(() => this.modules.delete(url));
+          this.modules.set(url, loading);
+        }
+        return this.modules.get(url)!;
+      },
+      release: () => {
+        if (released) return;
+        released = true;
+        nodes.forEach((node) => node.disconnect());
+        nodes.length = 0;
+        this.leases.delete(lease);
+        this.publishConsumers();
+        console.log(`🎙️ ${consumer} released the microphone (${this.leases.size} left)`);
+        if (this.leases.size === 0) {
+          this.close();
+        }
+      },
+    };
+    return lease;
+  }
+
+  private close(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.opening = null;
+    this.syncPending = false;
+
+    this.store.getSnapshot().stream?.getTracks().forEach(track => track.stop());
+    if (this.context && this.context.state !== 'closed') {
+      this.context.close().catch((error) => console.warn('Error closing microphone audio context:', error));
+    }
+    this.context = null;
+    this.modules.clear();
+    this.store.setState({ stream: null, deviceId: null, deviceLabel: null, consumers: [] });
+    console.log('🎙️ Microphone closed');
+  }
+
+  private publishConsumers(): void {
+    this.store.setState({ consumers: Array.from(this.leases, (lease) => lease.consumer) });
+  }
+
+  // Whether the stream is still on the mic it should be: the preferred one if it's plugged
+  // in, otherwise whatever the system default currently is
+  private needsSwitch(): boolean {
+    const { stream, deviceId } = this.store.getSnapshot();
+    const track = stream?.getAudioTracks()[0];
+    if (!track || track.readyState === 'ended') return true;
+
+    const target = audioDevices.resolveInput(voiceSettings.getSnapshot().inputDeviceId);
+    if (target !== deviceId) return true;
+    if (target) return false;
+
+    const { defaultGroupId } = audioDevices.getSnapshot();
+    const groupId = track.getSettings().groupId;
+    return !!defaultGroupId && !!groupId && groupId !== defaultGroupId;
+  }
+
+  private syncDevice(): void {
+    if (!this.isOpen() || this.leases.size === 0) return;
+    if (this.switching) {
+      // Checked again once the switch in progress has finished
+      this.syncPending = true;
+      return;
+    }
+    if (!this.needsSwitch()) return;
+
+    this.switching = this.switchDevice().finally(() => {
+      this.switching = null;
+      if (this.syncPending) {
+        this.syncPending = false;
+        this.syncDevice();
+      }
+    });
+  }
+
+  private async switchDevice(): Promise<void> {
+    const previous = this.store.getSnapshot().stream;
+    try {
+      const stream = await this.openStream(audioDevices.resolveInput(voiceSettings.getSnapshot().inputDeviceId));
+      if (this.leases.size === 0) {
+        // Everyone let go while the new mic was opening
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      console.log(`🎧 Microphone switched to ${this.store.getSnapshot().deviceLabel || 'system default'}`);
+      this.events.emit('stream-change', { stream, previous });
+    } catch (error) {
+      console.error('❌ Could not switch microphone:', error);
+      this.events.emit('switch-failed', { error });
+    } finally {
+      if (previous !== this.store.getSnapshot().stream) {
+        previous?.getTracks().forEach(track => track.stop());
+      }
+    }
+  }
+}
+
+export const microphoneManager = new MicrophoneManager();
@@ -0,0 +1,90 @@
+import { EventBus, Unsubscribe } from './eventBus';
+import { TranscriptionProvider, TranscriptionProviderEvents } from './transcriptionProvider';
+
+export interface MockTranscriptionStep {
+  text: string;
+  isFinal?: boolean; // Defaults to true
+  confidence?: number;
+  delayMs?: number; // Wait after the previous step (or after start); defaults to 500ms
+}
+
+// Scripted transcripts for tests and demos; nothing touches the microphone
+export class MockTranscriptionProvider implements TranscriptionProvider {
+  readonly id = 'mock' as const;
+  readonly label = 'Mock (scripted)';
+  private events = new EventBus<TranscriptionProviderEvents>('mockTranscriptionProvider');
+  private script: MockTranscriptionStep[];
+  private timeouts: ReturnType<typeof setTimeout>[] = [];
+  private running: boolean = false;
+  private language: string = 'en-US';
+
+  constructor(script: MockTranscriptionStep[] = []) {
+    this.script = script;
+  }
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  // Replace the script; takes effect on the next start()
+  setScript(script: MockTranscriptionStep[]): void {
+    this.script = script;
+  }
+
+  // Play the script from the top
+  start(): void {
+    this.clearTimers();
+    this.running = true;
+
+    let elapsed = 0;
+    for (const step of this.script) {
+      elapsed += step.delayMs ?? 500;
+      this.timeouts.push(setTimeout(() => this.say(step.text, step), elapsed));
+    }
+  }
+
+  stop(): void {
+    if (!this.running) return;
+
+    this.clearTimers();
+    this.running = false;
+    setTimeout(() => this.events.emit('end', undefined), 0);
+  }
+
+  // Emit a result right away, outside the script
+  say(text: string, options: { isFinal?: boolean; confidence?: number } = {}): void {
+    if (!this.running) return;
+    this.events.emit('result', {
+      transcript: text,
+      isFinal: options.isFinal ?? true,
+      confidence: options.confidence ?? null,
+    });
+  }
+
+  // Simulate an engine error, e.g. 'not-allowed' or 'network'
+  fail(code: string, message?: string): void {
+    this.events.emit('error', { code, message });
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // Recorded so tests can assert what the service asked for; the script is not translated
+  setLanguage(language: string): void {
+    this.language = language;
+  }
+
+  getLanguage(): string {
+    return this.language;
+  }
+
+  on<K extends keyof TranscriptionProviderEvents & string>(event: K, listener: (payload: TranscriptionProviderEvents[K]) => void): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  private clearTimers(): void {
+    this.timeouts.forEach(clearTimeout);
+    this.timeouts = [];
+  }
+}
@@ -0,0 +1,298 @@
+import { ExternalStore } from './externalStore';
+import type { Unsubscribe } from './eventBus';
+import { resampleLinear } from './audioFormat';
+import { SpectralVadEngine } from './spectralVadEngine';
+import { voiceActivityDetection } from './voiceActivityDetection';
+import { microphoneManager, MicrophoneLease } from './microphoneManager';
+
+export interface NoiseCalibrationResult {
+  deviceId: string;
+  deviceLabel: string;
+  noiseFloorDb: number; // Median ambient level in dBFS
+  ambientProbability: number; // 90th percentile VAD score of the room with nobody talking
+  positiveThreshold: number;
+  negativeThreshold: number;
+  minSilenceDuration: number; // ms
+  calibratedAt: number;
+}
+
+export type CalibrationStatus = 'idle' | 'calibrating' | 'calibrated' | 'failed';
+
+export interface NoiseCalibrationState {
+  status: CalibrationStatus;
+  deviceId: string | null;
+  progress: number; // 0..1 while calibrating
+  result: NoiseCalibrationResult | null;
+  error: string | null;
+}
+
+const STORAGE_KEY_PREFIX = 'sova.noise-calibration.';
+const DEFAULT_DURATION = 3000; // ms of ambient audio to sample
+const FRAME_MS = 32;
+const MIN_FRAMES = 20; // Fewer than this (a tab in the background, a dead track) isn't worth keeping
+const SPEECH_MARGIN_DB = 12; // A frame this far above the median level is someone talking, not the room
+const MAX_SPEECH_RATIO = 0.15; // Share of such frames beyond which the measurement is thrown away
+const MAX_AMBIENT_PROBABILITY = 0.7; // A "room" the VAD already scores this high is speech throughout
+
+const initialState: NoiseCalibrationState = {
+  status: 'idle',
+  deviceId: null,
+  progress: 0,
+  result: null,
+  error: null,
+};
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))));
+  return sorted[index];
+}
+
+/**
+ * Measures the room before the VAD has to judge it.
+ *
+ * The first time a microphone is used, a few seconds of ambient audio are scored by the
+ * spectral VAD; the noise floor seeds its adaptive floor and the score of plain background
+ * sets how sure a frame must be before it counts as speech. Results are stored per input
+ * deviceId, so a headset and a laptop mic each keep their own.
+ */
+export class NoiseCalibrationService {
+  private store = new ExternalStore<NoiseCalibrationState>(initialState);
+  private running: Promise<NoiseCalibrationResult | null> | null = null;
+  private cancelled: boolean = false;
+
+  subscribe = (listener: () => void): Unsubscribe => this.store.subscribe(listener);
+  getSnapshot = (): NoiseCalibrationState => this.store.getSnapshot();
+
+  // Apply the stored calibration for the open mic's device, measuring it first if there is none
+  async ensureCalibrated(): Promise<NoiseCalibrationResult | null> {
+    if (!microphoneManager.getStream()) return this.calibrate();
+    return this.applyStored() ?? this.calibrate();
+  }
+
+  // Apply the stored calibration for the open mic's device without measuring; the current
+  // thresholds stay in place when that device has never been measured
+  applyStored(): NoiseCalibrationResult | null {
+    const stream = microphoneManager.getStream();
+    if (!stream || this.running) return null;
+
+    const { deviceId } = NoiseCalibrationService.describeDevice(stream);
+    const stored = this.load(deviceId);
+    if (!stored) {
+      this.store.setState({ status: 'idle', deviceId, progress: 0, result: null, error: null });
+      return null;
+    }
+    this.apply(stored);
+    this.store.setState({ status: 'calibrated', deviceId, progress: 1, result: stored, error: null });
+    return stored;
+  }
+
+  // Measure now, on the shared mic; opens the chosen mic for the duration if nothing else has
+  calibrate(duration: number = DEFAULT_DURATION): Promise<NoiseCalibrationResult | null> {
+    if (!this.running) {
+      this.running = this.run(duration).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  // Abandon a measurement in progress, e.g. because the mic was turned off
+  cancel(): void {
+    if (this.running) {
+      this.cancelled = true;
+    }
+  }
+
+  isCalibrating(): boolean {
+    return this.running !== null;
+  }
+
+  getResult(): NoiseCalibrationResult | null {
+    return this.store.getSnapshot().result;
+  }
+
+  // Forget a device's calibration (all devices when no id is given)
+  clear(deviceId?: string): void {
+    try {
+      if (deviceId) {
+        localStorage.removeItem(STORAGE_KEY_PREFIX + deviceId);
+      } else {
+        Object.keys(localStorage)
+          .filter((key) => key.startsWith(STORAGE_KEY_PREFIX))
+          .forEach((key) => localStorage.removeItem(key));
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not clear noise calibration:', error);
+    }
+
+    const { deviceId: current } = this.store.getSnapshot();
+    if (!deviceId || deviceId === current) {
+      this.store.setState(initialState);
+    }
+  }
+
+  private async run(duration: number): Promise<NoiseCalibrationResult | null> {
+    this.cancelled = false;
+    let microphone: MicrophoneLease | null = null;
+
+    try {
+      microphone = await microphoneManager.acquire('noise-calibration');
+      const { deviceId, deviceLabel } = NoiseCalibrationService.describeDevice(microphone.getStream());
+      this.store.setState({ status: 'calibrating', deviceId, progress: 0, error: null });
+      console.log(`📏 Calibrating noise floor for ${deviceLabel || deviceId} (${duration}ms)...`);
+
+      const frames = await this.sampleFrames(microphone, duration);
+      if (this.cancelled) {
+        console.log('📏 Noise calibration cancelled');
+        this.store.setState({ status: this.store.getSnapshot().result ? 'calibrated' : 'idle', progress: 0 });
+        return null;
+      }
+      if (frames.length < MIN_FRAMES) {
+        throw new Error(`Only ${frames.length} frames of audio captured`);
+      }
+
+      const result = NoiseCalibrationService.derive(frames, deviceId, deviceLabel);
+      // Thresholds measured over someone talking would leave the VAD deaf on this device for good
+      if (NoiseCalibrationService.containsSpeech(frames, result)) {
+        throw new Error('Speech was picked up while measuring; stay quiet and try again');
+      }
+      this.save(result);
+      this.apply(result);
+      this.store.setState({ status: 'calibrated', progress: 1, result });
+      console.log('✅ Noise calibration complete:', result);
+      return result;
+    } catch (error) {
+      console.error('❌ Noise calibration failed:', error);
+      this.store.setState({ status: 'failed', progress: 0, error: error instanceof Error ? error.message : String(error) });
+      return null;
+    } finally {
+      microphone?.release();
+    }
+  }
+
+  // 16 kHz frames of the engine's size, polled from an analyser once per frame period
+  private async sampleFrames(microphone: MicrophoneLease, duration: number): Promise<Float32Array[]> {
+    const engine = new SpectralVadEngine();
+    const context = microphone.getContext();
+    const inputSamples = Math.ceil((engine.frameSize * context.sampleRate) / engine.sampleRate);
+    const analyser = microphone.createAnalyser({
+      fftSize: Math.min(32768, 2 ** Math.ceil(Math.log2(inputSamples))),
+      smoothingTimeConstant: 0,
+    });
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+
+    // A mic switch ends this track; the measurement stops early rather than sampling silence
+    const track = microphone.getStream().getAudioTracks()[0];
+    const buffer = new Float32Array(analyser.fftSize);
+    const frames: Float32Array[] = [];
+    const total = Math.ceil(duration / FRAME_MS);
+
+    await new Promise<void>((resolve) => {
+      const intervalId = setInterval(() => {
+        if (this.cancelled || !track || track.readyState === 'ended' || frames.length >= total) {
+          clearInterval(intervalId);
+          resolve();
+          return;
+        }
+
+        analyser.getFloatTimeDomainData(buffer);
+        const recent = buffer.subarray(buffer.length - Math.min(inputSamples, buffer.length));
+        frames.push(resampleLinear(recent, context.sampleRate, engine.sampleRate).slice(0, engine.frameSize));
+        if (frames.length % 10 === 0) {
+          this.store.setState({ progress: frames.length / total });
+        }
+      }, FRAME_MS);
+    });
+    return frames;
+  }
+
+  // Thresholds sit a margin above what the empty room already scores; noisier rooms wait longer for silence
+  private static derive(frames: Float32Array[], deviceId: string, deviceLabel: string): NoiseCalibrationResult {
+    const levels = frames.map(NoiseCalibrationService.levelDb);
+    const noiseFloorDb = percentile(levels, 50);
+
+    const engine = new SpectralVadEngine();
+    engine.setNoiseFloor(noiseFloorDb);
+    const ambientProbability = percentile(frames.map((frame) => engine.process(frame)), 90);
+
+    const positiveThreshold = Math.min(0.9, Math.max(0.5, ambientProbability + 0.2));
+    const negativeThreshold = Math.max(0.2, positiveThreshold - 0.15);
+    const minSilenceDuration = noiseFloorDb > -40 ? 1400 : noiseFloorDb > -55 ? 1000 : 800;
+
+    return {
+      deviceId,
+      deviceLabel,
+      noiseFloorDb: Math.round(noiseFloorDb * 10) / 10,
+      ambientProbability: Math.round(ambientProbability * 100) / 100,
+      positiveThreshold: Math.round(positiveThreshold * 100) / 100,
+      negativeThreshold: Math.round(negativeThreshold * 100) / 100,
+      minSilenceDuration,
+      calibratedAt: Date.now(),
+    };
+  }
+
+  // Talking shows up as frames well above the median, or, if it never stopped, as a room the VAD calls speech
+  private static containsSpeech(frames: Float32Array[], result: NoiseCalibrationResult): boolean {
+    if (result.ambientProbability >= MAX_AMBIENT_PROBABILITY) return true;
+    const loud = frames.filter((frame) => NoiseCalibrationService.levelDb(frame) > result.noiseFloorDb + SPEECH_MARGIN_DB);
+    return loud.length / frames.length > MAX_SPEECH_RATIO;
+  }
+
+  // RMS level of a frame in dBFS
+  private static levelDb(frame: Float32Array): number {
+    let sumSquares = 0;
+    for (let i = 0; i < frame.length; i++) {
+      sumSquares += frame[i] * frame[i];
+    }
+    const rms = Math.sqrt(sumSquares / frame.length);
+    return rms > 0 ? 20 * Math.log10(rms) : -100;
+  }
+
+  private apply(result: NoiseCalibrationResult): void {
+    voiceActivityDetection.configure({
+      positiveThreshold: result.positiveThreshold,
+      negativeThreshold: result.negativeThreshold,
+      minSilenceDuration: result.minSilenceDuration,
+    });
+    voiceActivityDetection.getEngine<SpectralVadEngine>('spectral')?.setNoiseFloor(result.noiseFloorDb);
+  }
+
+  private load(deviceId: string): NoiseCalibrationResult | null {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY_PREFIX + deviceId) : null;
+      if (!raw) return null;
+
+      const saved = JSON.parse(raw) as Partial<NoiseCalibrationResult>;
+      const numeric: Array<keyof NoiseCalibrationResult> = ['noiseFloorDb', 'positiveThreshold', 'negativeThreshold', 'minSilenceDuration'];
+      if (numeric.some((key) => typeof saved[key] !== 'number')) {
+        return null;
+      }
+      return { ...saved, deviceId } as NoiseCalibrationResult;
+    } catch (error) {
+      console.warn('⚠️ Could not read saved noise calibration:', error);
+      return null;
+    }
+  }
+
+  private save(result: NoiseCalibrationResult): void {
+    try {
+      localStorage.setItem(STORAGE_KEY_PREFIX + result.deviceId, JSON.stringify(result));
+    } catch (error) {
+      // Private browsing or a full quota; the calibration still applies for this page
+      console.warn('⚠️ Could not save noise calibration:', error);
+    }
+  }
+
+  private static describeDevice(stream: MediaStream): { deviceId: string; deviceLabel: string } {
+    const track = stream.getAudioTracks()[0];
+    return {
+      deviceId: track?.getSettings().deviceId || 'default',
+      deviceLabel: track?.label || '',
+    };
+  }
+}
+
+export const noiseCalibration = new NoiseCalibrationService();
@@ -0,0 +1,124 @@
+import { VadEngine } from './vadEngine';
+
+export interface OnnxVadOptions {
+  modelUrl: string; // Silero VAD v5 (.onnx)
+  runtimeUrl: string; // onnxruntime-web ES module build
+  wasmPath: string; // Directory holding the runtime's .wasm files
+}
+
+// The slice of the onnxruntime-web API this adapter uses; the runtime itself is loaded at run time
+interface OrtTensor {
+  readonly data: Float32Array | BigInt64Array;
+}
+
+interface OrtInferenceSession {
+  run(feeds: Record<string, OrtTensor>): Promise<Record<string, OrtTensor>>;
+  release?(): Promise<void>;
+}
+
+interface OrtModule {
+  env: { wasm: { wasmPaths?: string; numThreads?: number } };
+  Tensor: new (type: 'float32' | 'int64', data: Float32Array | BigInt64Array, dims: number[]) => OrtTensor;
+  InferenceSession: {
+    create(model: ArrayBuffer | Uint8Array, options?: { executionProviders?: string[] }): Promise<OrtInferenceSession>;
+  };
+}
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 512; // Silero v5 expects exactly 512 samples at 16 kHz
+const STATE_SIZE = 2 * 1 * 128;
+
+// Served from public/vad/ so nothing is fetched from a CDN; override with VITE_VAD_* for other layouts
+const DEFAULT_OPTIONS: OnnxVadOptions = {
+  modelUrl: import.meta.env.VITE_VAD_MODEL_URL || '/vad/silero_vad.onnx',
+  runtimeUrl: import.meta.env.VITE_VAD_RUNTIME_URL || '/vad/ort.wasm.min.mjs',
+  wasmPath: import.meta.env.VITE_VAD_WASM_PATH || '/vad/',
+};
+
+/**
+ * Optional neural detector running the Silero VAD model through onnxruntime-web.
+ *
+ * Neither the runtime nor the model is bundled: both are loaded on first use from local
+ * static assets, so deployments that don't ship them simply keep the spectral engine.
+ */
+export class OnnxVadEngine implements VadEngine {
+  readonly id = 'onnx' as const;
+  readonly label = 'Silero (ONNX)';
+  readonly sampleRate = SAMPLE_RATE;
+  readonly frameSize = FRAME_SIZE;
+
+  private options: OnnxVadOptions;
+  private ort: OrtModule | null = null;
+  private session: OrtInferenceSession | null = null;
+  private loading: Promise<void> | null = null;
+  private state = new Float32Array(STATE_SIZE);
+  private sampleRateTensor: OrtTensor | null = null;
+
+  constructor(options: Partial<OnnxVadOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // WebAssembly is the only hard requirement; whether the assets exist is only known after load()
+  isSupported(): boolean {
+    return typeof WebAssembly !== 'undefined';
+  }
+
+  load(): Promise<void> {
+    if (this.session) return Promise.resolve();
+    if (!this.loading) {
+      this.loading = this.loadSession().catch((error) => {
+        this.loading = null; // Let a later start() try again, e.g. after the assets are deployed
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  reset(): void {
+    this.state = new Float32Array(STATE_SIZE);
+  }
+
+  async process(frame: Float32Array): Promise<number> {
+    if (!this.ort || !this.session) {
+      throw new Error('ONNX VAD model is not loaded');
+    }
+
+    // The model only accepts full frames; pad a short final one with silence
+    const input = frame.length === FRAME_SIZE ? frame : this.padFrame(frame);
+    const { Tensor } = this.ort;
+    const outputs = await this.session.run({
+      input: new Tensor('float32', input, [1, FRAME_SIZE]),
+      state: new Tensor('float32', this.state, [2, 1, 128]),
+      sr: this.sampleRateTensor!,
+    });
+
+    this.state = new Float32Array(outputs.stateN.data as Float32Array);
+    return (outputs.output.data as Float32Array)[0];
+  }
+
+  private async loadSession(): Promise<void> {
+    console.log(`🧠 Loading ONNX VAD model from ${this.options.modelUrl}`);
+
+    const ort = await import(/* @vite-ignore */ this.options.runtimeUrl) as OrtModule;
+    ort.env.wasm.wasmPaths = this.options.wasmPath;
+    ort.env.wasm.numThreads = 1; // Threads need cross-origin isolation, which this app doesn't set up
+
+    const response = await fetch(this.options.modelUrl);
+    if (!response.ok) {
+      throw new Error(`VAD model request failed: ${response.status} ${response.statusText}`);
+    }
+    const model = await response.arrayBuffer();
+
+    this.session = await ort.InferenceSession.create(model, { executionProviders: ['wasm'] });
+    this.sampleRateTensor = new ort.Tensor('int64', BigInt64Array.from([BigInt(SAMPLE_RATE)]), []);
+    this.ort = ort;
+    this.reset();
+    console.log('✅ ONNX VAD model ready');
+  }
+
+  private padFrame(frame: Float32Array): Float32Array {
+    const padded = new Float32Array(FRAME_SIZE);
+    padded.set(frame.subarray(0, FRAME_SIZE));
+    return padded;
+  }
+}
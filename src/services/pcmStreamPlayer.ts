@@ -0,0 +1,193 @@
+import pcmPlayerProcessorUrl from '../worklets/pcm-player-processor.js?url';
+import { resampleLinear } from './audioFormat';
+
+export interface PcmStreamPlayerOptions {
+  targetLatencyMs: number; // Audio buffered before playback starts (and restarts after an underrun)
+  maxBufferMs: number; // Ring buffer capacity; oldest audio is dropped beyond this
+  statsIntervalMs: number;
+}
+
+export interface PcmStreamStats {
+  bufferedMs: number;
+  targetLatencyMs: number;
+  underruns: number;
+  overflowMs: number;
+  playedMs: number;
+  chunksPushed: number;
+  isPlaying: boolean;
+}
+
+type PlayerEvent = 'started' | 'underrun' | 'drained';
+
+const DEFAULT_OPTIONS: PcmStreamPlayerOptions = {
+  targetLatencyMs: 150,
+  maxBufferMs: 30000,
+  statsIntervalMs: 250,
+};
+
+/**
+ * Gapless playback of streamed mono PCM through the `pcm-player` AudioWorklet.
+ *
+ * Chunks are appended to a jitter buffer on the audio thread instead of being scheduled
+ * as separate AudioBufferSourceNodes, so consecutive chunks play back-to-back with no
+ * per-chunk start latency. Underruns and buffer levels are reported back as stats.
+ */
+export class PcmStreamPlayer {
+  private audioContext: AudioContext;
+  private destination: AudioNode;
+  private options: PcmStreamPlayerOptions;
+  private node: AudioWorkletNode | null = null;
+  private initPromise: Promise<void> | null = null;
+  private active: boolean = false; // Audio has been pushed and has not drained yet
+  private chunksPushed: number = 0;
+  private lastStats: PcmStreamStats;
+  private eventListeners = new Set<(event: PlayerEvent) => void>();
+
+  constructor(audioContext: AudioContext, destination: AudioNode, options: Partial<PcmStreamPlayerOptions> = {}) {
+    this.audioContext = audioContext;
+    this.destination = destination;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.lastStats = {
+      bufferedMs: 0,
+      targetLatencyMs: this.options.targetLatencyMs,
+      underruns: 0,
+      overflowMs: 0,
+      playedMs: 0,
+      chunksPushed: 0,
+      isPlaying: false,
+    };
+  }
+
+  static isSupported(audioContext: AudioContext | null): boolean {
+    return !!audioContext && typeof AudioWorkletNode !== 'undefined' && !!audioContext.audioWorklet;
+  }
+
+  // Load the worklet module and create the node; safe to call repeatedly
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.createNode().catch((error) => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  // Append mono samples; resampled to the context rate when they were produced at another rate
+  push(samples: Float32Array, sampleRate: number = this.audioContext.sampleRate): void {
+    if (!this.node || samples.length === 0) return;
+
+    // Always post a private copy: the buffer is transferred to the audio thread
+    const frames = sampleRate === this.audioContext.sampleRate
+      ? samples.slice()
+      : resampleLinear(samples, sampleRate, this.audioContext.sampleRate);
+
+    this.node.port.postMessage({ type: 'push', samples: frames }, [frames.buffer]);
+    this.chunksPushed++;
+    this.active = true;
+  }
+
+  // No more audio for this response: play out the tail even if it is below the target latency
+  end(): void {
+    this.node?.port.postMessage({ type: 'end' });
+  }
+
+  // Drop everything buffered (interruptions, new responses)
+  clear(): void {
+    this.node?.port.postMessage({ type: 'clear' });
+    this.active = false;
+    this.lastStats = { ...this.lastStats, bufferedMs: 0, isPlaying: false };
+  }
+
+  setTargetLatency(targetLatencyMs: number): void {
+    this.options.targetLatencyMs = targetLatencyMs;
+    this.node?.port.postMessage({ type: 'config', targetFrames: this.msToFrames(targetLatencyMs) });
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  getStats(): PcmStreamStats {
+    return { ...this.lastStats, chunksPushed: this.chunksPushed };
+  }
+
+  onEvent(listener: (event: PlayerEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  dispose(): void {
+    if (this.node) {
+      this.node.port.onmessage = null;
+      this.node.disconnect();
+      this.node = null;
+    }
+    this.initPromise = null;
+    this.active = false;
+    this.eventListeners.clear();
+  }
+
+  private async createNode(): Promise<void> {
+    await this.audioContext.audioWorklet.addModule(pcmPlayerProcessorUrl);
+
+    this.node = new AudioWorkletNode(this.audioContext, 'pcm-player', {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions: {
+        targetFrames: this.msToFrames(this.options.targetLatencyMs),
+        capacityFrames: this.msToFrames(this.options.maxBufferMs),
+        statsIntervalMs: this.options.statsIntervalMs,
+      },
+    });
+    this.node.port.onmessage = (event) => this.handleMessage(event.data);
+    this.node.connect(this.destination);
+    console.log(`🎚️ PCM stream player ready: target latency ${this.options.targetLatencyMs}ms, buffer ${this.options.maxBufferMs}ms`);
+  }
+
+  private handleMessage(message: { type: string; [key: string]: unknown }): void {
+    switch (message.type) {
+      case 'stats':
+        this.lastStats = {
+          bufferedMs: this.framesToMs(message.bufferedFrames as number),
+          targetLatencyMs: this.framesToMs(message.targetFrames as number),
+          underruns: message.underruns as number,
+          overflowMs: this.framesToMs(message.overflowFrames as number),
+          playedMs: this.framesToMs(message.framesPlayed as number),
+          chunksPushed: this.chunksPushed,
+          isPlaying: message.primed as boolean,
+        };
+        return;
+      case 'started':
+        this.lastStats = { ...this.lastStats, isPlaying: true };
+        break;
+      case 'underrun':
+        // Nothing audible until more audio arrives; count it as idle so waits don't hang on a stalled stream
+        console.warn(`⚠️ PCM stream underrun #${this.lastStats.underruns + 1}`);
+        this.active = false;
+        this.lastStats = { ...this.lastStats, isPlaying: false, bufferedMs: 0, underruns: this.lastStats.underruns + 1 };
+        break;
+      case 'drained':
+        this.active = false;
+        this.lastStats = { ...this.lastStats, isPlaying: false, bufferedMs: 0 };
+        break;
+      default:
+        return;
+    }
+
+    for (const listener of Array.from(this.eventListeners)) {
+      listener(message.type as PlayerEvent);
+    }
+  }
+
+  private msToFrames(ms: number): number {
+    return Math.max(1, Math.round((ms / 1000) * this.audioContext.sampleRate));
+  }
+
+  private framesToMs(frames: number): number {
+    return Math.round((frames / this.audioContext.sampleRate) * 1000);
+  }
+}
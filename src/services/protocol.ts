@@ -0,0 +1,447 @@
+import { z } from 'zod';
+
+/**
+ * Typed, versioned event protocol shared by the frontend and the Sova backend.
+ *
+ * Every Socket.IO event that crosses the wire is described by a zod schema here.
+ * Incoming payloads are validated and normalised into the shapes the rest of the
+ * app consumes, so a renamed backend field fails loudly in one place instead of
+ * silently breaking playback somewhere downstream.
+ */
+
+// Version 1 is the legacy backend that predates the handshake
+export const LEGACY_PROTOCOL_VERSION = 1;
+export const PROTOCOL_VERSION = 2;
+export const SUPPORTED_PROTOCOL_VERSIONS: number[] = [LEGACY_PROTOCOL_VERSION, PROTOCOL_VERSION];
+export const PROTOCOL_HANDSHAKE_EVENT = 'protocol-handshake';
+export const PROTOCOL_HANDSHAKE_TIMEOUT = 3000; // ms; an acknowledgement later than this is ignored
+export const PROTOCOL_HANDSHAKE_GRACE = 300; // ms a fresh connect waits before carrying on as legacy; a later ack still upgrades. Reconnects wait out the timeout
+export const SESSION_RESUME_EVENT = 'resume-session';
+export const SESSION_RESUME_TIMEOUT = 3000; // ms
+export const LATENCY_PING_EVENT = 'latency-ping';
+export const LATENCY_PING_TIMEOUT = 3000; // ms; a pong later than this counts as lost
+
+// How audio bytes travel over Socket.IO: binary attachments, or base64 strings for older backends
+export type AudioTransport = 'binary' | 'base64';
+export const SUPPORTED_AUDIO_TRANSPORTS: AudioTransport[] = ['binary', 'base64'];
+
+// Audio as it arrives on the wire: base64 text, or raw bytes when the binary transport is in use
+export type AudioPayload = string | Uint8Array;
+
+// Backend timestamps arrive as epoch millis or ISO strings (or not at all)
+const timestampSchema = z
+  .union([z.number(), z.string()])
+  .optional()
+  .transform((value) => {
+    if (typeof value === 'number') return value;
+    const parsed = value ? Date.parse(value) : NaN;
+    return Number.isNaN(parsed) ? Date.now() : parsed;
+  });
+
+// Socket.IO delivers binary attachments as ArrayBuffer in the browser (Buffer-like views elsewhere)
+const binaryAudioSchema = z
+  .custom<ArrayBuffer | ArrayBufferView>(
+    (value) => value instanceof ArrayBuffer || ArrayBuffer.isView(value),
+    { message: 'Expected base64 string or binary audio' }
+  )
+  .transform((value) => (value instanceof ArrayBuffer
+    ? new Uint8Array(value)
+    : new Uint8Array(value.buffer, value.byteOffset, value.byteLength)))
+  .refine((bytes) => bytes.byteLength > 0, { message: 'Binary audio is empty' });
+
+const audioPayloadSchema = z.union([z.string().min(1), binaryAudioSchema]);
+
+// ---------------------------------------------------------------------------
+// Server → client events
+// ---------------------------------------------------------------------------
+
+const sessionStatusSchema = z
+  .object({
+    status: z.enum(['waiting', 'active', 'ended']),
+    sessionId: z.string().optional(),
+    message: z.string().optional(),
+  })
+  .passthrough();
+
+// What the audio payload contains, when the backend says so; WAV headers override it
+export interface AudioChunkFormat {
+  encoding?: string; // e.g. 'pcm', 'wav', 'opus'
+  sampleRate?: number;
+  channels?: number;
+}
+
+// Optional format metadata; Gemini Live describes raw chunks as `audio/pcm;rate=24000`
+const audioFormatFields = {
+  encoding: z.string().optional(),
+  sampleRate: z.number().int().positive().optional(),
+  channels: z.number().int().positive().optional(),
+  mimeType: z.string().optional(),
+};
+
+function toAudioChunkFormat(data: { encoding?: string; sampleRate?: number; channels?: number; mimeType?: string }): AudioChunkFormat | undefined {
+  const mime = data.mimeType?.toLowerCase();
+  const mimeParam = (name: string) => {
+    const match = mime?.match(new RegExp(`;\\s*${name}=(\\d+)`));
+    return match ? Number(match[1]) : undefined;
+  };
+
+  const format: AudioChunkFormat = {
+    encoding: data.encoding?.toLowerCase() || mime?.split(';')[0].replace(/^audio\//, '').trim() || undefined,
+    sampleRate: data.sampleRate ?? mimeParam('rate'),
+    channels: data.channels ?? mimeParam('channels'),
+  };
+  return format.encoding || format.sampleRate || format.channels ? format : undefined;
+}
+
+// Backend wire format for streamed audio: `audioData` / `chunkIndex` / `totalChunks`
+const audioChunkSchema = z
+  .object({
+    audioData: audioPayloadSchema,
+    chunkIndex: z.number().int().nonnegative().default(0),
+    totalChunks: z.number().int().positive().default(1),
+    transcript: z.string().optional(),
+    sessionId: z.string().optional(),
+    ...audioFormatFields,
+  })
+  .passthrough()
+  .transform((data) => ({
+    audio: data.audioData,
+    index: data.chunkIndex,
+    total: data.totalChunks,
+    transcript: data.transcript,
+    sessionId: data.sessionId,
+    format: toAudioChunkFormat(data),
+  }));
+
+// Documented (legacy) audio event, already in the frontend shape
+const audioResponseSchema = z
+  .object({
+    audio: audioPayloadSchema,
+    index: z.number().int().nonnegative().default(0),
+    total: z.number().int().positive().default(1),
+    transcript: z.string().optional(),
+    sessionId: z.string().optional(),
+    ...audioFormatFields,
+  })
+  .passthrough()
+  .transform((data) => ({
+    audio: data.audio,
+    index: data.index,
+    total: data.total,
+    transcript: data.transcript,
+    sessionId: data.sessionId,
+    format: toAudioChunkFormat(data),
+  }));
+
+const audioCompleteSchema = z
+  .object({
+    sessionId: z.string().optional(),
+    totalChunks: z.number().int().nonnegative().optional(),
+    text: z.string().optional(),
+    timestamp: timestampSchema,
+  })
+  .passthrough();
+
+const transcriptSchema = z
+  .object({
+    text: z.string(),
+    isFinal: z.boolean().default(false),
+    timestamp: timestampSchema,
+  })
+  .passthrough();
+
+const aiThinkingSchema = z
+  .object({
+    message: z.string().optional(),
+    timestamp: timestampSchema,
+  })
+  .passthrough();
+
+const aiTypingSchema = z
+  .object({
+    status: z.enum(['started', 'finished']),
+    timestamp: timestampSchema,
+  })
+  .passthrough();
+
+const transcriptionSchema = z
+  .object({
+    text: z.string(),
+    isFinal: z.boolean().default(true), // Server-side STT sends finished utterances unless it says otherwise
+    confidence: z.number().min(0).max(1).optional(),
+    language: z.string().optional(), // BCP-47 tag the backend detected, e.g. 'es-ES'
+    timestamp: timestampSchema,
+  })
+  .passthrough();
+
+const aiResponseTextSchema = z
+  .object({
+    text: z.string(),
+    timestamp: timestampSchema,
+  })
+  .passthrough();
+
+const serverErrorSchema = z
+  .object({
+    type: z.string().optional(),
+    message: z.string().optional(),
+    code: z.union([z.string(), z.number()]).optional(),
+  })
+  .passthrough();
+
+// Acknowledgement-style events we only log; keep them permissive but typed
+const acknowledgementSchema = z
+  .object({
+    sessionId: z.string().optional(),
+    message: z.string().optional(),
+    timestamp: timestampSchema,
+  })
+  .passthrough();
+
+const protocolHandshakeResponseSchema = z
+  .object({
+    version: z.number().int().positive(),
+    supportedVersions: z.array(z.number().int().positive()).optional(),
+    audioTransports: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+// Acknowledgement of a latency ping; the backend echoes the sequence number back
+const latencyPongSchema = z
+  .object({
+    sequence: z.number().int().nonnegative(),
+    serverTime: z.number().optional(), // Epoch ms when the backend answered
+  })
+  .passthrough();
+
+// Acknowledgement of a resume request; backends that can't reattach answer resumed: false (or not at all)
+const sessionResumeResponseSchema = z
+  .object({
+    resumed: z.boolean(),
+    sessionId: z.string().min(1).optional(), // The backend session now serving this client
+    reason: z.string().optional(), // Why it couldn't reattach, e.g. the session expired
+  })
+  .passthrough();
+
+export const serverEventSchemas = {
+  'session-status': sessionStatusSchema,
+  'ai-speaking': acknowledgementSchema,
+  'audio-response': audioResponseSchema,
+  'audio-chunk': audioChunkSchema,
+  'audio-complete': audioCompleteSchema,
+  'ai-finished': audioCompleteSchema,
+  'ai-thinking': aiThinkingSchema,
+  'ai-typing': aiTypingSchema,
+  'transcript': transcriptSchema,
+  'transcription': transcriptionSchema,
+  'ai-response-text': aiResponseTextSchema,
+  'text-response': aiResponseTextSchema,
+  'interruption-confirmed': acknowledgementSchema,
+  'interruption-partial': acknowledgementSchema,
+  'interruption-handled': acknowledgementSchema,
+  'session-reset': acknowledgementSchema,
+  'session-info': z.record(z.unknown()),
+  'server-stats': z.record(z.unknown()),
+  'health-response': z.record(z.unknown()),
+  'error': serverErrorSchema,
+};
+
+export type ServerEventName = keyof typeof serverEventSchemas;
+export type ServerEventPayload<E extends ServerEventName> = z.output<(typeof serverEventSchemas)[E]>;
+
+export type SessionStatus = z.output<typeof sessionStatusSchema>;
+export type AudioResponse = z.output<typeof audioChunkSchema>;
+export type AudioCompleteData = z.output<typeof audioCompleteSchema>;
+export type TranscriptData = z.output<typeof transcriptSchema>;
+export type AIThinkingData = z.output<typeof aiThinkingSchema>;
+export type AITypingData = z.output<typeof aiTypingSchema>;
+export type TranscriptionData = z.output<typeof transcriptionSchema>;
+export type AIResponseTextData = z.output<typeof aiResponseTextSchema>;
+export type ServerErrorData = z.output<typeof serverErrorSchema>;
+export type ProtocolHandshakeResponse = z.output<typeof protocolHandshakeResponseSchema>;
+export type LatencyPong = z.output<typeof latencyPongSchema>;
+export type SessionResumeResponse = z.output<typeof sessionResumeResponseSchema>;
+
+// ---------------------------------------------------------------------------
+// Client → server events
+// ---------------------------------------------------------------------------
+
+const emptyPayloadSchema = z.undefined();
+
+const languageSettingsSchema = z.object({
+  language: z.string().min(2), // BCP-47 tag used for recognition and replies, e.g. 'en-US'
+  autoDetectLanguage: z.boolean(), // Let the backend follow whatever language the user speaks
+});
+
+// Earlier turns of a resumed (or reconnected) conversation, so the backend can pick up where it left off
+const conversationContextSchema = z.object({
+  conversationId: z.string().min(1), // Client-generated; survives reconnects and reloads
+  turns: z.array(
+    z.object({
+      role: z.enum(['user', 'assistant']),
+      text: z.string(),
+      timestamp: z.string(),
+    })
+  ),
+});
+
+const startConversationSchema = languageSettingsSchema.partial().extend({
+  context: conversationContextSchema.optional(),
+});
+
+export const clientEventSchemas = {
+  [PROTOCOL_HANDSHAKE_EVENT]: z.object({
+    version: z.number().int().positive(),
+    supportedVersions: z.array(z.number().int().positive()),
+    audioTransports: z.array(z.enum(['binary', 'base64'])).optional(),
+  }),
+  [SESSION_RESUME_EVENT]: z.object({
+    token: z.string().min(1), // Stable for the tab; also sent in the socket auth
+    sessionId: z.string().min(1), // The backend session the client was attached to before the drop
+    conversationId: z.string().min(1).optional(),
+  }),
+  [LATENCY_PING_EVENT]: z.object({
+    sequence: z.number().int().nonnegative(),
+    sentAt: z.number(), // Epoch ms, for backends that log one-way delay
+  }),
+  'start-conversation': startConversationSchema.optional(), // Legacy backends ignore the payload
+  'set-language': languageSettingsSchema, // Mid-session switch; the socket and session stay up
+  'audio-chunk': z.object({
+    audio: z.union([
+      z.string().min(1),
+      z.custom<ArrayBuffer>((value) => value instanceof ArrayBuffer && value.byteLength > 0, { message: 'Expected non-empty ArrayBuffer' }),
+    ]),
+    mimeType: z.string().optional(), // e.g. 'audio/pcm;rate=16000' or 'audio/webm;codecs=opus'
+  }),
+  'stop-speaking': z.object({
+    transcription: z.string(),
+    timestamp: z.string(),
+  }),
+  'text-message': z.object({
+    text: z.string().trim().min(1), // Typed by the user; answered like a spoken turn
+    timestamp: z.string(),
+  }),
+  'interrupt': z
+    .object({
+      reason: z.enum(['user', 'barge-in']),
+      transcript: z.string().optional(), // What the user had said so far when they cut in
+    })
+    .optional(), // Legacy clients send no payload
+  'reset-session': emptyPayloadSchema,
+  'end-conversation': emptyPayloadSchema,
+  'get-session-info': emptyPayloadSchema,
+  'get-stats': emptyPayloadSchema,
+};
+
+export type ClientEventName = keyof typeof clientEventSchemas;
+export type ClientEventPayload<E extends ClientEventName> = z.input<(typeof clientEventSchemas)[E]>;
+export type LanguageSettings = z.input<typeof languageSettingsSchema>;
+export type ConversationContext = z.input<typeof conversationContextSchema>;
+export type InterruptDetails = NonNullable<ClientEventPayload<'interrupt'>>;
+
+// ---------------------------------------------------------------------------
+// Errors and codec helpers
+// ---------------------------------------------------------------------------
+
+export type ProtocolDirection = 'inbound' | 'outbound';
+
+// Raised whenever a payload does not match its schema (or the handshake fails)
+export class ProtocolError extends Error {
+  readonly type = 'protocol-error';
+  readonly event: string;
+  readonly direction: ProtocolDirection;
+  readonly issues: z.ZodIssue[];
+  readonly payload: unknown;
+
+  constructor(event: string, direction: ProtocolDirection, issues: z.ZodIssue[], payload: unknown, message?: string) {
+    super(message || `Invalid ${direction} "${event}" payload: ${ProtocolError.describeIssues(issues)}`);
+    this.name = 'ProtocolError';
+    this.event = event;
+    this.direction = direction;
+    this.issues = issues;
+    this.payload = payload;
+  }
+
+  private static describeIssues(issues: z.ZodIssue[]): string {
+    return issues
+      .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'} ${issue.message}`)
+      .join('; ');
+  }
+}
+
+export interface ParseResult<T> {
+  success: boolean;
+  data?: T;
+  error?: ProtocolError;
+}
+
+// Validate and normalise an incoming server event
+export function parseServerEvent<E extends ServerEventName>(event: E, payload: unknown): ParseResult<ServerEventPayload<E>> {
+  const result = serverEventSchemas[event].safeParse(payload);
+  if (!result.success) {
+    return { success: false, error: new ProtocolError(event, 'inbound', result.error.issues, payload) };
+  }
+  return { success: true, data: result.data as ServerEventPayload<E> };
+}
+
+// Validate an outgoing client event, throwing so programming errors surface immediately
+export function encodeClientEvent<E extends ClientEventName>(event: E, payload: ClientEventPayload<E>): ClientEventPayload<E> {
+  const result = clientEventSchemas[event].safeParse(payload);
+  if (!result.success) {
+    throw new ProtocolError(event, 'outbound', result.error.issues, payload);
+  }
+  return result.data as ClientEventPayload<E>;
+}
+
+// Pick the protocol version both sides understand from the handshake acknowledgement
+export function negotiateProtocolVersion(response: unknown): ParseResult<number> {
+  const result = protocolHandshakeResponseSchema.safeParse(response);
+  if (!result.success) {
+    return {
+      success: false,
+      error: new ProtocolError(PROTOCOL_HANDSHAKE_EVENT, 'inbound', result.error.issues, response),
+    };
+  }
+
+  const offered = result.data.supportedVersions || [result.data.version];
+  const common = offered.filter((version) => SUPPORTED_PROTOCOL_VERSIONS.includes(version));
+  if (common.length === 0) {
+    return {
+      success: false,
+      error: new ProtocolError(
+        PROTOCOL_HANDSHAKE_EVENT,
+        'inbound',
+        [],
+        response,
+        `No common protocol version (client: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}, server: ${offered.join(', ')})`
+      ),
+    };
+  }
+
+  return { success: true, data: Math.max(...common) };
+}
+
+// Binary only when the backend advertises it; a missing list means a base64-only backend
+export function negotiateAudioTransport(response: unknown): AudioTransport {
+  const result = protocolHandshakeResponseSchema.safeParse(response);
+  const offered = result.success ? result.data.audioTransports || [] : [];
+  return offered.includes('binary') ? 'binary' : 'base64';
+}
+
+// Validate a latency ping's acknowledgement
+export function parseLatencyPong(response: unknown): ParseResult<LatencyPong> {
+  const result = latencyPongSchema.safeParse(response);
+  if (!result.success) {
+    return { success: false, error: new ProtocolError(LATENCY_PING_EVENT, 'inbound', result.error.issues, response) };
+  }
+  return { success: true, data: result.data };
+}
+
+// Validate the acknowledgement of a resume request
+export function parseSessionResume(response: unknown): ParseResult<SessionResumeResponse> {
+  const result = sessionResumeResponseSchema.safeParse(response);
+  if (!result.success) {
+    return { success: false, error: new ProtocolError(SESSION_RESUME_EVENT, 'inbound', result.error.issues, response) };
+  }
+  return { success: true, data: result.data };
+}
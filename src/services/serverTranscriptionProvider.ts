@@ -0,0 +1,42 @@
+import { EventBus, Unsubscribe } from './eventBus';
+import { socketService } from './socketService';
+import { TranscriptionProvider, TranscriptionProviderEvents } from './transcriptionProvider';
+
+// Backend speech-to-text: the mic audio is already streamed, so results arrive as `transcription` events
+export class ServerTranscriptionProvider implements TranscriptionProvider {
+  readonly id = 'server' as const;
+  readonly label = 'Server';
+  private events = new EventBus<TranscriptionProviderEvents>('serverTranscriptionProvider');
+  private unsubscribe: Unsubscribe | null = null;
+
+  // Works in every browser; the backend must be reachable for results to arrive
+  isSupported(): boolean {
+    return true;
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = socketService.onTranscription((data) => {
+      if (!data.text.trim()) return;
+      this.events.emit('result', {
+        transcript: data.text,
+        isFinal: data.isFinal,
+        confidence: data.confidence ?? null,
+      });
+    });
+  }
+
+  stop(): void {
+    if (!this.unsubscribe) return;
+
+    this.unsubscribe();
+    this.unsubscribe = null;
+    // Web Speech reports its end asynchronously; match that so the service sees the same order
+    setTimeout(() => this.events.emit('end', undefined), 0);
+  }
+
+  on<K extends keyof TranscriptionProviderEvents & string>(event: K, listener: (payload: TranscriptionProviderEvents[K]) => void): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+}
@@ -1,54 +1,113 @@
 import { io, Socket } from 'socket.io-client';
 import { voiceActivityDetection } from './voiceActivityDetection';
-
-export interface SessionStatus {
-  status: 'waiting' | 'active' | 'ended';
-  sessionId?: string;
-  message?: string;
-}
-
-export interface AudioResponse {
-  audio?: string;  // Frontend expected field
-  chunk?: string;  // Backend actual field
-  index: number;
-  total: number;
-  transcript?: string;
-  sessionId?: string;  // Session ID for audio management
-}
-
-export interface TranscriptData {
-  text: string;
-  isFinal: boolean;
-  timestamp: number;
-}
-
-export interface AIThinkingData {
-  message?: string;
-  timestamp: number;
-}
-
-export interface TranscriptionData {
-  text: string;
-  confidence?: number;
-  timestamp: number;
-}
-
-export interface AIResponseTextData {
-  text: string;
-  timestamp: number;
+import { EventBus, Unsubscribe, WildcardListener } from './eventBus';
+import { ExternalStore } from './externalStore';
+import { conversationState } from './conversationStateMachine';
+import { audioCapture, CaptureFormat, CaptureOptions } from './audioCapture';
+import { microphoneManager, MicrophoneLease } from './microphoneManager';
+import {
+  AIResponseTextData,
+  AIThinkingData,
+  AITypingData,
+  AudioCompleteData,
+  AudioResponse,
+  AudioTransport,
+  ClientEventName,
+  ClientEventPayload,
+  LEGACY_PROTOCOL_VERSION,
+  ConversationContext,
+  InterruptDetails,
+  LATENCY_PING_EVENT,
+  LATENCY_PING_TIMEOUT,
+  LanguageSettings,
+  PROTOCOL_HANDSHAKE_EVENT,
+  PROTOCOL_HANDSHAKE_GRACE,
+  PROTOCOL_HANDSHAKE_TIMEOUT,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  SESSION_RESUME_EVENT,
+  SESSION_RESUME_TIMEOUT,
+  SUPPORTED_AUDIO_TRANSPORTS,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  ServerErrorData,
+  ServerEventName,
+  ServerEventPayload,
+  SessionStatus,
+  TranscriptData,
+  TranscriptionData,
+  encodeClientEvent,
+  negotiateAudioTransport,
+  negotiateProtocolVersion,
+  parseLatencyPong,
+  parseServerEvent,
+  parseSessionResume,
+} from './protocol';
+import { ConnectionQualityMonitor, ConnectionQualityState } from './connectionQuality';
+
+export type { Unsubscribe } from './eventBus';
+export type {
+  SessionStatus,
+  AudioResponse,
+  AudioCompleteData,
+  TranscriptData,
+  AIThinkingData,
+  TranscriptionData,
+  AIResponseTextData,
+  AITypingData,
+  ServerErrorData,
+} from './protocol';
+
+type AISpeakingData = ServerEventPayload<'ai-speaking'>;
+
+// Events published by SocketService; payloads are already validated by the protocol layer
+export type SocketServiceEvents = {
+  sessionStatus: SessionStatus;
+  audioResponse: AudioResponse;
+  transcript: TranscriptData;
+  aiSpeaking: AISpeakingData;
+  aiThinking: AIThinkingData;
+  aiTyping: AITypingData;
+  transcription: TranscriptionData;
+  aiResponseText: AIResponseTextData;
+  aiFinished: AudioCompleteData;
+  error: ServerErrorData | ProtocolError;
+  reconnectFailed: { attempts: number }; // Automatic reconnection gave up; connect() starts over
+};
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'rate-limited' | 'reconnecting' | 'offline';
+
+// Reactive connection snapshot for `useSyncExternalStore` consumers
+export interface ConnectionState {
+  status: ConnectionStatus;
+  isConnected: boolean;
+  isConnecting: boolean;
+  isRateLimited: boolean;
+  sessionId: string | null; // The backend session; survives reconnects the backend could resume
+  sessionResumed: boolean; // The last connect reattached the previous backend session
+  protocolVersion: number;
+  audioTransport: AudioTransport;
+  reconnectAttempts: number;
+  maxReconnectAttempts: number;
+  isReconnecting: boolean; // Recovering from a drop, possibly waiting for the network or the tab
+  nextReconnectAt: number | null; // Epoch ms of the next scheduled attempt
+  isOnline: boolean;
 }
 
-export interface AITypingData {
-  status: 'started' | 'finished';
-  timestamp: number;
+// Stable for the life of the page, so the backend can tell a reconnecting client from a new one
+function createSessionToken(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `client-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 }
 
 class SocketService {
   private socket: Socket | null = null;
   private serverUrl: string = import.meta.env.VITE_SERVER_URL || 'http://localhost:3000';
   private audioContext: AudioContext | null = null;
-  private mediaStream: MediaStream | null = null;
-  private mediaRecorder: MediaRecorder | null = null;
+  private microphone: MicrophoneLease | null = null;
+  private unsubscribeMicrophone: Unsubscribe | null = null;
+  private recordingOptions: Partial<CaptureOptions> = {}; // Reused when capture moves to another mic
   private audioChunks: Blob[] = [];
   private audioChunkCount: number = 0;
   private _audioCompleted: boolean = false;
@@ -56,6 +115,14 @@ class SocketService {
   private _duplicateCount: number = 0; // Track duplicate count to reduce logging
   private _isConnecting: boolean = false; // Track connection state
   private _isConnected: boolean = false; // Track if already connected
+  private protocolVersion: number = LEGACY_PROTOCOL_VERSION; // Negotiated on connect
+  private audioTransport: AudioTransport = 'base64'; // Negotiated on connect; binary needs backend support
+  private languageSettings: LanguageSettings | null = null; // Sent with every start-conversation
+  private conversationContext: ConversationContext | null = null; // Likewise, so a restarted backend conversation keeps its history
+  private conversationStarted: boolean = false; // Restart it on a reconnect the backend couldn't resume
+  private sessionToken: string = createSessionToken(); // Sent in the socket auth and with every resume request
+  private backendSessionId: string | null = null; // What the backend calls this client's session; kept across drops
+  private sessionResumed: boolean = false;
   
   // Adaptive chunk sizing configuration
   private adaptiveChunkConfig = {
@@ -87,8 +154,13 @@ class SocketService {
   
   // WebSocket spam fix - Connection management
   private connectionManager = {
-    maxReconnectAttempts: 3,
-    reconnectDelay: 5000, // 5 seconds
+    maxReconnectAttempts: 10,
+    reconnectBaseDelay: 2000, // Doubles per attempt, with jitter
+    reconnectMaxDelay: 30000,
+    reconnectTimeoutId: null as ReturnType<typeof setTimeout> | null,
+    nextReconnectAt: 0,
+    shouldReconnect: false, // Set by an unexpected drop, cleared by a successful connect or disconnect()
+    isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
     rateLimitDelay: 60000, // 60 seconds for rate limit
     connectionTimeout: 10000, // 10 seconds
     lastConnectionAttempt: 0,
@@ -113,17 +185,23 @@ class SocketService {
     chunkDistribution: new Map<number, number>(), // Track which port handled which chunk
   };
   
-  private aiEventCallbacks: {
-    sessionStatus?: (data: SessionStatus) => void;
-    audioResponse?: (data: AudioResponse) => void;
-    transcript?: (data: TranscriptData) => void;
-    aiThinking?: (data: AIThinkingData) => void;
-    aiTyping?: (data: AITypingData) => void;
-    transcription?: (data: TranscriptionData) => void;
-    aiResponseText?: (data: AIResponseTextData) => void;
-    aiFinished?: (data: any) => void;
-    error?: (error: any) => void;
-  } = {};
+  // Multi-subscriber event stream; every component gets its own unsubscribe handle
+  private events = new EventBus<SocketServiceEvents>('socketService');
+
+  // Connection snapshot; republished whenever any of the flags above change
+  private connectionStore = new ExternalStore<ConnectionState>(this.buildConnectionState());
+
+  // Round-trip time, jitter and loss of the primary socket, measured while it is connected
+  private quality = new ConnectionQualityMonitor();
+
+  constructor() {
+    // Reconnection waits for the network and for the tab to be looked at again
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.handleNetworkChange(true));
+      window.addEventListener('offline', () => this.handleNetworkChange(false));
+      document.addEventListener('visibilitychange', () => this.handleVisibilityChange());
+    }
+  }
 
   async connect(userId: string = 'web-user'): Promise<void> {
     // Prevent multiple simultaneous connections
@@ -145,6 +223,7 @@ class SocketService {
         throw new Error(`Rate limited, try again in ${Math.ceil(timeUntilReset / 1000)} seconds`);
       } else {
         this.connectionManager.isRateLimited = false;
+        this.publishConnectionState();
       }
     }
     
@@ -158,6 +237,8 @@ class SocketService {
     try {
       this._isConnecting = true;
       this.connectionManager.lastConnectionAttempt = Date.now();
+      this.publishConnectionState();
+      conversationState.send('connect', 'socketService');
       console.log('🔌 Connecting to server...');
       
       if (this.multiPortConfig.enabled) {
@@ -168,10 +249,13 @@ class SocketService {
       
       this._isConnected = true;
       this.connectionManager.reconnectAttempts = 0;
+      this.connectionManager.shouldReconnect = false;
+      this.clearReconnectTimer();
       this.connectionManager.connectionHistory.push({
         timestamp: Date.now(),
         success: true
       });
+      conversationState.send('connected', 'socketService');
       console.log('✅ Connected to server successfully');
     } catch (error) {
       this._isConnected = false;
@@ -186,10 +270,12 @@ class SocketService {
         this.handleRateLimitError();
       }
       
+      conversationState.send('fail', 'socketService', error instanceof Error ? error.message : String(error));
       console.error('❌ Failed to connect to server:', error);
       throw error;
     } finally {
       this._isConnecting = false;
+      this.publishConnectionState();
     }
   }
 
@@ -197,10 +283,12 @@ class SocketService {
     console.log('🚫 Rate limit exceeded, setting rate limit state');
     this.connectionManager.isRateLimited = true;
     this.connectionManager.rateLimitResetTime = Date.now() + this.connectionManager.rateLimitDelay;
+    this.publishConnectionState();
     
     // Schedule automatic reset
     setTimeout(() => {
       this.connectionManager.isRateLimited = false;
+      this.publishConnectionState();
       console.log('✅ Rate limit reset, can attempt connection again');
     }, this.connectionManager.rateLimitDelay);
   }
@@ -232,11 +320,17 @@ class SocketService {
   }
 
   private async connectSinglePort(userId: string): Promise<void> {
+    // A socket left over from a dropped connection must not fire its handlers again
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+    }
     this.socket = io(this.serverUrl, {
       query: { userId },
       transports: ['websocket', 'polling'],
       timeout: this.connectionManager.connectionTimeout,
-      auth: { userId }, // Add auth for backend tracking
+      reconnection: false, // handleReconnection owns retries, with backoff and network awareness
+      auth: { userId, sessionToken: this.sessionToken }, // Add auth for backend tracking
     });
 
     return new Promise((resolve, reject) => {
@@ -245,16 +339,34 @@ class SocketService {
         return;
       }
 
-      this.socket.on('connect', () => {
-        console.log('✅ Single port connected:', this.socket?.id);
+      const socket = this.socket;
+      socket.on('connect', async () => {
+        console.log('✅ Single port connected:', socket.id);
         this._isConnected = true;
         this.setupAIEventListeners();
+        // The handshake and resume take a while; the socket may drop or be replaced meanwhile
+        const isCurrent = () => socket === this.socket && socket.connected;
+        // A reconnect needs the real answer: only a v2 backend can resume the session it left behind
+        const isResuming = this.backendSessionId !== null;
+        await this.negotiateProtocol(socket, () => this.handleLateProtocolUpgrade(socket), isResuming);
+        if (!isCurrent()) {
+          reject(new Error('Connection lost during protocol handshake'));
+          return;
+        }
+        await this.resumeSession(socket);
+        if (!isCurrent()) {
+          reject(new Error('Connection lost while resuming the session'));
+          return;
+        }
+        this.startLatencyProbe(socket);
+        this.publishConnectionState();
         resolve();
       });
 
       this.socket.on('connect_error', (error) => {
         console.error('❌ Connection error:', error);
         this._isConnected = false;
+        this.publishConnectionState();
         
         // Handle rate limit errors from backend
         if (error.message && error.message.includes('Too many connection attempts')) {
@@ -268,31 +380,102 @@ class SocketService {
       this.socket.on('disconnect', (reason) => {
         console.log('🔌 Disconnected:', reason);
         this._isConnected = false;
+        this.quality.stop();
+        this.publishConnectionState();
+        conversationState.send('disconnected', 'socketService', reason);
         
-        // Handle reconnection for non-rate-limit disconnections
-        if (reason !== 'io server disconnect' && !this.connectionManager.isRateLimited) {
+        // The server closing the session, or us calling disconnect(), is deliberate; anything else is a drop
+        if (reason !== 'io server disconnect' && reason !== 'io client disconnect') {
           this.handleReconnection();
         }
       });
     });
   }
 
-  private async handleReconnection(): Promise<void> {
-    if (this.connectionManager.reconnectAttempts >= this.connectionManager.maxReconnectAttempts) {
+  private handleReconnection(): void {
+    this.connectionManager.shouldReconnect = true;
+    this.scheduleReconnect();
+  }
+
+  // Exponential backoff with jitter, so clients dropped together don't all come back at once;
+  // nothing is attempted (or counted) while offline or hidden
+  private scheduleReconnect(): void {
+    const manager = this.connectionManager;
+    this.clearReconnectTimer();
+    if (!manager.shouldReconnect) return;
+
+    if (!manager.isOnline) {
+      console.log('📴 Offline, reconnecting when the network returns');
+      this.publishConnectionState();
+      return;
+    }
+    if (document.visibilityState === 'hidden') {
+      console.log('🙈 Page hidden, reconnecting when it is visible again');
+      this.publishConnectionState();
+      return;
+    }
+    if (manager.reconnectAttempts >= manager.maxReconnectAttempts) {
       console.log('❌ Max reconnection attempts reached');
+      manager.shouldReconnect = false;
+      this.publishConnectionState();
+      this.events.emit('reconnectFailed', { attempts: manager.reconnectAttempts });
       return;
     }
-    
+
+    // Never less than half the ceiling, so a retry can't land immediately after a failure
+    const ceiling = Math.min(manager.reconnectMaxDelay, manager.reconnectBaseDelay * 2 ** manager.reconnectAttempts);
+    let delay = ceiling / 2 + Math.random() * (ceiling / 2);
+    if (manager.isRateLimited) {
+      delay = Math.max(delay, manager.rateLimitResetTime - Date.now());
+    }
+
+    manager.nextReconnectAt = Date.now() + delay;
+    manager.reconnectTimeoutId = setTimeout(() => this.attemptReconnect(), delay);
+    this.publishConnectionState();
+    console.log(`🔄 Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${manager.reconnectAttempts + 1}/${manager.maxReconnectAttempts})`);
+  }
+
+  private async attemptReconnect(): Promise<void> {
+    this.clearReconnectTimer();
+    if (!this.connectionManager.shouldReconnect || this._isConnecting || this.isConnected()) return;
+
     this.connectionManager.reconnectAttempts++;
+    this.publishConnectionState();
     console.log(`🔄 Reconnection attempt ${this.connectionManager.reconnectAttempts}/${this.connectionManager.maxReconnectAttempts}`);
-    
-    setTimeout(async () => {
-      try {
-        await this.connect();
-      } catch (error) {
-        console.error('❌ Reconnection failed:', error);
-      }
-    }, this.connectionManager.reconnectDelay);
+    try {
+      await this.connect();
+    } catch (error) {
+      console.error('❌ Reconnection failed:', error);
+      this.scheduleReconnect();
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.connectionManager.reconnectTimeoutId) {
+      clearTimeout(this.connectionManager.reconnectTimeoutId);
+      this.connectionManager.reconnectTimeoutId = null;
+    }
+    this.connectionManager.nextReconnectAt = 0;
+  }
+
+  // Coming back online is a new chance; the backoff starts over
+  private handleNetworkChange(isOnline: boolean): void {
+    this.connectionManager.isOnline = isOnline;
+    console.log(isOnline ? '📶 Network back online' : '📴 Network offline');
+    if (isOnline && this.connectionManager.shouldReconnect) {
+      this.connectionManager.reconnectAttempts = 0;
+      this.attemptReconnect();
+    } else if (!isOnline) {
+      this.clearReconnectTimer();
+    }
+    this.publishConnectionState();
+  }
+
+  // Retry straight away when the user comes back to the tab instead of waiting out the backoff
+  private handleVisibilityChange(): void {
+    if (document.visibilityState === 'visible' && this.connectionManager.shouldReconnect && this.connectionManager.isOnline) {
+      this.attemptReconnect();
+    }
   }
 
   private async connectToPort(userId: string, portIndex: number): Promise<void> {
@@ -304,10 +487,15 @@ class SocketService {
     });
 
     return new Promise((resolve, reject) => {
-      port.on('connect', () => {
+      port.on('connect', async () => {
         console.log(`✅ Port ${portIndex} connected:`, port.id);
         this.multiPortConfig.ports[portIndex] = port;
         this.multiPortConfig.portHealthChecks[portIndex] = true;
+        // All ports share one backend, so the primary port's handshake decides the version
+        if (portIndex === 0) {
+          await this.negotiateProtocol(port, () => this.handleLateProtocolUpgrade(port));
+          this.startLatencyProbe(port);
+        }
         resolve();
       });
 
@@ -327,10 +515,204 @@ class SocketService {
       port.on('disconnect', (reason) => {
         console.log(`🔌 Port ${portIndex} disconnected:`, reason);
         this.multiPortConfig.portHealthChecks[portIndex] = false;
+        if (portIndex === 0) {
+          this.quality.stop();
+        }
       });
     });
   }
 
+  // Agree on a protocol version with the backend; backends without a handshake are treated as legacy.
+  // Resolves on the acknowledgement or after a short grace period, so a legacy backend doesn't hold
+  // up the connection; an acknowledgement after that still upgrades it, through onLateUpgrade.
+  // With waitForAck it holds out for the acknowledgement or the full timeout instead
+  private negotiateProtocol(socket: Socket, onLateUpgrade: () => void, waitForAck: boolean = false): Promise<void> {
+    this.protocolVersion = LEGACY_PROTOCOL_VERSION;
+    this.audioTransport = 'base64';
+
+    return new Promise((resolve) => {
+      let settled = false;
+      const graceTimeoutId = waitForAck ? null : setTimeout(() => {
+        settled = true;
+        console.log(`🤝 No protocol handshake yet, continuing with legacy protocol v${LEGACY_PROTOCOL_VERSION}`);
+        resolve();
+      }, PROTOCOL_HANDSHAKE_GRACE);
+
+      const handshake = encodeClientEvent(PROTOCOL_HANDSHAKE_EVENT, {
+        version: PROTOCOL_VERSION,
+        supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+        audioTransports: SUPPORTED_AUDIO_TRANSPORTS,
+      });
+
+      socket.timeout(PROTOCOL_HANDSHAKE_TIMEOUT).emit(PROTOCOL_HANDSHAKE_EVENT, handshake, (err: Error | null, response: unknown) => {
+        if (graceTimeoutId) {
+          clearTimeout(graceTimeoutId);
+        }
+        const isLate = settled;
+        settled = true;
+        // The connection may have been replaced while we waited
+        if (!socket.connected) {
+          resolve();
+          return;
+        }
+
+        if (err) {
+          console.log(`🤝 No protocol handshake from backend, using legacy protocol v${LEGACY_PROTOCOL_VERSION}`);
+          resolve();
+          return;
+        }
+
+        const negotiated = negotiateProtocolVersion(response);
+        if (negotiated.success) {
+          this.protocolVersion = negotiated.data;
+          this.audioTransport = negotiateAudioTransport(response);
+          console.log(`🤝 Protocol v${this.protocolVersion} negotiated, ${this.audioTransport} audio transport${isLate ? ' (late)' : ''}`);
+          if (isLate) {
+            onLateUpgrade();
+          }
+        } else {
+          this.reportProtocolError(negotiated.error);
+        }
+        resolve();
+      });
+    });
+  }
+
+  // The backend answered the handshake after connect() had already carried on as legacy
+  private handleLateProtocolUpgrade(socket: Socket): void {
+    if (!socket.connected) return;
+    this.startLatencyProbe(socket);
+    this.publishConnectionState();
+  }
+
+  // After a drop, ask the backend to reattach the session this client had; if it can't, the
+  // conversation restarts on the new session with its context. Legacy backends can't resume,
+  // so they aren't asked
+  private resumeSession(socket: Socket): Promise<void> {
+    const previous = this.backendSessionId;
+    const isReconnect = this.connectionManager.shouldReconnect;
+    this.sessionResumed = false;
+    if (!previous) {
+      this.backendSessionId = socket.id || null;
+      return Promise.resolve();
+    }
+    if (this.protocolVersion < PROTOCOL_VERSION) {
+      this.startNewSession(socket, previous, isReconnect, '');
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const request = encodeClientEvent(SESSION_RESUME_EVENT, {
+        token: this.sessionToken,
+        sessionId: previous,
+        conversationId: this.conversationContext?.conversationId,
+      });
+
+      socket.timeout(SESSION_RESUME_TIMEOUT).emit(SESSION_RESUME_EVENT, request, (err: Error | null, response: unknown) => {
+        // Dropped while waiting: keep the previous session id for the next attempt to resume
+        if (!socket.connected) {
+          resolve();
+          return;
+        }
+
+        const parsed = err ? null : parseSessionResume(response);
+        if (parsed && !parsed.success) {
+          this.reportProtocolError(parsed.error);
+        }
+
+        if (parsed?.success && parsed.data.resumed) {
+          this.backendSessionId = parsed.data.sessionId || previous;
+          this.sessionResumed = true;
+          console.log(`♻️ Backend session ${this.backendSessionId} resumed`);
+        } else {
+          this.startNewSession(socket, previous, isReconnect, parsed?.success && parsed.data.reason ? ` (${parsed.data.reason})` : '');
+        }
+        resolve();
+      });
+    });
+  }
+
+  // The one place a reconnect restarts the conversation; the voice session keeps what this set up
+  private startNewSession(socket: Socket, previous: string, isReconnect: boolean, reason: string): void {
+    this.backendSessionId = socket.id || null;
+    console.log(`🆕 Session ${previous} could not be resumed${reason}, continuing on ${this.backendSessionId}`);
+    if (isReconnect && this.conversationStarted) {
+      this.startConversation();
+    }
+  }
+
+  // Ping the backend periodically for the life of this connection; legacy backends have no pong
+  private startLatencyProbe(socket: Socket): void {
+    if (this.protocolVersion < PROTOCOL_VERSION) {
+      this.quality.markUnsupported();
+      return;
+    }
+    this.quality.start((sequence) => this.pingServer(socket, sequence));
+  }
+
+  // Resolves with the round trip in ms, or null when no pong came back in time
+  private pingServer(socket: Socket, sequence: number): Promise<number | null> {
+    return new Promise((resolve) => {
+      if (!socket.connected) {
+        resolve(null);
+        return;
+      }
+
+      const ping = encodeClientEvent(LATENCY_PING_EVENT, { sequence, sentAt: Date.now() });
+      const startTime = performance.now();
+      socket.timeout(LATENCY_PING_TIMEOUT).emit(LATENCY_PING_EVENT, ping, (err: Error | null, response: unknown) => {
+        if (err) {
+          resolve(null);
+          return;
+        }
+
+        const pong = parseLatencyPong(response);
+        if (!pong.success) {
+          this.reportProtocolError(pong.error);
+          resolve(null);
+          return;
+        }
+        resolve(pong.data.sequence === sequence ? performance.now() - startTime : null);
+      });
+    });
+  }
+
+  // Register a validated listener; malformed payloads are reported instead of reaching the handler
+  private listen<E extends ServerEventName>(socket: Socket, event: E, handler: (data: ServerEventPayload<E>) => void): void {
+    socket.on(event as string, (payload: unknown) => {
+      const result = parseServerEvent(event, payload);
+      if (!result.success) {
+        this.reportProtocolError(result.error);
+        return;
+      }
+      handler(result.data);
+    });
+  }
+
+  private reportProtocolError(error: ProtocolError): void {
+    console.error(`🧩 Protocol error on "${error.event}" (${error.direction}):`, error.message, error.payload);
+    this.events.emit('error', error);
+  }
+
+  // Validate an outgoing event against the protocol before it leaves the client
+  private emitEvent<E extends ClientEventName>(socket: Socket, event: E, payload?: ClientEventPayload<E>): boolean {
+    try {
+      const data = encodeClientEvent(event, payload);
+      if (data === undefined) {
+        socket.emit(event);
+      } else {
+        socket.emit(event, data);
+      }
+      return true;
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        this.reportProtocolError(error);
+        return false;
+      }
+      throw error;
+    }
+  }
+
   private setupMultiPortEventListeners(): void {
     // Setup event listeners for all ports
     this.multiPortConfig.ports.forEach((port, index) => {
@@ -349,17 +731,15 @@ class SocketService {
       }
     });
 
-    port.on('session-status', (data) => {
+    this.listen(port, 'session-status', (data) => {
       console.log(`Port ${portIndex} session status:`, data);
-      if (this.aiEventCallbacks.sessionStatus) {
-        this.aiEventCallbacks.sessionStatus(data);
-      }
+      this.events.emit('sessionStatus', data);
     });
 
     // Add the correct audio-chunk event listener
-    port.on('audio-chunk', (data) => {
+    this.listen(port, 'audio-chunk', (data) => {
       // Create unique chunk identifier based on session and chunk index only
-      const chunkId = `${data.sessionId}-${data.chunkIndex}`;
+      const chunkId = `${data.sessionId}-${data.index}`;
       
       // Check if we've already processed this exact chunk (same session, same index)
       if (this._processedChunks.has(chunkId)) {
@@ -377,7 +757,7 @@ class SocketService {
       this._processedChunks.add(chunkId);
       
       // Track which port handled this chunk
-      this.multiPortConfig.chunkDistribution.set(data.chunkIndex || 0, portIndex);
+      this.multiPortConfig.chunkDistribution.set(data.index, portIndex);
       
       // Prevent memory leaks by limiting set size
       if (this._processedChunks.size > 1000) {
@@ -386,35 +766,24 @@ class SocketService {
       }
       
       // Only log first few chunks to reduce spam
-      if ((data.chunkIndex || 0) <= 2) {
-        console.log(`🎵 Port ${portIndex} - Audio chunk received:`, data);
+      if (data.index <= 2) {
+        console.log(`🎵 Port ${portIndex} - Audio chunk received:`, data.index, '/', data.total);
       }
       
-      // Map backend data structure to frontend expected structure
-      const mappedData: AudioResponse = {
-        audio: data.audioData, // Backend sends 'audioData', frontend expects 'audio'
-        chunk: data.audioData, // Also map to 'chunk' for compatibility
-        index: data.chunkIndex || 0, // Backend sends 'chunkIndex', frontend expects 'index'
-        total: data.totalChunks || 1, // Backend sends 'totalChunks', frontend expects 'total'
-        transcript: data.transcript,
-        sessionId: data.sessionId // Pass through sessionId for audio management
-      };
-      
-      if (this.aiEventCallbacks.audioResponse) {
-        this.aiEventCallbacks.audioResponse(mappedData);
-      }
+      // Payload is already normalised to the frontend shape by the protocol layer
+      this.events.emit('audioResponse', data);
     });
 
     // Add audio-complete event listener
-    port.on('audio-complete', (data) => {
+    this.listen(port, 'audio-complete', (data) => {
       // Only log first few completion events to reduce spam
       if (!this._audioCompleted) {
         console.log(`✅ Port ${portIndex} - Audio streaming complete:`, data);
       }
       // Only trigger aiFinished callback once per session
-      if (this.aiEventCallbacks.aiFinished && !this._audioCompleted) {
+      if (!this._audioCompleted) {
         this._audioCompleted = true;
-        this.aiEventCallbacks.aiFinished(data);
+        this.events.emit('aiFinished', data);
       }
       // Always clear processed chunks after an AI response is complete
       this._processedChunks.clear();
@@ -426,64 +795,50 @@ class SocketService {
     });
 
     // Add text-response event listener (alternative to ai-response-text)
-    port.on('text-response', (data) => {
+    this.listen(port, 'text-response', (data) => {
       console.log(`📝 Port ${portIndex} - Text response received:`, data);
-      if (this.aiEventCallbacks.aiResponseText) {
-        this.aiEventCallbacks.aiResponseText(data);
-      }
+      this.events.emit('aiResponseText', data);
     });
 
     // Add health-response event listener
-    port.on('health-response', (data) => {
+    this.listen(port, 'health-response', (data) => {
       console.log(`🏥 Port ${portIndex} - Health check response:`, data);
     });
 
     // Add ai-thinking event listener
-    port.on('ai-thinking', (data) => {
+    this.listen(port, 'ai-thinking', (data) => {
       console.log(`🤔 Port ${portIndex} - AI thinking:`, data);
-      if (this.aiEventCallbacks.aiThinking) {
-        this.aiEventCallbacks.aiThinking(data);
-      }
+      this.events.emit('aiThinking', data);
     });
 
     // Add ai-typing event listener
-    port.on('ai-typing', (data) => {
+    this.listen(port, 'ai-typing', (data) => {
       console.log(`⌨️ Port ${portIndex} - AI typing:`, data);
-      if (this.aiEventCallbacks.aiTyping) {
-        this.aiEventCallbacks.aiTyping(data);
-      }
+      this.events.emit('aiTyping', data);
     });
 
     // Add transcript event listener
-    port.on('transcript', (data) => {
+    this.listen(port, 'transcript', (data) => {
       console.log(`📝 Port ${portIndex} - Transcript:`, data);
-      if (this.aiEventCallbacks.transcript) {
-        this.aiEventCallbacks.transcript(data);
-      }
+      this.events.emit('transcript', data);
     });
 
     // Add transcription event listener
-    port.on('transcription', (data) => {
+    this.listen(port, 'transcription', (data) => {
       console.log(`🎤 Port ${portIndex} - Transcription:`, data);
-      if (this.aiEventCallbacks.transcription) {
-        this.aiEventCallbacks.transcription(data);
-      }
+      this.events.emit('transcription', data);
     });
 
     // Add ai-response-text event listener
-    port.on('ai-response-text', (data) => {
+    this.listen(port, 'ai-response-text', (data) => {
       console.log(`📄 Port ${portIndex} - AI response text:`, data);
-      if (this.aiEventCallbacks.aiResponseText) {
-        this.aiEventCallbacks.aiResponseText(data);
-      }
+      this.events.emit('aiResponseText', data);
     });
 
     // Add error event listener
-    port.on('error', (error) => {
+    this.listen(port, 'error', (error) => {
       console.error(`❌ Port ${portIndex} - Error:`, error);
-      if (this.aiEventCallbacks.error) {
-        this.aiEventCallbacks.error(error);
-      }
+      this.events.emit('error', error);
     });
   }
 
@@ -500,20 +855,18 @@ class SocketService {
       }
     });
     
-    this.socket.on('session-status', (data) => {
+    this.listen(this.socket, 'session-status', (data) => {
       console.log('Session status:', data);
-      if (this.aiEventCallbacks.sessionStatus) {
-        this.aiEventCallbacks.sessionStatus(data);
-      }
+      this.events.emit('sessionStatus', data);
     });
 
     // Removed duplicate audio-response listener - backend sends audio-chunk events
 
     // Add the correct audio-chunk event listener
-    this.socket.on('audio-chunk', (data) => {
+    this.listen(this.socket, 'audio-chunk', (data) => {
       // Create unique chunk identifier based on session and chunk index only
       // (Don't use audio content - WAV chunks have similar headers and can be flagged as duplicates)
-      const chunkId = `${data.sessionId}-${data.chunkIndex}`;
+      const chunkId = `${data.sessionId}-${data.index}`;
       
       // Check if we've already processed this exact chunk (same session, same index)
       if (this._processedChunks.has(chunkId)) {
@@ -537,35 +890,24 @@ class SocketService {
       }
       
       // Only log first few chunks to reduce spam
-      if ((data.chunkIndex || 0) <= 2) {
-        console.log('🎵 Audio chunk received:', data);
+      if (data.index <= 2) {
+        console.log('🎵 Audio chunk received:', data.index, '/', data.total);
       }
       
-      // Map backend data structure to frontend expected structure
-      const mappedData: AudioResponse = {
-        audio: data.audioData, // Backend sends 'audioData', frontend expects 'audio'
-        chunk: data.audioData, // Also map to 'chunk' for compatibility
-        index: data.chunkIndex || 0, // Backend sends 'chunkIndex', frontend expects 'index'
-        total: data.totalChunks || 1, // Backend sends 'totalChunks', frontend expects 'total'
-        transcript: data.transcript,
-        sessionId: data.sessionId // Pass through sessionId for audio management
-      };
-      
-      if (this.aiEventCallbacks.audioResponse) {
-        this.aiEventCallbacks.audioResponse(mappedData);
-      }
+      // Payload is already normalised to the frontend shape by the protocol layer
+      this.events.emit('audioResponse', data);
     });
 
     // Add audio-complete event listener
-    this.socket.on('audio-complete', (data) => {
+    this.listen(this.socket, 'audio-complete', (data) => {
       // Only log first few completion events to reduce spam
       if (!this._audioCompleted) {
         console.log('✅ Audio streaming complete:', data);
       }
       // Only trigger aiFinished callback once per session
-      if (this.aiEventCallbacks.aiFinished && !this._audioCompleted) {
+      if (!this._audioCompleted) {
         this._audioCompleted = true;
-        this.aiEventCallbacks.aiFinished(data);
+        this.events.emit('aiFinished', data);
       }
       // Always clear processed chunks after an AI response is complete
       this._processedChunks.clear();
@@ -575,88 +917,85 @@ class SocketService {
     });
 
     // Add text-response event listener (alternative to ai-response-text)
-    this.socket.on('text-response', (data) => {
+    this.listen(this.socket, 'text-response', (data) => {
       console.log('📝 Text response received:', data);
-      if (this.aiEventCallbacks.aiResponseText) {
-        this.aiEventCallbacks.aiResponseText(data);
-      }
+      this.events.emit('aiResponseText', data);
+    });
+
+    this.listen(this.socket, 'ai-speaking', (data) => {
+      this.events.emit('aiSpeaking', data);
     });
 
     // Add health-response event listener
-    this.socket.on('health-response', (data) => {
+    this.listen(this.socket, 'health-response', (data) => {
       console.log('🏥 Health check response:', data);
     });
 
     // Add interruption event listeners
-    this.socket.on('interruption-confirmed', (data) => {
+    this.listen(this.socket, 'interruption-confirmed', (data) => {
       console.log('✅ Interruption confirmed by backend:', data);
     });
 
-    this.socket.on('interruption-partial', (data) => {
+    this.listen(this.socket, 'interruption-partial', (data) => {
       console.log('🔄 Partial interruption processed:', data);
     });
 
-    this.socket.on('interruption-handled', (data) => {
+    this.listen(this.socket, 'interruption-handled', (data) => {
       console.log('✅ Interruption fully handled by backend:', data);
       // Reset session state after backend confirms interruption is handled
       this.resetSessionAfterInterruption();
+      conversationState.send('resume', 'socketService', 'interruption-handled');
     });
 
     // Add session reset confirmation listener
-    this.socket.on('session-reset', (data) => {
+    this.listen(this.socket, 'session-reset', (data) => {
       console.log('✅ Session reset confirmed by backend:', data);
     });
 
     // Add ai-thinking event listener
-    this.socket.on('ai-thinking', (data) => {
+    this.listen(this.socket, 'ai-thinking', (data) => {
       console.log('🤔 AI thinking:', data);
-      if (this.aiEventCallbacks.aiThinking) {
-        this.aiEventCallbacks.aiThinking(data);
-      }
+      this.events.emit('aiThinking', data);
     });
 
     // Add ai-typing event listener
-    this.socket.on('ai-typing', (data) => {
+    this.listen(this.socket, 'ai-typing', (data) => {
       console.log('⌨️ AI typing:', data);
-      if (this.aiEventCallbacks.aiTyping) {
-        this.aiEventCallbacks.aiTyping(data);
-      }
+      this.events.emit('aiTyping', data);
     });
 
     // Add transcript event listener
-    this.socket.on('transcript', (data) => {
+    this.listen(this.socket, 'transcript', (data) => {
       console.log('📝 Transcript:', data);
-      if (this.aiEventCallbacks.transcript) {
-        this.aiEventCallbacks.transcript(data);
-      }
+      this.events.emit('transcript', data);
     });
 
     // Add transcription event listener
-    this.socket.on('transcription', (data) => {
+    this.listen(this.socket, 'transcription', (data) => {
       console.log('🎤 Transcription:', data);
-      if (this.aiEventCallbacks.transcription) {
-        this.aiEventCallbacks.transcription(data);
-      }
+      this.events.emit('transcription', data);
     });
 
     // Add ai-response-text event listener
-    this.socket.on('ai-response-text', (data) => {
+    this.listen(this.socket, 'ai-response-text', (data) => {
       console.log('📄 AI response text:', data);
-      if (this.aiEventCallbacks.aiResponseText) {
-        this.aiEventCallbacks.aiResponseText(data);
-      }
+      this.events.emit('aiResponseText', data);
     });
 
     // Add error event listener
-    this.socket.on('error', (error) => {
+    this.listen(this.socket, 'error', (error) => {
       console.error('❌ Socket error:', error);
-      if (this.aiEventCallbacks.error) {
-        this.aiEventCallbacks.error(error);
-      }
+      this.events.emit('error', error);
     });
   }
 
   disconnect() {
+    // Deliberate, so nothing tries to bring it back or resume it
+    this.connectionManager.shouldReconnect = false;
+    this.clearReconnectTimer();
+    this.backendSessionId = null;
+    this.sessionResumed = false;
+    this.conversationStarted = false;
     if (this.multiPortConfig.enabled) {
       // Disconnect all ports
       this.multiPortConfig.ports.forEach((port, index) => {
@@ -673,6 +1012,11 @@ class SocketService {
     this.socket = null;
     this._isConnected = false;
     this._isConnecting = false;
+    this.quality.stop();
+    this.protocolVersion = LEGACY_PROTOCOL_VERSION;
+    this.audioTransport = 'base64';
+    this.publishConnectionState();
+    conversationState.send('reset', 'socketService', 'disconnect');
   }
 
   // Add cleanup method for component unmount
@@ -692,138 +1036,199 @@ class SocketService {
     this.connectionManager.lastConnectionAttempt = 0;
     this._isConnecting = false;
     this._isConnected = false;
+    this.publishConnectionState();
     
-    // Stop media recording if active
-    if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
-      this.mediaRecorder.stop();
-    }
+    // Stop microphone capture if active
+    audioCapture.stop();
     
     // Stop media stream if active
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach(track => track.stop());
-      this.mediaStream = null;
-    }
+    this.releaseMediaStream();
     
     console.log('✅ Socket service cleanup complete');
   }
 
   startConversation() {
     if (!this.socket) return;
-    this.socket.emit('start-conversation');
+    const payload = {
+      ...this.languageSettings,
+      ...(this.conversationContext && this.conversationContext.turns.length > 0 ? { context: this.conversationContext } : {}),
+    };
+    this.emitEvent(this.socket, 'start-conversation', Object.keys(payload).length > 0 ? payload : undefined);
+    this.conversationStarted = true;
+  }
+
+  // Prior turns to hand the backend on the next start-conversation; null for a fresh conversation
+  setConversationContext(context: ConversationContext | null) {
+    this.conversationContext = context;
+  }
+
+  // Remember the language for future conversations and switch the live one without reconnecting;
+  // legacy v1 backends have no set-language, so their conversation is restarted with the new settings
+  setLanguage(settings: LanguageSettings) {
+    const previous = this.languageSettings;
+    this.languageSettings = { ...settings };
+    if (previous && previous.language === settings.language && previous.autoDetectLanguage === settings.autoDetectLanguage) {
+      return;
+    }
+
+    console.log(`🌐 Conversation language: ${settings.language}${settings.autoDetectLanguage ? ' (auto-detect)' : ''}`);
+    if (!this.socket || !this._isConnected) return;
+    if (this.protocolVersion >= PROTOCOL_VERSION) {
+      this.emitEvent(this.socket, 'set-language', this.languageSettings);
+    } else if (this.conversationStarted) {
+      this.startConversation();
+    }
+  }
+
+  getLanguage(): LanguageSettings | null {
+    return this.languageSettings ? { ...this.languageSettings } : null;
   }
 
   endConversation() {
     if (!this.socket) return;
-    this.socket.emit('end-conversation');
+    this.emitEvent(this.socket, 'end-conversation');
+    this.conversationStarted = false;
   }
 
-  async startRecording(): Promise<void> {
+  // Capture the microphone and stream it to the backend; PCM by default, MediaRecorder where unsupported
+  async startRecording(options: Partial<CaptureOptions> = {}): Promise<CaptureFormat> {
     try {
-      // Request microphone permission
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      
-      // Create MediaRecorder
-      this.mediaRecorder = new MediaRecorder(this.mediaStream, {
-        mimeType: 'audio/webm;codecs=opus'
+      // Request microphone permission; shared with VAD and the visualizer
+      this.releaseMediaStream();
+      this.microphone = await microphoneManager.acquire('capture');
+      this.recordingOptions = options;
+      this.unsubscribeMicrophone = microphoneManager.on('stream-change', () => {
+        this.restartRecording().catch((error) => console.error('❌ Failed to move recording to the new microphone:', error));
       });
       
-      // Start recording
-      this.startMediaRecorder();
+      // Use adaptive chunk sizing instead of fixed 1-second chunks (MediaRecorder only; PCM uses fixed frames)
+      const adaptiveChunkSize = this.calculateAdaptiveChunkSize();
+      const format = await audioCapture.start(
+        this.microphone,
+        (chunk, chunkFormat) => this.sendAudioChunk(chunk, chunkFormat),
+        { timesliceMs: adaptiveChunkSize, ...options }
+      );
       
+      console.log('🎵 STARTING ADAPTIVE RECORDING:', {
+        mode: format.mode,
+        mimeType: format.mimeType,
+        chunkSize: `${format.frameMs ?? adaptiveChunkSize}ms`,
+        transmissionDelay: `${this.adaptiveChunkConfig.transmissionDelay}ms`,
+        expectedEfficiency: `${(adaptiveChunkSize / this.adaptiveChunkConfig.transmissionDelay).toFixed(1)}x improvement`
+      });
       console.log('🎤 Recording started');
+      return format;
     } catch (error) {
       console.error('❌ Failed to start recording:', error);
+      this.releaseMediaStream();
       throw error;
     }
   }
 
-  private startMediaRecorder(): void {
-    if (!this.mediaRecorder) return;
-    
-    this.audioChunks = [];
-    
-    this.mediaRecorder.ondataavailable = (event) => {
-      if (event.data.size > 0) {
-        this.audioChunks.push(event.data);
-        this.sendAudioChunk(event.data);
-      }
-    };
-    
-    this.mediaRecorder.onstop = () => {
-      console.log('🛑 Recording stopped');
-      this.stopMediaRecorder();
-    };
-    
-    // Use adaptive chunk sizing instead of fixed 1-second chunks
-    const adaptiveChunkSize = this.calculateAdaptiveChunkSize();
-    console.log('🎵 STARTING ADAPTIVE RECORDING:', {
-      chunkSize: `${adaptiveChunkSize}ms`,
-      transmissionDelay: `${this.adaptiveChunkConfig.transmissionDelay}ms`,
-      expectedEfficiency: `${(adaptiveChunkSize / this.adaptiveChunkConfig.transmissionDelay).toFixed(1)}x improvement`
-    });
-    
-    // Start recording with adaptive timeslices for optimized streaming
-    this.mediaRecorder.start(adaptiveChunkSize);
-  }
+  // Rebuild capture on the manager's new stream; the conversation and the paused state carry over
+  private async restartRecording(): Promise<void> {
+    if (!this.microphone || !audioCapture.isCapturing()) return;
 
-  private stopMediaRecorder(): void {
-    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
-      this.mediaRecorder.stop();
-    }
-    
-    if (this.mediaStream) {
-      this.mediaStream.getTracks().forEach(track => track.stop());
-      this.mediaStream = null;
+    const wasPaused = audioCapture.isPaused();
+    await audioCapture.start(
+      this.microphone,
+      (chunk, chunkFormat) => this.sendAudioChunk(chunk, chunkFormat),
+      { timesliceMs: this.calculateAdaptiveChunkSize(), ...this.recordingOptions }
+    );
+    if (wasPaused) {
+      audioCapture.pause();
     }
+    console.log('🎤 Recording moved to the new microphone');
+  }
+
+  // Hold the stream back without releasing the mic (push-to-talk, wake-on-voice)
+  pauseRecording() {
+    audioCapture.pause();
+  }
+
+  resumeRecording(includePreroll: boolean = false) {
+    audioCapture.resume(includePreroll);
   }
 
   stopRecording() {
-    if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
-      this.mediaRecorder.stop();
+    if (audioCapture.isCapturing()) {
+      audioCapture.stop();
+      console.log('🛑 Recording stopped');
     }
+    this.releaseMediaStream();
   }
 
-  private async sendAudioChunk(blob: Blob) {
+  private releaseMediaStream(): void {
+    this.unsubscribeMicrophone?.();
+    this.unsubscribeMicrophone = null;
+    if (this.microphone) {
+      this.microphone.release();
+      this.microphone = null;
+    }
+  }
+
+  private async sendAudioChunk(chunk: Blob | ArrayBuffer, format: CaptureFormat) {
     if (!this.socket) return;
 
     const startTime = performance.now();
-    const chunkSizeMs = blob.size / 1024; // Approximate size in KB for tracking
-
-    // Convert blob to base64
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64Audio = reader.result?.toString().split(',')[1];
-      if (base64Audio) {
-        // Only log every 10th chunk to reduce spam
-        if (!this.audioChunkCount) this.audioChunkCount = 0;
-        this.audioChunkCount++;
-        
-        if (this.audioChunkCount % 50 === 0) {
-          console.log('🔊 SENDING ADAPTIVE AUDIO CHUNK TO AI:', {
-            chunkNumber: this.audioChunkCount,
-            chunkSize: blob.size,
-            chunkSizeMs: Math.round(chunkSizeMs),
-            transmissionDelay: this.adaptiveChunkConfig.transmissionDelay
-          });
-        }
-        
-        // Apply adaptive transmission delay
-        setTimeout(() => {
-          if (this.multiPortConfig.enabled) {
-            // Use load balancing to distribute chunks across ports
-            const targetPort = this.getLoadBalancedPort();
-            targetPort.emit('audio-chunk', { audio: base64Audio });
-          } else {
-            this.socket!.emit('audio-chunk', { audio: base64Audio });
-          }
-          
-          // Track performance metrics
-          const transmissionTime = performance.now() - startTime;
-          this.updateChunkPerformanceStats(chunkSizeMs, transmissionTime);
-        }, this.adaptiveChunkConfig.transmissionDelay);
+    const chunkBytes = chunk instanceof Blob ? chunk.size : chunk.byteLength;
+    const chunkSizeMs = chunkBytes / 1024; // Approximate size in KB for tracking
+
+    // Binary attachments skip the base64 round trip (~33% smaller, no encode on the main thread)
+    let audio: string | ArrayBuffer | undefined;
+    try {
+      if (this.audioTransport === 'binary') {
+        audio = chunk instanceof Blob ? await chunk.arrayBuffer() : chunk;
+      } else {
+        audio = await this.blobToBase64(chunk instanceof Blob ? chunk : new Blob([chunk]));
       }
-    };
-    reader.readAsDataURL(blob);
+    } catch (error) {
+      console.error('❌ Failed to read audio chunk:', error);
+      return;
+    }
+    if (!audio || (audio instanceof ArrayBuffer && audio.byteLength === 0)) {
+      return;
+    }
+
+    // Only log every 10th chunk to reduce spam
+    if (!this.audioChunkCount) this.audioChunkCount = 0;
+    this.audioChunkCount++;
+    
+    if (this.audioChunkCount % 50 === 0) {
+      console.log('🔊 SENDING ADAPTIVE AUDIO CHUNK TO AI:', {
+        chunkNumber: this.audioChunkCount,
+        chunkSize: chunkBytes,
+        chunkSizeMs: Math.round(chunkSizeMs),
+        transport: this.audioTransport,
+        mimeType: format.mimeType,
+        transmissionDelay: this.adaptiveChunkConfig.transmissionDelay
+      });
+    }
+    
+    // Apply adaptive transmission delay
+    setTimeout(() => {
+      if (this.multiPortConfig.enabled) {
+        // Use load balancing to distribute chunks across ports
+        const targetPort = this.getLoadBalancedPort();
+        this.emitEvent(targetPort, 'audio-chunk', { audio, mimeType: format.mimeType });
+      } else {
+        this.emitEvent(this.socket!, 'audio-chunk', { audio, mimeType: format.mimeType });
+      }
+      
+      // Track performance metrics
+      const transmissionTime = performance.now() - startTime;
+      this.updateChunkPerformanceStats(chunkSizeMs, transmissionTime);
+    }, this.adaptiveChunkConfig.transmissionDelay);
+  }
+
+  // Base64 fallback for backends that only accept string audio
+  private blobToBase64(blob: Blob): Promise<string | undefined> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result?.toString().split(',')[1]);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
   }
 
   private getLoadBalancedPort(): Socket {
@@ -861,10 +1266,11 @@ class SocketService {
     }
   }
 
-  interrupt() {
+  interrupt(details?: InterruptDetails) {
     if (!this.socket) return;
-    console.log('🚫 SENDING INTERRUPT SIGNAL TO BACKEND');
-    this.socket.emit('interrupt');
+    console.log('🚫 SENDING INTERRUPT SIGNAL TO BACKEND', details ?? '');
+    this.emitEvent(this.socket, 'interrupt', details);
+    conversationState.send('interrupt', 'socketService');
     
     // Reset session state after interruption
     this.resetSessionAfterInterruption();
@@ -889,7 +1295,7 @@ class SocketService {
     // Send a session reset signal to the backend
     if (this.socket) {
       console.log('🔄 SENDING SESSION RESET TO BACKEND');
-      this.socket.emit('reset-session');
+      this.emitEvent(this.socket, 'reset-session');
       
       // Also try to start a new conversation to ensure clean state
       setTimeout(() => {
@@ -899,50 +1305,77 @@ class SocketService {
     }
   }
 
-  onSessionStatus(callback: (data: SessionStatus) => void) {
-    this.aiEventCallbacks.sessionStatus = callback;
+  // Generic subscription API; prefer these over the named helpers for new code
+  on<K extends keyof SocketServiceEvents & string>(event: K, callback: (data: SocketServiceEvents[K]) => void): Unsubscribe {
+    return this.events.on(event, callback);
   }
 
-  onAISpeaking(callback: (data: any) => void) {
-    // Keep this for backward compatibility
-    if (!this.socket) return;
-    this.socket.on('ai-speaking', callback);
+  once<K extends keyof SocketServiceEvents & string>(event: K, callback: (data: SocketServiceEvents[K]) => void): Unsubscribe {
+    return this.events.once(event, callback);
+  }
+
+  off<K extends keyof SocketServiceEvents & string>(event: K, callback: (data: SocketServiceEvents[K]) => void): void {
+    this.events.off(event, callback);
+  }
+
+  // Observe every event (or a glob like `ai*`), e.g. for analytics panels
+  onAny(callback: WildcardListener<SocketServiceEvents>, pattern?: string): Unsubscribe {
+    return this.events.onAny(callback, pattern);
+  }
+
+  onSessionStatus(callback: (data: SessionStatus) => void): Unsubscribe {
+    return this.events.on('sessionStatus', callback);
+  }
+
+  onAISpeaking(callback: (data: AISpeakingData) => void): Unsubscribe {
+    return this.events.on('aiSpeaking', callback);
   }
 
-  onAudioResponse(callback: (data: AudioResponse) => void) {
-    this.aiEventCallbacks.audioResponse = callback;
+  onAudioResponse(callback: (data: AudioResponse) => void): Unsubscribe {
+    return this.events.on('audioResponse', callback);
   }
 
-  onAIFinished(callback: (data: any) => void) {
-    this.aiEventCallbacks.aiFinished = callback;
+  onAIFinished(callback: (data: AudioCompleteData) => void): Unsubscribe {
+    return this.events.on('aiFinished', callback);
   }
 
-  onError(callback: (error: any) => void) {
-    this.aiEventCallbacks.error = callback;
+  onError(callback: (error: ServerErrorData | ProtocolError) => void): Unsubscribe {
+    return this.events.on('error', callback);
   }
 
-  onTranscript(callback: (data: TranscriptData) => void) {
-    this.aiEventCallbacks.transcript = callback;
+  onTranscript(callback: (data: TranscriptData) => void): Unsubscribe {
+    return this.events.on('transcript', callback);
   }
 
-  onAIThinking(callback: (data: AIThinkingData) => void) {
-    this.aiEventCallbacks.aiThinking = callback;
+  onAIThinking(callback: (data: AIThinkingData) => void): Unsubscribe {
+    return this.events.on('aiThinking', callback);
   }
 
-  onTranscription(callback: (data: TranscriptionData) => void) {
-    this.aiEventCallbacks.transcription = callback;
+  onTranscription(callback: (data: TranscriptionData) => void): Unsubscribe {
+    return this.events.on('transcription', callback);
   }
 
-  onAIResponseText(callback: (data: AIResponseTextData) => void) {
-    this.aiEventCallbacks.aiResponseText = callback;
+  onAIResponseText(callback: (data: AIResponseTextData) => void): Unsubscribe {
+    return this.events.on('aiResponseText', callback);
   }
 
-  onAITyping(callback: (data: AITypingData) => void) {
-    this.aiEventCallbacks.aiTyping = callback;
+  onAITyping(callback: (data: AITypingData) => void): Unsubscribe {
+    return this.events.on('aiTyping', callback);
   }
 
+  // Protocol version agreed with the backend during the connect handshake
+  getProtocolVersion(): number {
+    return this.protocolVersion;
+  }
+
+  // How audio is encoded on the wire for this session
+  getAudioTransport(): AudioTransport {
+    return this.audioTransport;
+  }
+
+  // The backend session rather than the socket id, which changes on every reconnect
   getSessionId(): string | null {
-    return this.socket?.id || null;
+    return this.socket?.id ? this.backendSessionId || this.socket.id : null;
   }
 
   // Add method to check connection status
@@ -976,9 +1409,64 @@ class SocketService {
       timeUntilRateLimitReset: this.connectionManager.isRateLimited 
         ? Math.max(0, this.connectionManager.rateLimitResetTime - now)
         : 0,
+      latency: this.quality.getSnapshot(),
     };
   }
 
+  // Round-trip time, jitter, loss and a 0-100 quality score for the live connection
+  subscribeQuality = (listener: () => void): Unsubscribe => {
+    return this.quality.subscribe(listener);
+  };
+
+  getQualitySnapshot = (): ConnectionQualityState => {
+    return this.quality.getSnapshot();
+  };
+
+  // Subscribe to connection changes instead of polling isConnected()/getConnectionStats()
+  subscribeConnection = (listener: () => void): Unsubscribe => {
+    return this.connectionStore.subscribe(listener);
+  };
+
+  getConnectionSnapshot = (): ConnectionState => {
+    return this.connectionStore.getSnapshot();
+  };
+
+  private buildConnectionState(): ConnectionState {
+    const isConnected = this._isConnected && (this.socket?.connected || false);
+    let status: ConnectionStatus = 'disconnected';
+    if (isConnected) {
+      status = 'connected';
+    } else if (this._isConnecting) {
+      status = 'connecting';
+    } else if (this.connectionManager.isRateLimited) {
+      status = 'rate-limited';
+    } else if (!this.connectionManager.isOnline) {
+      status = 'offline';
+    } else if (this.connectionManager.shouldReconnect) {
+      status = 'reconnecting';
+    }
+
+    return {
+      status,
+      isConnected,
+      isConnecting: this._isConnecting,
+      isRateLimited: this.connectionManager.isRateLimited,
+      sessionId: this.getSessionId(),
+      sessionResumed: this.sessionResumed,
+      protocolVersion: this.protocolVersion,
+      audioTransport: this.audioTransport,
+      reconnectAttempts: this.connectionManager.reconnectAttempts,
+      maxReconnectAttempts: this.connectionManager.maxReconnectAttempts,
+      isReconnecting: this.connectionManager.shouldReconnect,
+      nextReconnectAt: this.connectionManager.nextReconnectAt || null,
+      isOnline: this.connectionManager.isOnline,
+    };
+  }
+
+  private publishConnectionState(): void {
+    this.connectionStore.setState(this.buildConnectionState());
+  }
+
   // Check if rate limited
   isRateLimited(): boolean {
     return this.connectionManager.isRateLimited;
@@ -1008,11 +1496,19 @@ class SocketService {
     }
   }
 
+  // The backend's own export of a session; the caller decides what to do when it's gone
+  async getSessionExport(sessionId: string): Promise<unknown> {
+    const response = await fetch(`${this.serverUrl}/api/session/${encodeURIComponent(sessionId)}/export`);
+    if (!response.ok) {
+      throw new Error(`Failed to export session: ${response.status}`);
+    }
+    return await response.json();
+  }
+
+  // Drops every subscriber, including ones owned by other components.
+  // Components should call the unsubscribe handle returned by `on*` instead.
   removeAllListeners() {
-    if (!this.socket) return;
-    this.socket.removeAllListeners();
-    // Clear stored callbacks
-    this.aiEventCallbacks = {};
+    this.events.clear();
   }
 
   // Public method to emit stop-speaking event
@@ -1022,11 +1518,25 @@ class SocketService {
         transcription: transcription || 'User finished speaking',
         timestamp: new Date().toISOString()
       });
-      this.socket.emit('stop-speaking', {
+      this.emitEvent(this.socket, 'stop-speaking', {
         transcription: transcription || 'User finished speaking',
         timestamp: new Date().toISOString()
       });
+      conversationState.send('user-turn-end', 'socketService');
+    }
+  }
+
+  // Typed input in the same session; legacy v1 backends only take spoken turns, so it goes as one
+  sendTextMessage(text: string) {
+    if (!this.socket) return;
+    const timestamp = new Date().toISOString();
+    console.log('⌨️ SENDING TEXT MESSAGE TO AI:', { text, timestamp });
+    if (this.protocolVersion >= PROTOCOL_VERSION) {
+      this.emitEvent(this.socket, 'text-message', { text, timestamp });
+    } else {
+      this.emitEvent(this.socket, 'stop-speaking', { transcription: text, timestamp });
     }
+    conversationState.send('user-turn-end', 'socketService');
   }
 
   // Get multi-port statistics
@@ -1142,8 +1652,8 @@ class SocketService {
     // Send multiple reset signals to backend
     if (this.socket) {
       console.log('🔄 SENDING MULTIPLE RESET SIGNALS TO BACKEND');
-      this.socket.emit('reset-session');
-      this.socket.emit('end-conversation');
+      this.emitEvent(this.socket, 'reset-session');
+      this.emitEvent(this.socket, 'end-conversation');
       
       // Start a new conversation after a short delay
       setTimeout(() => {
@@ -0,0 +1,208 @@
+import { VadEngine } from './vadEngine';
+
+export interface SpectralVadOptions {
+  speechBandLow: number; // Hz; voiced speech energy sits roughly in 300–3400 Hz
+  speechBandHigh: number;
+  minSnrDb: number; // Frames this close to the noise floor score zero
+  fullSnrDb: number; // Frames this far above it score fully on energy
+  noiseAdaptUp: number; // Per-frame smoothing when the floor rises (slow, so speech doesn't become "noise")
+  noiseAdaptDown: number; // Per-frame smoothing when it falls (fast, so quiet rooms are found quickly)
+  hangoverFrames: number; // Frames to keep scoring as speech after a speech frame, bridging gaps between syllables
+}
+
+const DEFAULT_OPTIONS: SpectralVadOptions = {
+  speechBandLow: 300,
+  speechBandHigh: 3400,
+  minSnrDb: 3,
+  fullSnrDb: 15,
+  noiseAdaptUp: 0.995,
+  noiseAdaptDown: 0.9,
+  hangoverFrames: 6,
+};
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 512; // 32 ms, a power of two for the FFT
+const SILENT_DB = -100;
+const SPEECH_PROBABILITY = 0.5;
+const CALIBRATION_FRAMES = 10; // Adapt freely while the first ~300 ms set the floor
+
+// In-place iterative radix-2 FFT; `re.length` must be a power of two
+function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const half = size >> 1;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + half;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Built-in detector that needs no model.
+ *
+ * Each 32 ms frame is scored on three cues: energy above an adaptive noise floor (so a
+ * steady fan or hum fades out), the share of that energy in the speech band (rumble and
+ * hiss score low), and zero-crossing rate (clicks and fricative-only noise cross too often).
+ * A short hangover keeps the score up through the dips between syllables.
+ */
+export class SpectralVadEngine implements VadEngine {
+  readonly id = 'spectral' as const;
+  readonly label = 'Spectral (built-in)';
+  readonly sampleRate = SAMPLE_RATE;
+  readonly frameSize = FRAME_SIZE;
+
+  private options: SpectralVadOptions;
+  private window: Float32Array;
+  private re = new Float32Array(FRAME_SIZE);
+  private im = new Float32Array(FRAME_SIZE);
+  private noiseFloorDb: number | null = null;
+  private seededFloorDb: number | null = null;
+  private framesSeen: number = 0;
+  private hangover: number = 0;
+
+  constructor(options: Partial<SpectralVadOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.window = new Float32Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+    }
+  }
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  async load(): Promise<void> {
+    // Nothing to fetch
+  }
+
+  configure(options: Partial<SpectralVadOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Current estimate of the background level in dBFS; null until the first frame
+  getNoiseFloor(): number | null {
+    return this.noiseFloorDb;
+  }
+
+  // Seed the floor from a known measurement instead of learning it from the first frames
+  setNoiseFloor(db: number | null): void {
+    this.seededFloorDb = db;
+    this.noiseFloorDb = db;
+    this.framesSeen = db === null ? 0 : CALIBRATION_FRAMES;
+  }
+
+  // A seeded floor survives; a learned one is relearned, since the next stream may be another mic
+  reset(): void {
+    this.hangover = 0;
+    this.noiseFloorDb = this.seededFloorDb;
+    this.framesSeen = this.seededFloorDb === null ? 0 : CALIBRATION_FRAMES;
+  }
+
+  process(frame: Float32Array): number {
+    const length = Math.min(frame.length, FRAME_SIZE);
+    if (length === 0) return 0;
+
+    // Energy and zero crossings in the time domain
+    let sumSquares = 0;
+    let crossings = 0;
+    for (let i = 0; i < length; i++) {
+      sumSquares += frame[i] * frame[i];
+      if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) {
+        crossings++;
+      }
+    }
+    const rms = Math.sqrt(sumSquares / length);
+    const energyDb = rms > 0 ? 20 * Math.log10(rms) : SILENT_DB;
+    const zeroCrossingRate = crossings / length;
+
+    const bandRatio = this.speechBandRatio(frame, length);
+
+    const snrDb = this.noiseFloorDb === null ? 0 : energyDb - this.noiseFloorDb;
+    const energyScore = clamp01((snrDb - this.options.minSnrDb) / (this.options.fullSnrDb - this.options.minSnrDb));
+    const bandScore = clamp01((bandRatio - 0.1) / 0.4);
+    // Voiced speech at 16 kHz crosses zero on ~1–25% of samples; hum crosses less, clicks and hiss far more
+    const zcrScore = zeroCrossingRate < 0.01 ? zeroCrossingRate / 0.01 : clamp01((0.45 - zeroCrossingRate) / 0.2);
+
+    // Every cue has to agree: loud hum fails on band, loud hiss on zero crossings, quiet speech on energy
+    let probability = energyScore * Math.sqrt(bandScore * zcrScore);
+
+    if (probability >= SPEECH_PROBABILITY) {
+      this.hangover = this.options.hangoverFrames;
+    } else if (this.hangover > 0) {
+      probability = Math.max(probability, SPEECH_PROBABILITY);
+      this.hangover--;
+    }
+
+    this.updateNoiseFloor(energyDb, probability);
+    return probability;
+  }
+
+  // Share of 80 Hz–8 kHz energy that falls inside the speech band
+  private speechBandRatio(frame: Float32Array, length: number): number {
+    this.re.fill(0);
+    this.im.fill(0);
+    for (let i = 0; i < length; i++) {
+      this.re[i] = frame[i] * this.window[i];
+    }
+    fft(this.re, this.im);
+
+    const binHz = SAMPLE_RATE / FRAME_SIZE;
+    let total = 0;
+    let band = 0;
+    for (let bin = Math.ceil(80 / binHz); bin < FRAME_SIZE / 2; bin++) {
+      const power = this.re[bin] * this.re[bin] + this.im[bin] * this.im[bin];
+      const hz = bin * binHz;
+      total += power;
+      if (hz >= this.options.speechBandLow && hz <= this.options.speechBandHigh) {
+        band += power;
+      }
+    }
+    return total > 0 ? band / total : 0;
+  }
+
+  private updateNoiseFloor(energyDb: number, probability: number): void {
+    this.framesSeen++;
+    if (this.noiseFloorDb === null) {
+      this.noiseFloorDb = energyDb;
+      return;
+    }
+
+    if (energyDb < this.noiseFloorDb) {
+      this.noiseFloorDb = this.noiseFloorDb * this.options.noiseAdaptDown + energyDb * (1 - this.options.noiseAdaptDown);
+    } else if (this.framesSeen <= CALIBRATION_FRAMES) {
+      this.noiseFloorDb = (this.noiseFloorDb + energyDb) / 2;
+    } else if (probability < SPEECH_PROBABILITY) {
+      // Only non-speech frames may raise the floor, so a long monologue isn't learned as noise
+      this.noiseFloorDb = this.noiseFloorDb * this.options.noiseAdaptUp + energyDb * (1 - this.options.noiseAdaptUp);
+    }
+  }
+}
@@ -1,178 +1,229 @@
-import { stopSpeaking } from './socketService';
+import { USER_TURN_PHASES, conversationState } from './conversationStateMachine';
+import { Unsubscribe } from './eventBus';
+import { endpointing } from './endpointing';
+import { TranscriptionError, TranscriptionProvider, TranscriptionProviderId, TranscriptionResult } from './transcriptionProvider';
+import { WebSpeechProvider } from './webSpeechProvider';
+import { ServerTranscriptionProvider } from './serverTranscriptionProvider';
+import { MockTranscriptionProvider } from './mockTranscriptionProvider';
+
+export interface TranscriptionProviderInfo {
+  id: TranscriptionProviderId;
+  label: string;
+  isSupported: boolean;
+}
 
 export class SpeechRecognitionService {
-  private recognition: any;
+  private providers: Map<TranscriptionProviderId, TranscriptionProvider> = new Map();
+  private provider: TranscriptionProvider | null = null;
+  private providerUnsubscribers: Unsubscribe[] = [];
   private isListening: boolean = false;
   private onResultCallback?: (transcript: string, isFinal: boolean) => void;
   private onErrorCallback?: (error: any) => void;
-  private silenceTimeout: NodeJS.Timeout | null = null;
   private lastSpeechTime: number = 0;
-  private hasSentFinalTranscript: boolean = false; // Add flag to prevent multiple stopSpeaking calls
   private currentTranscript: string = ''; // Track current transcript
   private lastFinalTranscript: string = ''; // Track last final transcript to prevent duplicates
   private transcriptHistory: Set<string> = new Set(); // Track sent transcripts to prevent duplicates
   private stuckDetectionTimeout: NodeJS.Timeout | null = null; // Timeout to detect stuck recognition
+  private language: string = 'en-US';
 
   constructor() {
-    // Check if Web Speech API is available
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    
-    if (SpeechRecognition) {
-      this.recognition = new SpeechRecognition();
-      this.setupRecognition();
-    } else {
-      console.warn('Web Speech API not supported in this browser');
+    this.registerProvider(new WebSpeechProvider());
+    this.registerProvider(new ServerTranscriptionProvider());
+    this.registerProvider(new MockTranscriptionProvider());
+
+    // Browsers without Web Speech (Firefox) use the backend's transcription instead
+    const preferred = import.meta.env.VITE_TRANSCRIPTION_PROVIDER as TranscriptionProviderId | undefined;
+    const initial = preferred && this.providers.get(preferred)?.isSupported()
+      ? preferred
+      : this.providers.get('web-speech')!.isSupported() ? 'web-speech' : 'server';
+    this.setProvider(initial);
+
+    // Remember what ended each turn so a late duplicate final isn't taken for new speech
+    endpointing.on('endpoint', (record) => {
+      this.transcriptHistory.add(record.transcript);
+    });
+  }
+
+  // Add (or replace) an adapter; e.g. a MockTranscriptionProvider with a test script
+  registerProvider(provider: TranscriptionProvider): void {
+    const replacingActive = this.provider?.id === provider.id;
+    provider.setLanguage?.(this.language);
+    this.providers.set(provider.id, provider);
+    if (replacingActive) {
+      this.setProvider(provider.id);
     }
   }
 
-  private setupRecognition() {
-    if (!this.recognition) return;
+  // Switch engines at runtime; recognition restarts on the new one if it was running
+  setProvider(id: TranscriptionProviderId): boolean {
+    const provider = this.providers.get(id);
+    if (!provider || !provider.isSupported()) {
+      console.warn(`⚠️ Transcription provider "${id}" is not available`);
+      return false;
+    }
 
-    this.recognition.continuous = true;
-    this.recognition.interimResults = true;
-    this.recognition.lang = 'en-US';
-    
-    // Add confidence threshold to reduce false positives
-    this.recognition.maxAlternatives = 1;
+    const wasListening = this.isListening;
+    if (this.provider) {
+      if (wasListening) {
+        this.stop();
+      }
+      this.providerUnsubscribers.forEach(unsubscribe => unsubscribe());
+      this.providerUnsubscribers = [];
+    }
 
-    this.recognition.onresult = (event: any) => {
-      // Get all results, not just the last one
-      let fullTranscript = '';
-      let hasFinalResult = false;
-      
-      // Only process the most recent result to prevent accumulation
-      const lastResultIndex = event.results.length - 1;
-      if (lastResultIndex >= 0) {
-        const result = event.results[lastResultIndex];
-        const transcript = result[0].transcript;
-        const confidence = result[0].confidence || 0;
-        const isFinal = result.isFinal;
-        
-        // Only process if confidence is above threshold or it's a final result
-        const confidenceThreshold = 0.3; // Minimum confidence for interim results
-        const isValidResult = isFinal || confidence > confidenceThreshold;
-        
-        if (isValidResult) {
-          if (isFinal) {
-            hasFinalResult = true;
-          }
-          
-          fullTranscript = transcript.trim();
-          
-          console.log('🎤 SPEECH DETECTED:', { 
-            transcript: fullTranscript, 
-            confidence: confidence.toFixed(2),
-            isFinal,
-            isValidResult
-          });
-        } else {
-          console.log('🔇 LOW CONFIDENCE SPEECH IGNORED:', { 
-            transcript: transcript.trim(), 
-            confidence: confidence.toFixed(2),
-            threshold: confidenceThreshold
-          });
-        }
+    this.provider = provider;
+    this.providerUnsubscribers = [
+      provider.on('result', (result) => this.handleResult(result)),
+      provider.on('error', (error) => this.handleError(error)),
+      provider.on('end', () => this.handleEnd()),
+    ];
+    console.log(`🗣️ Transcription provider: ${provider.label}`);
+
+    if (wasListening) {
+      this.start();
+    }
+    return true;
+  }
+
+  // Recognition language for every engine; a running session restarts so the engine picks it up
+  setLanguage(language: string): void {
+    if (language === this.language) return;
+
+    this.language = language;
+    this.providers.forEach((provider) => provider.setLanguage?.(language));
+    console.log(`🌐 Speech recognition language: ${language}`);
+
+    if (this.isListening) {
+      this.forceRestart();
+    }
+  }
+
+  getLanguage(): string {
+    return this.language;
+  }
+
+  getProviderId(): TranscriptionProviderId | null {
+    return this.provider?.id || null;
+  }
+
+  getProvider(id?: TranscriptionProviderId): TranscriptionProvider | null {
+    return (id ? this.providers.get(id) : this.provider) || null;
+  }
+
+  getProviders(): TranscriptionProviderInfo[] {
+    return Array.from(this.providers.values()).map((provider) => ({
+      id: provider.id,
+      label: provider.label,
+      isSupported: provider.isSupported(),
+    }));
+  }
+
+  private handleResult(result: TranscriptionResult) {
+    let fullTranscript = '';
+    let hasFinalResult = false;
+
+    const transcript = result.transcript;
+    const confidence = result.confidence;
+    const isFinal = result.isFinal;
+
+    // Only process if confidence is above threshold or it's a final result
+    const confidenceThreshold = 0.3; // Minimum confidence for interim results
+    const isValidResult = isFinal || confidence === null || confidence > confidenceThreshold;
+
+    if (isValidResult) {
+      if (isFinal) {
+        hasFinalResult = true;
       }
-      
-      console.log('🎤 USER SPEAKING:', { 
-        fullTranscript, 
-        isFinal: hasFinalResult,
-        resultCount: event.results.length,
-        timestamp: new Date().toISOString()
+
+      fullTranscript = transcript.trim();
+
+      console.log('🎤 SPEECH DETECTED:', { 
+        transcript: fullTranscript, 
+        confidence: confidence !== null ? confidence.toFixed(2) : 'n/a',
+        isFinal,
+        isValidResult,
+        provider: this.provider?.id
+      });
+    } else {
+      console.log('🔇 LOW CONFIDENCE SPEECH IGNORED:', { 
+        transcript: transcript.trim(), 
+        confidence: confidence.toFixed(2),
+        threshold: confidenceThreshold
       });
+    }
 
-      if (this.onResultCallback && fullTranscript) {
-        // Only send to UI if it's a final result or if it's significantly different
-        const shouldSend = hasFinalResult || this.isSignificantUpdate(fullTranscript);
-        if (shouldSend) {
-          console.log('📝 SENDING TO UI:', fullTranscript, hasFinalResult);
-          this.onResultCallback(fullTranscript, hasFinalResult);
-        }
-      }
-      
-      // Update current transcript
-      this.currentTranscript = fullTranscript;
-      
-      // If this is a final result, notify the AI that the user has finished speaking
-      if (hasFinalResult && fullTranscript.trim() && !this.hasSentFinalTranscript) {
-        // Check if this transcript is significantly different from the last one
-        const isNewTranscript = this.isNewFinalTranscript(fullTranscript);
-        
-        // Send all transcripts to the backend (no filtering)
-        const minSpeechLength = 2; // Minimum 2 characters
-        const isLongEnough = fullTranscript.trim().length >= minSpeechLength;
-        
-        if (isNewTranscript && isLongEnough) {
-          console.log('🤖 FINAL TRANSCRIPT - NOTIFYING AI:', fullTranscript);
-          this.lastSpeechTime = Date.now();
-          this.clearSilenceTimeout(); // Clear timeout to prevent multiple stop-speaking
-          this.hasSentFinalTranscript = true; // Mark as sent
-          this.lastFinalTranscript = fullTranscript; // Store this transcript
-          this.transcriptHistory.add(fullTranscript); // Add to history
-          stopSpeaking(fullTranscript);
-        } else {
-          if (!isNewTranscript) {
-            console.log('🔄 DUPLICATE TRANSCRIPT DETECTED, skipping:', fullTranscript);
-          } else if (!isLongEnough) {
-            console.log('📏 TRANSCRIPT TOO SHORT, skipping:', fullTranscript, `(min: ${minSpeechLength} chars)`);
-          }
-        }
+    console.log('🎤 USER SPEAKING:', { 
+      fullTranscript, 
+      isFinal: hasFinalResult,
+      timestamp: new Date().toISOString()
+    });
+
+    if (this.onResultCallback && fullTranscript) {
+      // Only send to UI if it's a final result or if it's significantly different
+      const shouldSend = hasFinalResult || this.isSignificantUpdate(fullTranscript);
+      if (shouldSend) {
+        console.log('📝 SENDING TO UI:', fullTranscript, hasFinalResult);
+        this.onResultCallback(fullTranscript, hasFinalResult);
       }
-    };
+    }
 
-    this.recognition.onerror = (event: any) => {
-      console.error('Speech recognition error:', event.error);
-      if (this.onErrorCallback) {
-        this.onErrorCallback(event.error);
-      }
-      this.isListening = false;
-    };
+    // Update current transcript
+    this.currentTranscript = fullTranscript;
 
-    this.recognition.onend = () => {
-      console.log('🔚 SPEECH RECOGNITION ENDED');
-      this.clearSilenceTimeout();
-      
-      // Only send stop-speaking if we haven't already sent a final transcript
-      // AND if there's actual speech content (not just background noise)
-      if (!this.hasSentFinalTranscript) {
-        const hasActualSpeech = this.currentTranscript.trim().length > 0;
-        const timeSinceLastSpeech = Date.now() - this.lastSpeechTime;
-        const hasRecentSpeech = timeSinceLastSpeech < 10000; // 10 seconds
-        
-        if (hasActualSpeech && hasRecentSpeech) {
-          console.log('🛑 Speech recognition ended, sending transcript:', this.currentTranscript.trim());
-          stopSpeaking(this.currentTranscript.trim());
-        } else {
-          console.log('🔇 No actual speech detected, not sending transcript');
-          console.log('🔍 Speech check:', { 
-            hasActualSpeech, 
-            hasRecentSpeech, 
-            timeSinceLastSpeech: `${timeSinceLastSpeech}ms`,
-            currentTranscript: `"${this.currentTranscript.trim()}"`
-          });
-        }
-      }
-      
-      // Auto-restart if we're supposed to be listening (for continuous conversation)
-      // But only if we haven't sent a final transcript (to avoid restarting after user spoke)
-      if (this.isListening && !this.hasSentFinalTranscript) {
-        console.log('🔄 Auto-restarting speech recognition for continuous conversation');
-        // Reset the listening flag so we can restart
-        this.isListening = false;
-        setTimeout(() => {
-          // Check if we should still be listening (mic might have been turned off)
-          if (!this.hasSentFinalTranscript) {
-            this.start();
-          }
-        }, 1000); // Wait 1 second before restarting
+    // First words of a new turn (or of a barge-in) move the conversation to user-speaking
+    if (fullTranscript && conversationState.is('listening', 'interrupted')) {
+      conversationState.send('speech-start', 'speechRecognition');
+    }
+
+    // Every result is evidence for the endpointer, which decides when the turn is over
+    if (fullTranscript.trim() && this.isUserTurn()) {
+      this.lastSpeechTime = Date.now();
+      if (!hasFinalResult) {
+        endpointing.handleTranscript(fullTranscript, false);
+      } else if (this.isNewFinalTranscript(fullTranscript)) {
+        this.lastFinalTranscript = fullTranscript; // Store this transcript
+        endpointing.handleTranscript(fullTranscript, true);
       } else {
-        this.isListening = false;
+        console.log('🔄 DUPLICATE TRANSCRIPT DETECTED, skipping:', fullTranscript);
       }
-    };
+    }
+  }
+
+  private handleError(error: TranscriptionError) {
+    console.error('Speech recognition error:', error.code);
+    if (this.onErrorCallback) {
+      this.onErrorCallback(error.code);
+    }
+    this.isListening = false;
+  }
+
+  private handleEnd() {
+    console.log('🔚 SPEECH RECOGNITION ENDED');
+
+    // Nothing more will be transcribed this session; let the endpointer send what was said
+    if (this.isUserTurn()) {
+      endpointing.handleRecognitionEnd();
+    }
+
+    // Auto-restart if we're supposed to be listening (for continuous conversation)
+    // But only during the user's turn (to avoid restarting after user spoke)
+    if (this.isListening && this.isUserTurn()) {
+      console.log('🔄 Auto-restarting speech recognition for continuous conversation');
+      // Reset the listening flag so we can restart
+      this.isListening = false;
+      setTimeout(() => {
+        // Check if we should still be listening (mic might have been turned off)
+        if (this.isUserTurn()) {
+          this.start();
+        }
+      }, 1000); // Wait 1 second before restarting
+    } else {
+      this.isListening = false;
+    }
   }
 
   start() {
-    if (!this.recognition) {
+    if (!this.provider || !this.provider.isSupported()) {
       console.error('Speech recognition not available');
       return;
     }
@@ -186,47 +237,27 @@ export class SpeechRecognitionService {
 
       // Reset state for new session
       this.isListening = true;
-      this.hasSentFinalTranscript = false; // Reset flag for new speech session
       this.currentTranscript = ''; // Reset transcript for new session
       this.lastFinalTranscript = ''; // Reset last final transcript
       
       // Try to start recognition
-      this.recognition.start();
-      console.log('🎤 SPEECH RECOGNITION STARTED');
+      this.provider.start();
+      console.log(`🎤 SPEECH RECOGNITION STARTED (${this.provider.id})`);
       this.lastSpeechTime = Date.now();
-      this.resetSilenceTimeout();
       this.startStuckDetection();
     } catch (error) {
       console.error('Error starting speech recognition:', error);
       this.isListening = false;
-      
-      // If it's already started, try to stop and restart
-      if (error.name === 'InvalidStateError' && error.message.includes('already started')) {
-        console.log('Speech recognition was already started, stopping and restarting...');
-        try {
-          this.recognition.stop();
-          setTimeout(() => {
-            if (!this.isListening) { // Only restart if we're supposed to be listening
-              this.isListening = true;
-              this.recognition.start();
-            }
-          }, 100);
-        } catch (restartError) {
-          console.error('Error restarting speech recognition:', restartError);
-          this.isListening = false;
-        }
-      }
     }
   }
 
   stop() {
-    if (!this.recognition) return;
+    if (!this.provider) return;
     
     this.isListening = false;
-    this.clearSilenceTimeout();
     this.clearStuckDetection();
     try {
-      this.recognition.stop();
+      this.provider.stop();
       console.log('🛑 SPEECH RECOGNITION STOPPED');
     } catch (error) {
       console.error('Error stopping speech recognition:', error);
@@ -242,7 +273,7 @@ export class SpeechRecognitionService {
   }
 
   isAvailable(): boolean {
-    return !!this.recognition;
+    return !!this.provider && this.provider.isSupported();
   }
 
   // Public method to check if speech recognition is currently listening
@@ -262,8 +293,10 @@ export class SpeechRecognitionService {
   getState(): any {
     return {
       isListening: this.isListening,
-      isAvailable: !!this.recognition,
-      hasSentFinalTranscript: this.hasSentFinalTranscript,
+      isAvailable: this.isAvailable(),
+      provider: this.provider?.id || null,
+      language: this.language,
+      conversationPhase: conversationState.getPhase(),
       currentTranscript: this.currentTranscript,
       lastSpeechTime: this.lastSpeechTime,
       timeSinceLastActivity: Date.now() - this.lastSpeechTime,
@@ -271,6 +304,12 @@ export class SpeechRecognitionService {
     };
   }
 
+  // The conversation state machine decides whose turn it is; once stop-speaking has
+  // ended the user turn, recognition stays quiet until the AI has answered
+  private isUserTurn(): boolean {
+    return conversationState.is(...USER_TURN_PHASES);
+  }
+
   private lastSentTranscript: string = '';
   private lastUpdateTime: number = 0;
 
@@ -361,47 +400,6 @@ export class SpeechRecognitionService {
     return matrix[str2.length][str1.length];
   }
 
-  private resetSilenceTimeout() {
-    // Clear existing timeout
-    if (this.silenceTimeout) {
-      clearTimeout(this.silenceTimeout);
-    }
-    
-    // Set new timeout for 5 seconds of silence (increased from 2 seconds)
-    this.silenceTimeout = setTimeout(() => {
-      console.log('🔇 SILENCE DETECTED - NOTIFYING AI (5 seconds)');
-      this.clearSilenceTimeout(); // Clear to prevent multiple calls
-      
-      // Only send stop-speaking if we haven't already sent a final transcript
-      // AND if there's actual speech content
-      if (!this.hasSentFinalTranscript) {
-        const hasActualSpeech = this.currentTranscript.trim().length > 0;
-        const timeSinceLastSpeech = Date.now() - this.lastSpeechTime;
-        const hasRecentSpeech = timeSinceLastSpeech < 10000; // 10 seconds
-        
-        if (hasActualSpeech && hasRecentSpeech) {
-          console.log('🛑 Silence detected, sending transcript:', this.currentTranscript.trim());
-          stopSpeaking(this.currentTranscript.trim());
-        } else {
-          console.log('🔇 Silence detected but no actual speech, not sending transcript');
-          console.log('🔍 Silence check:', { 
-            hasActualSpeech, 
-            hasRecentSpeech, 
-            timeSinceLastSpeech: `${timeSinceLastSpeech}ms`,
-            currentTranscript: `"${this.currentTranscript.trim()}"`
-          });
-        }
-      }
-    }, 5000); // Changed from 2000 to 5000 ms
-  }
-
-  private clearSilenceTimeout() {
-    if (this.silenceTimeout) {
-      clearTimeout(this.silenceTimeout);
-      this.silenceTimeout = null;
-    }
-  }
-
   private startStuckDetection() {
     // Clear any existing stuck detection timeout
     if (this.stuckDetectionTimeout) {
@@ -410,7 +408,7 @@ export class SpeechRecognitionService {
     
     // Set timeout to detect if recognition gets stuck (30 seconds)
     this.stuckDetectionTimeout = setTimeout(() => {
-      if (this.isListening && !this.hasSentFinalTranscript) {
+      if (this.isListening && this.isUserTurn()) {
         console.log('⚠️ SPEECH RECOGNITION STUCK - Force restarting');
         this.forceRestart();
       }
@@ -429,7 +427,6 @@ export class SpeechRecognitionService {
     this.transcriptHistory.clear();
     this.lastFinalTranscript = '';
     this.currentTranscript = '';
-    this.hasSentFinalTranscript = false;
     this.lastSentTranscript = '';
     this.lastUpdateTime = 0;
     this.clearStuckDetection();
@@ -442,16 +439,14 @@ export class SpeechRecognitionService {
   forceRestart() {
     console.log('🔄 FORCE RESTARTING SPEECH RECOGNITION');
     this.isListening = false;
-    this.hasSentFinalTranscript = false;
     this.currentTranscript = '';
     this.lastFinalTranscript = '';
-    this.clearSilenceTimeout();
     this.clearStuckDetection();
     
     // Stop any existing recognition
-    if (this.recognition) {
+    if (this.provider) {
       try {
-        this.recognition.stop();
+        this.provider.stop();
       } catch (error) {
         console.log('Error stopping recognition during force restart:', error);
       }
@@ -466,14 +461,12 @@ export class SpeechRecognitionService {
   // Method to reset for new query (called after AI finishes speaking)
   resetForNewQuery() {
     this.clearHistory();
-    this.clearSilenceTimeout();
     this.clearStuckDetection();
     // Don't set isListening = false - keep listening for continuous conversation
-    this.hasSentFinalTranscript = false; // Reset flag for new query
     console.log('🔄 SPEECH RECOGNITION RESET FOR NEW QUERY');
     
     // Ensure speech recognition is actually running for continuous conversation
-    if (!this.isListening && this.recognition) {
+    if (!this.isListening && this.isAvailable()) {
       console.log('🔄 RESTARTING SPEECH RECOGNITION AFTER RESET');
       setTimeout(() => {
         this.start();
@@ -0,0 +1,39 @@
+import { Unsubscribe } from './eventBus';
+
+export type TranscriptionProviderId = 'web-speech' | 'server' | 'mock';
+
+export interface TranscriptionResult {
+  transcript: string;
+  isFinal: boolean;
+  confidence: number | null; // null when the engine doesn't report one
+}
+
+export interface TranscriptionError {
+  code: string; // Web Speech error names ('not-allowed', 'no-speech', ...) or the adapter's own
+  message?: string;
+}
+
+export type TranscriptionProviderEvents = {
+  result: TranscriptionResult;
+  error: TranscriptionError;
+  end: void; // The engine stopped listening, after stop() or on its own
+};
+
+/**
+ * A speech-to-text engine behind SpeechRecognitionService.
+ *
+ * Adapters only turn engine output into results; turn-taking, de-duplication and
+ * stop-speaking stay in the service so every engine behaves the same in a conversation.
+ */
+export interface TranscriptionProvider {
+  readonly id: TranscriptionProviderId;
+  readonly label: string;
+  isSupported(): boolean;
+  start(): void; // May throw if the engine refuses to start
+  stop(): void;
+  setLanguage?(language: string): void; // BCP-47 tag; takes effect on the next start(). Server engines get it over the socket instead
+  on<K extends keyof TranscriptionProviderEvents & string>(
+    event: K,
+    listener: (payload: TranscriptionProviderEvents[K]) => void
+  ): Unsubscribe;
+}
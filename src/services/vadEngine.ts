@@ -0,0 +1,18 @@
+export type VadEngineId = 'spectral' | 'onnx';
+
+/**
+ * A voice activity detector behind VoiceActivityDetection.
+ *
+ * Engines only score frames; speech start/end decisions (thresholds, minimum speech and
+ * silence durations) stay in the service so every engine drives the conversation the same way.
+ */
+export interface VadEngine {
+  readonly id: VadEngineId;
+  readonly label: string;
+  readonly sampleRate: number; // Frames are delivered mono at this rate
+  readonly frameSize: number; // Samples per frame
+  isSupported(): boolean;
+  load(): Promise<void>; // Safe to call repeatedly; rejects if the engine can't run here
+  process(frame: Float32Array): number | Promise<number>; // Speech probability 0..1 for one frame
+  reset(): void; // Forget per-stream state between captures
+}
@@ -1,135 +1,503 @@
+import pcmCaptureProcessorUrl from '../worklets/pcm-capture-processor.js?url';
+import { EventBus, Unsubscribe } from './eventBus';
+import { resampleLinear } from './audioFormat';
+import { VadEngine, VadEngineId } from './vadEngine';
+import { SpectralVadEngine } from './spectralVadEngine';
+import { OnnxVadEngine } from './onnxVadEngine';
+import { EchoGate, EchoGateStats } from './echoGate';
+import { microphoneManager, MicrophoneLease } from './microphoneManager';
+
+export interface VadOptions {
+  positiveThreshold: number; // Probability at or above which a frame counts as speech
+  negativeThreshold: number; // Probability below which it counts as silence; in between holds the current state
+  minSpeechDuration: number; // ms of speech before speech-start fires
+  minSilenceDuration: number; // ms of silence before speech-end fires
+}
+
+export interface VadFrame {
+  probability: number; // After echo suppression
+  rawProbability: number; // What the engine scored
+  echoSuppressed: boolean;
+  isSpeaking: boolean;
+  timestamp: number;
+}
+
+export type VadEvents = {
+  'speech-start': { timestamp: number };
+  'speech-end': { timestamp: number; duration: number };
+  frame: VadFrame;
+};
+
+export interface VadEngineInfo {
+  id: VadEngineId;
+  label: string;
+  isSupported: boolean;
+}
+
+const DEFAULT_OPTIONS: VadOptions = {
+  positiveThreshold: 0.5,
+  negativeThreshold: 0.35,
+  minSpeechDuration: 200,
+  minSilenceDuration: 1000,
+};
+
+const MAX_BACKLOG = 8; // Frames allowed to queue behind a slow engine before new ones are dropped
+
+interface VadGraph {
+  context: AudioContext;
+  sourceNode: MediaStreamAudioSourceNode;
+  workletNode: AudioWorkletNode | null;
+  analyser: AnalyserNode | null;
+  intervalId: ReturnType<typeof setInterval> | null;
+  referenceSource: MediaStreamAudioSourceNode | null; // Playback, framed alongside the mic for the echo gate
+  referenceNode: AudioWorkletNode | null;
+}
+
+export interface VadStats {
+  engine: VadEngineId;
+  isRunning: boolean;
+  isSpeaking: boolean;
+  probability: number;
+  framesProcessed: number;
+  droppedFrames: number;
+  hasPlaybackReference: boolean;
+  suppressedFrames: number; // Speech-scored frames dropped as echo of the playback
+  suppressedDetections: number; // Runs of them, i.e. would-be detections
+  echo: EchoGateStats;
+}
+
+// Int16 frame from the capture worklet to floats
+function toFloatFrame(buffer: ArrayBuffer): Float32Array {
+  const pcm = new Int16Array(buffer);
+  const frame = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    frame[i] = pcm[i] / 0x8000;
+  }
+  return frame;
+}
+
+/**
+ * Voice activity detection on the microphone stream.
+ *
+ * Frames are pulled from the stream at the engine's rate (through the PCM capture worklet,
+ * or an AnalyserNode where AudioWorklet is missing), scored by the active VadEngine, and
+ * turned into speech-start / speech-end events with hysteresis and minimum durations.
+ * Given the playback signal as a reference, frames that are only the AI's voice coming
+ * back through the mic are gated out before they can count as speech.
+ */
 export class VoiceActivityDetection {
-  private audioContext: AudioContext | null = null;
-  private analyser: AnalyserNode | null = null;
-  private microphone: MediaStreamAudioSourceNode | null = null;
-  private stream: MediaStream | null = null;
-  private isListening: boolean = false;
-  private animationFrame: number | null = null;
-  
-  // VAD parameters
-  private readonly SAMPLE_RATE = 48000;
-  private readonly FFT_SIZE = 2048;
-  private readonly SILENCE_THRESHOLD = -50; // dB
-  private readonly SPEECH_THRESHOLD = -35; // dB
-  private readonly MIN_SPEECH_DURATION = 200; // ms
-  private readonly MIN_SILENCE_DURATION = 1000; // ms - increased from 500ms to 1 second
-  
-  private lastSpeechTime: number = 0;
-  private lastSilenceTime: number = 0;
+  private engines: Map<VadEngineId, VadEngine> = new Map();
+  private engine: VadEngine;
+  private options: VadOptions = { ...DEFAULT_OPTIONS };
+  private events = new EventBus<VadEvents>('voiceActivityDetection');
+  private echoGate = new EchoGate();
+  private playbackReference: MediaStream | null = null;
+  private graph: VadGraph | null = null;
+  private microphone: MicrophoneLease | null = null;
+  private unsubscribeMicrophone: Unsubscribe | null = null;
+  private generation: number = 0; // Bumped on stop so frames from an old graph are ignored
+  private processing: Promise<void> = Promise.resolve();
+  private backlog: number = 0;
+
   private isSpeaking: boolean = false;
-  public onSpeechStart?: () => void;
-  public onSpeechEnd?: () => void;
+  private probability: number = 0;
+  private speechRun: number = 0; // ms of consecutive speech frames
+  private silenceRun: number = 0; // ms of consecutive silence frames
+  private speechStartTime: number = 0;
+  private framesProcessed: number = 0;
+  private droppedFrames: number = 0;
+  private suppressedFrames: number = 0;
+  private suppressedDetections: number = 0;
+  private wasSuppressed: boolean = false;
+
+  constructor() {
+    this.registerEngine(new SpectralVadEngine());
+    this.registerEngine(new OnnxVadEngine());
+
+    const preferred = import.meta.env.VITE_VAD_ENGINE as VadEngineId | undefined;
+    this.engine = (preferred && this.engines.get(preferred)?.isSupported() && this.engines.get(preferred)) || this.engines.get('spectral')!;
+  }
+
+  // Add (or replace) an engine
+  registerEngine(engine: VadEngine): void {
+    this.engines.set(engine.id, engine);
+    if (this.engine?.id === engine.id) {
+      this.engine = engine;
+    }
+  }
+
+  // Switch engines; a running detector restarts on the shared mic
+  async setEngine(id: VadEngineId): Promise<boolean> {
+    const engine = this.engines.get(id);
+    if (!engine || !engine.isSupported()) {
+      console.warn(`⚠️ VAD engine "${id}" is not available`);
+      return false;
+    }
+
+    this.engine = engine;
+    console.log(`🎚️ VAD engine: ${engine.label}`);
+    if (this.microphone) {
+      await this.start();
+    }
+    return this.engine.id === id;
+  }
+
+  getEngineId(): VadEngineId {
+    return this.engine.id;
+  }
+
+  getEngine<T extends VadEngine = VadEngine>(id?: VadEngineId): T | null {
+    return ((id ? this.engines.get(id) : this.engine) as T) || null;
+  }
+
+  getEngines(): VadEngineInfo[] {
+    return Array.from(this.engines.values()).map((engine) => ({
+      id: engine.id,
+      label: engine.label,
+      isSupported: engine.isSupported(),
+    }));
+  }
+
+  configure(options: Partial<VadOptions>): void {
+    this.options = { ...this.options, ...options };
+    console.log('🔧 VAD config updated:', this.options);
+  }
+
+  getOptions(): VadOptions {
+    return { ...this.options };
+  }
+
+  // Playback to gate against, e.g. audioService.getPlaybackReference(); null turns echo gating off
+  setPlaybackReference(stream: MediaStream | null): void {
+    if (stream === this.playbackReference) return;
+    this.playbackReference = stream;
+    this.echoGate.reset();
+
+    if (this.graph) {
+      this.detachReference(this.graph);
+      if (stream && this.graph.workletNode) {
+        this.attachReference(this.graph, stream, this.engine);
+      }
+    }
+  }
+
+  getEchoGate(): EchoGate {
+    return this.echoGate;
+  }
+
+  // Listen on the shared microphone, opening it if nothing else has
+  async start(): Promise<void> {
+    this.stop();
+    const generation = this.generation;
+    const microphone = await microphoneManager.acquire('vad');
+    if (generation !== this.generation) {
+      microphone.release();
+      return;
+    }
+    this.microphone = microphone;
+    this.unsubscribeMicrophone = microphoneManager.on('stream-change', () => {
+      this.rebuildGraph().catch((error) => console.error('Error moving VAD to the new microphone:', error));
+    });
 
-  async start(stream: MediaStream): Promise<void> {
     try {
-      this.stream = stream;
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: this.SAMPLE_RATE
-      });
-      
-      this.analyser = this.audioContext.createAnalyser();
-      this.analyser.fftSize = this.FFT_SIZE;
-      this.analyser.smoothingTimeConstant = 0.8;
-      
-      this.microphone = this.audioContext.createMediaStreamSource(stream);
-      this.microphone.connect(this.analyser);
-      
-      this.isListening = true;
-      this.detectVoiceActivity();
-      
-      console.log('🎤 Voice Activity Detection started');
+      await this.engine.load();
+    } catch (error) {
+      if (this.engine.id === 'spectral') throw error;
+      console.warn(`⚠️ VAD engine "${this.engine.id}" failed to load, falling back to spectral:`, error);
+      this.engine = this.engines.get('spectral')!;
+    }
+    if (generation !== this.generation) return; // Stopped while the model loaded
+
+    this.engine.reset();
+    this.echoGate.reset();
+    try {
+      const graph = await this.createGraph(microphone, this.engine, generation);
+      if (generation !== this.generation) {
+        this.closeGraph(graph);
+        return;
+      }
+      this.graph = graph;
+      console.log(`🎤 Voice Activity Detection started (${this.engine.id}, ${this.graph.workletNode ? 'worklet' : 'analyser'})`);
     } catch (error) {
       console.error('Error starting VAD:', error);
+      if (generation === this.generation) {
+        this.releaseMicrophone();
+      }
       throw error;
     }
   }
 
+  // The mic moved to another device: same engine and speech state, new source
+  private async rebuildGraph(): Promise<void> {
+    if (!this.microphone || !this.graph) return;
+
+    const generation = ++this.generation;
+    this.closeGraph(this.graph);
+    this.graph = null;
+    this.backlog = 0;
+    const graph = await this.createGraph(this.microphone, this.engine, generation);
+    if (generation !== this.generation) {
+      this.closeGraph(graph);
+      return;
+    }
+    this.graph = graph;
+    console.log('🎤 Voice Activity Detection moved to the new microphone');
+  }
+
   stop(): void {
-    this.isListening = false;
-    
-    if (this.animationFrame) {
-      cancelAnimationFrame(this.animationFrame);
-      this.animationFrame = null;
+    this.generation++;
+    if (this.graph) {
+      this.closeGraph(this.graph);
+      this.graph = null;
+      console.log('🛑 Voice Activity Detection stopped');
     }
-    
-    if (this.microphone) {
-      this.microphone.disconnect();
-      this.microphone = null;
-    }
-    
-    if (this.analyser) {
-      this.analyser.disconnect();
-      this.analyser = null;
-    }
-    
-    if (this.audioContext && this.audioContext.state !== 'closed') {
-      this.audioContext.close().catch(err => {
-        console.warn('Error closing VAD audio context:', err);
-      });
-      this.audioContext = null;
+
+    if (this.isSpeaking) {
+      this.endSpeech(Date.now());
     }
-    
-    this.stream = null;
-    this.isSpeaking = false;
-    console.log('🛑 Voice Activity Detection stopped');
+    this.releaseMicrophone();
+    this.probability = 0;
+    this.speechRun = 0;
+    this.silenceRun = 0;
+    this.backlog = 0;
+    this.wasSuppressed = false;
+  }
+
+  private releaseMicrophone(): void {
+    this.unsubscribeMicrophone?.();
+    this.unsubscribeMicrophone = null;
+    this.microphone?.release();
+    this.microphone = null;
   }
 
-  private detectVoiceActivity(): void {
-    if (!this.isListening || !this.analyser) return;
+  onSpeechStart(callback: () => void): Unsubscribe {
+    return this.events.on('speech-start', () => callback());
+  }
 
-    const dataArray = new Uint8Array(this.analyser.frequencyBinCount);
-    this.analyser.getByteFrequencyData(dataArray);
-    
-    // Calculate RMS (Root Mean Square) for volume detection
-    let sum = 0;
-    for (let i = 0; i < dataArray.length; i++) {
-      sum += dataArray[i] * dataArray[i];
-    }
-    const rms = Math.sqrt(sum / dataArray.length);
-    const db = 20 * Math.log10(rms / 255);
-    
-    const now = Date.now();
-    
-    if (db > this.SPEECH_THRESHOLD) {
-      // Speech detected
-      this.lastSpeechTime = now;
-      
-      if (!this.isSpeaking) {
-        const silenceDuration = now - this.lastSilenceTime;
-        if (silenceDuration > this.MIN_SILENCE_DURATION) {
-          this.isSpeaking = true;
-          console.log('🗣️ SPEECH STARTED (VAD)');
-          this.onSpeechStart?.();
-        }
+  onSpeechEnd(callback: () => void): Unsubscribe {
+    return this.events.on('speech-end', () => callback());
+  }
+
+  // Every scored frame; for meters and for features that need the raw probability
+  onFrame(callback: (frame: VadFrame) => void): Unsubscribe {
+    return this.events.on('frame', callback);
+  }
+
+  on<K extends keyof VadEvents & string>(event: K, listener: (payload: VadEvents[K]) => void): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  isCurrentlySpeaking(): boolean {
+    return this.isSpeaking;
+  }
+
+  isRunning(): boolean {
+    return this.graph !== null;
+  }
+
+  getProbability(): number {
+    return this.probability;
+  }
+
+  getStats(): VadStats {
+    return {
+      engine: this.engine.id,
+      isRunning: this.isRunning(),
+      isSpeaking: this.isSpeaking,
+      probability: this.probability,
+      framesProcessed: this.framesProcessed,
+      droppedFrames: this.droppedFrames,
+      hasPlaybackReference: !!this.graph?.referenceNode,
+      suppressedFrames: this.suppressedFrames,
+      suppressedDetections: this.suppressedDetections,
+      echo: this.echoGate.getStats(),
+    };
+  }
+
+  private async createGraph(microphone: MicrophoneLease, engine: VadEngine, generation: number): Promise<VadGraph> {
+    // The shared mic context runs at the device rate; the worklet decimates to the engine's rate
+    const context = microphone.getContext();
+    const graph: VadGraph = {
+      context,
+      sourceNode: microphone.createSource(),
+      workletNode: null,
+      analyser: null,
+      intervalId: null,
+      referenceSource: null,
+      referenceNode: null,
+    };
+
+    try {
+      if (typeof AudioWorkletNode === 'undefined') {
+        throw new Error('AudioWorklet not supported');
       }
-    } else if (db < this.SILENCE_THRESHOLD) {
-      // Silence detected
-      this.lastSilenceTime = now;
-      
-      if (this.isSpeaking) {
-        const speechDuration = now - this.lastSpeechTime;
-        if (speechDuration > this.MIN_SPEECH_DURATION) {
-          this.isSpeaking = false;
-          console.log('🔇 SPEECH ENDED (VAD)');
-          this.onSpeechEnd?.();
-        }
+      await microphone.addModule(pcmCaptureProcessorUrl);
+      graph.workletNode = new AudioWorkletNode(context, 'pcm-capture', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCountMode: 'explicit',
+        channelCount: 1,
+        processorOptions: { targetSampleRate: engine.sampleRate, frameSamples: engine.frameSize },
+      });
+      graph.workletNode.port.onmessage = (event) => {
+        if (event.data?.type !== 'frame') return;
+        this.enqueue(toFloatFrame(event.data.buffer as ArrayBuffer), engine, generation);
+      };
+      graph.sourceNode.connect(graph.workletNode);
+
+      if (this.playbackReference) {
+        this.attachReference(graph, this.playbackReference, engine);
       }
+    } catch (error) {
+      console.warn('⚠️ VAD worklet unavailable, polling an AnalyserNode instead:', error);
+      this.startAnalyser(graph, engine, generation);
+    }
+
+    if (context.state === 'suspended') {
+      await context.resume();
     }
-    
-    this.animationFrame = requestAnimationFrame(() => this.detectVoiceActivity());
+    return graph;
   }
 
-  onSpeechStart(callback: () => void): void {
-    this.onSpeechStart = callback;
+  // Fallback source: sample the analyser's time-domain buffer once per frame period
+  private startAnalyser(graph: VadGraph, engine: VadEngine, generation: number): void {
+    const frameMs = (engine.frameSize / engine.sampleRate) * 1000;
+    const inputSamples = Math.ceil((engine.frameSize * graph.context.sampleRate) / engine.sampleRate);
+    const analyser = graph.context.createAnalyser();
+    analyser.fftSize = Math.min(32768, 2 ** Math.ceil(Math.log2(inputSamples)));
+    analyser.smoothingTimeConstant = 0;
+    graph.sourceNode.connect(analyser);
+    graph.analyser = analyser;
+
+    const buffer = new Float32Array(analyser.fftSize);
+    graph.intervalId = setInterval(() => {
+      analyser.getFloatTimeDomainData(buffer);
+      const recent = buffer.subarray(buffer.length - Math.min(inputSamples, buffer.length));
+      const frame = resampleLinear(recent, graph.context.sampleRate, engine.sampleRate).subarray(0, engine.frameSize);
+      this.enqueue(frame, engine, generation);
+    }, frameMs);
   }
 
-  onSpeechEnd(callback: () => void): void {
-    this.onSpeechEnd = callback;
+  // Frame the playback exactly like the mic, in the same context, so the two stay in step
+  private attachReference(graph: VadGraph, stream: MediaStream, engine: VadEngine): void {
+    try {
+      graph.referenceSource = graph.context.createMediaStreamSource(stream);
+      graph.referenceNode = new AudioWorkletNode(graph.context, 'pcm-capture', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCountMode: 'explicit',
+        channelCount: 1,
+        processorOptions: { targetSampleRate: engine.sampleRate, frameSamples: engine.frameSize },
+      });
+      graph.referenceNode.port.onmessage = (event) => {
+        if (event.data?.type === 'frame') {
+          this.echoGate.pushReference(toFloatFrame(event.data.buffer as ArrayBuffer));
+        }
+      };
+      graph.referenceSource.connect(graph.referenceNode);
+      console.log('🔁 VAD echo gating against playback reference');
+    } catch (error) {
+      console.warn('⚠️ Could not attach playback reference, echo gating off:', error);
+      this.detachReference(graph);
+    }
   }
 
-  isCurrentlySpeaking(): boolean {
-    return this.isSpeaking;
+  private detachReference(graph: VadGraph): void {
+    if (graph.referenceNode) {
+      graph.referenceNode.port.onmessage = null;
+      graph.referenceNode.disconnect();
+      graph.referenceNode = null;
+    }
+    graph.referenceSource?.disconnect();
+    graph.referenceSource = null;
+  }
+
+  private closeGraph(graph: VadGraph): void {
+    if (graph.intervalId) {
+      clearInterval(graph.intervalId);
+    }
+    this.detachReference(graph);
+    if (graph.workletNode) {
+      graph.workletNode.port.onmessage = null;
+      graph.workletNode.disconnect();
+    }
+    graph.analyser?.disconnect();
+    graph.sourceNode.disconnect();
+  }
+
+  // Frames are scored in order; a model that can't keep up drops frames instead of lagging further
+  private enqueue(frame: Float32Array, engine: VadEngine, generation: number): void {
+    if (this.backlog >= MAX_BACKLOG) {
+      this.droppedFrames++;
+      return;
+    }
+
+    // Judged on arrival, against the reference frames that arrived with it
+    const isEcho = this.echoGate.isEcho(frame);
+
+    this.backlog++;
+    this.processing = this.processing
+      .then(async () => {
+        if (generation !== this.generation) return;
+        const probability = await engine.process(frame);
+        if (generation !== this.generation) return;
+        this.handleProbability(probability, isEcho, (frame.length / engine.sampleRate) * 1000);
+      })
+      .catch((error) => {
+        console.error('❌ VAD frame processing failed:', error);
+      })
+      .finally(() => {
+        if (generation === this.generation) {
+          this.backlog--;
+        }
+      });
+  }
+
+  private handleProbability(rawProbability: number, isEcho: boolean, frameMs: number): void {
+    const now = Date.now();
+    this.framesProcessed++;
+
+    // Echo counts as silence, so playback can neither start a detection nor keep one going
+    const echoSuppressed = isEcho && rawProbability >= this.options.negativeThreshold;
+    const probability = echoSuppressed ? 0 : rawProbability;
+    this.probability = probability;
+    if (echoSuppressed && rawProbability >= this.options.positiveThreshold) {
+      this.suppressedFrames++;
+      if (!this.wasSuppressed) {
+        this.suppressedDetections++;
+      }
+      this.wasSuppressed = true;
+    } else if (!echoSuppressed) {
+      this.wasSuppressed = false;
+    }
+
+    if (probability >= this.options.positiveThreshold) {
+      this.speechRun += frameMs;
+      this.silenceRun = 0;
+      if (!this.isSpeaking && this.speechRun >= this.options.minSpeechDuration) {
+        this.isSpeaking = true;
+        this.speechStartTime = now - this.speechRun;
+        console.log('🗣️ SPEECH STARTED (VAD)');
+        this.events.emit('speech-start', { timestamp: now });
+      }
+    } else if (probability < this.options.negativeThreshold) {
+      this.silenceRun += frameMs;
+      if (!this.isSpeaking) {
+        this.speechRun = 0;
+      } else if (this.silenceRun >= this.options.minSilenceDuration) {
+        this.endSpeech(now);
+      }
+    }
+
+    this.events.emit('frame', { probability, rawProbability, echoSuppressed, isSpeaking: this.isSpeaking, timestamp: now });
+  }
+
+  private endSpeech(now: number): void {
+    this.isSpeaking = false;
+    this.speechRun = 0;
+    console.log('🔇 SPEECH ENDED (VAD)');
+    this.events.emit('speech-end', { timestamp: now, duration: now - this.speechStartTime });
   }
 }
 
-export const voiceActivityDetection = new VoiceActivityDetection(); 
\ No newline at end of file
+export const voiceActivityDetection = new VoiceActivityDetection();
@@ -0,0 +1,712 @@
+import { socketService, type Unsubscribe } from './socketService';
+import { speechRecognition } from './speechRecognition';
+import { audioService } from './audioService';
+import { CaptureFormat, CaptureOptions } from './audioCapture';
+import { ExternalStore } from './externalStore';
+import { InputMode, voiceSettings } from './voiceSettings';
+import { NoiseCalibrationResult, noiseCalibration } from './noiseCalibration';
+import { voiceActivityDetection } from './voiceActivityDetection';
+import { bargeInController } from './bargeInController';
+import { endpointing } from './endpointing';
+import { conversationStore } from './conversationStore';
+import { conversationHistory } from './conversationHistory';
+import { audioDevices } from './audioDevices';
+import { microphoneManager, MicrophoneLease } from './microphoneManager';
+import { ACTIVE_CONVERSATION_PHASES, ConversationPhase, ConversationTransition, USER_TURN_PHASES, conversationState } from './conversationStateMachine';
+
+export type VoiceSessionErrorSource = 'connection' | 'session' | 'protocol' | 'socket' | 'microphone' | 'recognition';
+
+export interface VoiceSessionError {
+  source: VoiceSessionErrorSource;
+  title: string;
+  message: string;
+  recovering: boolean; // The controller is already retrying on its own
+  timestamp: number;
+}
+
+export interface VoiceSessionState {
+  phase: ConversationPhase;
+  isMicOn: boolean; // Derived from the phase: the mic is on while a conversation is active
+  isToggling: boolean;
+  connectionAttempts: number;
+  captureFormat: CaptureFormat | null; // How the mic is being streamed while it is on
+  inputMode: InputMode;
+  isTransmitting: boolean; // Audio is reaching the backend; in hands-free, whenever the mic is on
+  inputDeviceLabel: string | null; // The mic in use while it is on; null before the browser reveals labels
+  error: VoiceSessionError | null;
+}
+
+export type TranscriptSource = 'user' | 'heard' | 'ai';
+
+export interface TranscriptState {
+  text: string;
+  source: TranscriptSource | null;
+  isFinal: boolean;
+  updatedAt: number;
+}
+
+const MAX_CONNECTION_ATTEMPTS = 3;
+const RELEASE_TAIL_MS = 300; // Keep streaming briefly after push-to-talk is released; people let go on the last word
+const RELEASE_GRACE_MS = 500; // Then give recognition time to deliver its final result before ending the turn
+const WAKE_IDLE_MS = 4000; // Wake-on-voice goes back to waiting if nothing was recognized this long after speech stopped
+
+const initialSessionState: VoiceSessionState = {
+  phase: 'idle',
+  isMicOn: false,
+  isToggling: false,
+  connectionAttempts: 0,
+  captureFormat: null,
+  inputMode: 'hands-free',
+  isTransmitting: false,
+  inputDeviceLabel: null,
+  error: null,
+};
+
+const initialTranscriptState: TranscriptState = {
+  text: '',
+  source: null,
+  isFinal: false,
+  updatedAt: 0,
+};
+
+/**
+ * Owns the mic lifecycle that used to live inside MicButton: connecting, starting and
+ * stopping capture + recognition, feeding AI audio into AudioService and resetting the
+ * services between turns. State is published through stores so UIs can render it via
+ * the `useVoiceSession` / `useTranscript` hooks instead of wiring the services themselves.
+ */
+export class VoiceSessionController {
+  private store = new ExternalStore<VoiceSessionState>(initialSessionState);
+  private transcriptStore = new ExternalStore<TranscriptState>(initialTranscriptState);
+  private microphone: MicrophoneLease | null = null;
+  private attachCount = 0;
+  private unsubscribers: Unsubscribe[] = [];
+  private reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private releaseTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private wakeIdleTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private isTalkHeld: boolean = false;
+  private restartAfterReconnect: boolean = false; // The connection dropped mid-conversation; turn the mic back on when it returns
+  private handledResumeSessionId: string | null = null; // A resumed session keeps its conversation on the first start only
+  private isRestoringAfterReconnect: boolean = false; // The reconnect already resumed or restarted the conversation
+
+  subscribe = (listener: () => void): Unsubscribe => this.store.subscribe(listener);
+  getSnapshot = (): VoiceSessionState => this.store.getSnapshot();
+  subscribeTranscript = (listener: () => void): Unsubscribe => this.transcriptStore.subscribe(listener);
+  getTranscriptSnapshot = (): TranscriptState => this.transcriptStore.getSnapshot();
+
+  // Wire the services together; reference counted so several components can attach
+  attach(): Unsubscribe {
+    this.attachCount++;
+    if (this.attachCount === 1) {
+      this.setupListeners();
+    }
+
+    let detached = false;
+    return () => {
+      if (detached) return;
+      detached = true;
+      this.attachCount--;
+      if (this.attachCount === 0) {
+        this.teardown();
+      }
+    };
+  }
+
+  async connect(): Promise<boolean> {
+    // Prevent multiple simultaneous connection attempts
+    if (socketService.isConnecting() || socketService.isConnected()) {
+      console.log('🔌 Connection already in progress or established, skipping...');
+      return socketService.isConnected();
+    }
+
+    const attempt = this.store.getSnapshot().connectionAttempts + 1;
+    this.store.setState({ connectionAttempts: attempt });
+    console.log(`🔌 Attempting connection #${attempt}...`);
+
+    try {
+      await socketService.connect();
+      // A resumed backend session still has its conversation
+      if (!socketService.getConnectionSnapshot().sessionResumed) {
+        socketService.startConversation();
+      }
+      console.log('✅ Connection established successfully');
+      return true;
+    } catch (error) {
+      console.error('Failed to connect:', error);
+      this.reportError(
+        'connection',
+        'Connection Failed',
+        attempt < MAX_CONNECTION_ATTEMPTS
+          ? `Retrying connection (${attempt}/${MAX_CONNECTION_ATTEMPTS})...`
+          : 'Could not connect to voice server. Please refresh the page.'
+      );
+      return false;
+    }
+  }
+
+  // Turn the mic on: permission, connection, fresh backend session, capture and recognition
+  async start(capture: Partial<CaptureOptions> = {}): Promise<boolean> {
+    const isRestoring = this.isRestoringAfterReconnect;
+    this.isRestoringAfterReconnect = false;
+    const { isMicOn, isToggling } = this.store.getSnapshot();
+    if (isMicOn || isToggling) return isMicOn;
+
+    this.store.setState({ isToggling: true });
+    this.restartAfterReconnect = false;
+    try {
+      // Turning the mic back on is how the user recovers from an error
+      if (conversationState.is('error')) {
+        conversationState.send('reset', 'voiceSession');
+      }
+
+      // Audio can only be unlocked from a user gesture, which is where start() is called from
+      await audioService.initialize();
+      await audioService.resumeAudioContext();
+
+      try {
+        this.microphone = await microphoneManager.acquire('voice-session');
+        this.syncInputDeviceLabel();
+      } catch (error) {
+        console.error('Microphone permission denied:', error);
+        this.reportError('microphone', 'Microphone Access Required', 'Please grant microphone permission to use voice features.');
+        conversationState.send('fail', 'voiceSession', 'microphone permission denied');
+        return false;
+      }
+
+      // First use of this mic measures the room before listening starts, so the user's speech
+      // isn't taken for background noise; later sessions reuse the stored result. Push-to-talk
+      // starts with the key already held and the user talking, so it never measures on its own
+      if (this.store.getSnapshot().inputMode === 'push-to-talk') {
+        noiseCalibration.applyStored();
+      } else {
+        await noiseCalibration.ensureCalibrated();
+      }
+
+      if (!socketService.isConnected() && !socketService.isConnecting()) {
+        await this.connect();
+      }
+
+      if (!socketService.isConnected()) {
+        this.releaseMediaStream();
+        this.reportError('connection', 'Connection Required', 'Please wait for connection to establish');
+        return false;
+      }
+
+      // Force a complete session reset to ensure clean state after any potential interruption,
+      // unless the backend just reattached the session a dropped connection left behind, or the
+      // reconnect has already started the conversation over on a new one
+      const { sessionResumed, sessionId } = socketService.getConnectionSnapshot();
+      if (isRestoring || (sessionResumed && sessionId !== this.handledResumeSessionId)) {
+        this.handledResumeSessionId = sessionId;
+        console.log(`♻️ Continuing session ${sessionId} as the reconnect left it`);
+      } else {
+        console.log('🔄 FORCING COMPLETE SESSION RESET');
+        socketService.forceSessionReset();
+      }
+      audioService.resetForContinuousConversation();
+
+      const { inputMode } = this.store.getSnapshot();
+      try {
+        const captureFormat = await socketService.startRecording(capture);
+        // Push-to-talk and wake-on-voice keep the mic open but send nothing until the user talks
+        if (inputMode !== 'hands-free') {
+          socketService.pauseRecording();
+        }
+        this.store.setState({ captureFormat, isTransmitting: inputMode === 'hands-free' });
+      } catch (error) {
+        this.releaseMediaStream();
+        this.reportError('microphone', 'Microphone Access Required', 'Please grant microphone permission to use voice features.');
+        conversationState.send('fail', 'voiceSession', 'recording could not start');
+        return false;
+      }
+
+      // Recognition reads the phase to know it holds the turn, so enter listening first
+      conversationState.send('mic-on', 'voiceSession');
+
+      // Clear speech recognition history for new conversation
+      speechRecognition.clearHistory();
+      if (inputMode === 'hands-free' && speechRecognition.isAvailable()) {
+        speechRecognition.start();
+      }
+
+      // VAD drives barge-in and wake-on-voice; push-to-talk doesn't need it. The conversation
+      // still works without it, just without talking over the AI
+      if (inputMode !== 'push-to-talk') {
+        this.startVoiceActivityDetection();
+      }
+
+      this.store.setState({ error: null });
+      return true;
+    } finally {
+      this.store.setState({ isToggling: false });
+    }
+  }
+
+  // Turn the mic off; always stops the AI as well, matching the button's behaviour
+  async stop(): Promise<void> {
+    const { isMicOn, isToggling } = this.store.getSnapshot();
+    if (!isMicOn || isToggling) return;
+
+    this.store.setState({ isToggling: true });
+    try {
+      console.log('🎤 Turning mic OFF - stopping AI if speaking');
+      this.clearTalkTimers();
+      socketService.stopRecording();
+      speechRecognition.stop();
+      voiceActivityDetection.stop();
+      this.releaseMediaStream();
+      this.store.setState({ captureFormat: null, isTransmitting: false });
+
+      audioService.interrupt();
+      audioService.cleanup();
+      socketService.interrupt();
+
+      conversationState.send('mic-off', 'voiceSession');
+    } finally {
+      this.store.setState({ isToggling: false });
+    }
+  }
+
+  async toggle(): Promise<boolean> {
+    if (this.store.getSnapshot().isMicOn) {
+      await this.stop();
+      return false;
+    }
+    return this.start();
+  }
+
+  // Push-to-talk button or spacebar pressed: turns the mic on if needed, stops the AI and starts streaming
+  async pressToTalk(): Promise<boolean> {
+    if (this.store.getSnapshot().inputMode !== 'push-to-talk') return false;
+    this.isTalkHeld = true;
+
+    if (!this.store.getSnapshot().isMicOn && !(await this.start())) {
+      return false;
+    }
+    // Released while the mic was still starting
+    if (!this.isTalkHeld) return false;
+
+    if (this.releaseTimeoutId) {
+      // Pressed again before the last release ended the turn; carry on with the same turn
+      clearTimeout(this.releaseTimeoutId);
+      this.releaseTimeoutId = null;
+    }
+    if (conversationState.is('awaiting-ai', 'ai-speaking')) {
+      audioService.handleUserInterruption();
+      socketService.interrupt({ reason: 'user' });
+    }
+
+    this.openTransmission(false);
+    return true;
+  }
+
+  // Push-to-talk released: stop streaming after a short tail and end the turn with what was said
+  releaseToTalk(): void {
+    if (!this.isTalkHeld) return;
+    this.isTalkHeld = false;
+    if (!this.store.getSnapshot().isTransmitting || this.releaseTimeoutId) return;
+
+    this.releaseTimeoutId = setTimeout(() => {
+      this.closeTransmission();
+      this.releaseTimeoutId = setTimeout(() => {
+        this.releaseTimeoutId = null;
+        if (!endpointing.commit('manual')) {
+          console.log('🔇 Push-to-talk released without speech, not ending turn');
+        }
+      }, RELEASE_GRACE_MS);
+    }, RELEASE_TAIL_MS);
+  }
+
+  // A typed message in the same session; works with the mic on or off, connecting first if needed
+  async sendText(text: string): Promise<boolean> {
+    const message = text.trim();
+    if (!message) return false;
+
+    // Submitting is a user gesture, so replies can be heard even if the mic was never turned on
+    await audioService.initialize();
+    await audioService.resumeAudioContext();
+
+    if (!socketService.isConnected() && !(await this.connect())) {
+      return false;
+    }
+
+    // Typing over the AI cuts it off, as talking over it would
+    if (conversationState.is('awaiting-ai', 'ai-speaking')) {
+      audioService.handleUserInterruption();
+      socketService.interrupt({ reason: 'user' });
+    }
+
+    // Ends the user's turn if the mic is on; whatever they had started saying is dropped
+    conversationStore.addTypedTurn(message);
+    socketService.sendTextMessage(message);
+    this.setTranscript(message, 'user', true);
+    return true;
+  }
+
+  // Re-measure the room on the live mic, or on the chosen mic when it is off
+  recalibrateNoise(): Promise<NoiseCalibrationResult | null> {
+    return noiseCalibration.calibrate();
+  }
+
+  clearError(): void {
+    this.store.setState({ error: null });
+  }
+
+  private setupListeners(): void {
+    console.log('🎧 Setting up voice session listeners...');
+
+    this.syncPhase(conversationState.getPhase());
+
+    // Before any connect, so the first start-conversation already carries the language
+    this.applyVoiceSettings();
+    this.unsubscribers.push(voiceSettings.subscribe(() => this.applyVoiceSettings()));
+    this.unsubscribers.push(audioDevices.attach());
+    this.unsubscribers.push(audioDevices.on('change', () => this.syncOutputDevice()));
+    this.unsubscribers.push(microphoneManager.subscribe(() => this.syncInputDeviceLabel()));
+    this.unsubscribers.push(microphoneManager.on('stream-change', () => this.handleMicrophoneChange()));
+    this.unsubscribers.push(microphoneManager.on('switch-failed', () => {
+      if (!this.microphone) return;
+      this.reportError('microphone', 'Microphone Unavailable', 'Could not switch to the selected microphone. Turn the mic off and on to try again.');
+    }));
+    this.unsubscribers.push(bargeInController.attach());
+    this.unsubscribers.push(endpointing.attach());
+    this.unsubscribers.push(conversationStore.attach());
+    this.unsubscribers.push(conversationHistory.attach());
+    this.unsubscribers.push(voiceActivityDetection.onSpeechStart(() => this.handleWake()));
+    this.unsubscribers.push(voiceActivityDetection.onSpeechEnd(() => this.scheduleWakeIdle()));
+    this.unsubscribers.push(conversationState.onTransition((transition) => this.handleTransition(transition)));
+
+    this.unsubscribers.push(socketService.onSessionStatus((data) => {
+      if (data.status === 'active') {
+        this.store.setState({ connectionAttempts: 0 });
+      }
+    }));
+
+    this.unsubscribers.push(socketService.onAudioResponse((data) => {
+      if (data.transcript) {
+        this.setTranscript(data.transcript, 'ai', false);
+      }
+      if (data.audio.length > 0) {
+        audioService.playAudioResponse(data.audio, data.index, data.total, data.sessionId, data.format);
+      } else {
+        console.log('❌ No audio data in chunk:', data.index);
+      }
+    }));
+
+    this.unsubscribers.push(socketService.onTranscript((data) => {
+      if (data.text) {
+        this.setTranscript(data.text, 'user', data.isFinal);
+      }
+    }));
+
+    this.unsubscribers.push(socketService.onTranscription((data) => {
+      if (data.language) {
+        voiceSettings.reportDetectedLanguage(data.language);
+      }
+      this.setTranscript(data.text, 'heard', true);
+    }));
+
+    this.unsubscribers.push(socketService.onAIResponseText((data) => {
+      this.setTranscript(data.text, 'ai', true);
+    }));
+
+    this.unsubscribers.push(socketService.onAIFinished(() => {
+      // Start waiting after a short delay to allow audio to finish naturally
+      setTimeout(() => this.resetAfterAIResponse(), 500);
+    }));
+
+    this.unsubscribers.push(socketService.on('reconnectFailed', ({ attempts }) => {
+      this.restartAfterReconnect = false;
+      this.reportError('connection', 'Connection Lost', `Could not reconnect after ${attempts} attempts. Turn the mic on to try again.`);
+    }));
+
+    this.unsubscribers.push(socketService.onError((error) => {
+      if (error.type === 'protocol-error') {
+        // Payloads that broke the protocol contract are reported, not treated as connection loss
+        this.reportError('protocol', 'Protocol Error', error.message || 'Invalid message from voice service');
+      } else if (error.type === 'no-session') {
+        this.handleSessionLost();
+      } else {
+        this.reportError('socket', 'Connection Error', error.message || 'Failed to connect to voice service');
+        conversationState.send('fail', 'voiceSession', error.message || error.type);
+      }
+    }));
+
+    // Registered even when no engine is available yet: the transcription provider can change at runtime
+    speechRecognition.onResult((transcript, isFinal) => {
+      bargeInController.handleUserTranscript(transcript);
+      this.setTranscript(transcript, 'user', isFinal);
+    });
+
+    speechRecognition.onError((error) => {
+      console.error('Speech recognition error:', error);
+      this.reportError('recognition', 'Speech Recognition Error', typeof error === 'string' ? error : String(error?.error || error));
+    });
+  }
+
+  private teardown(): void {
+    console.log('🧹 Voice session teardown - removing listeners');
+    this.restartAfterReconnect = false;
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.clearTalkTimers();
+    if (this.reconnectTimeoutId) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+
+    speechRecognition.stop();
+    voiceActivityDetection.stop();
+    audioService.cleanup();
+    socketService.cleanup();
+    this.releaseMediaStream();
+
+    this.store.setState(initialSessionState);
+    this.transcriptStore.setState(initialTranscriptState);
+  }
+
+  private async resetAfterAIResponse(): Promise<void> {
+    console.log('🎵 Waiting for audio to finish before reset...');
+    const audioFinished = await audioService.waitForAudioToFinish(30000);
+    console.log(audioFinished ? '🎵 Audio finished naturally, proceeding with reset' : '⏰ Audio timeout reached, forcing reset');
+
+    // Reset services for continuous conversation
+    socketService.resetForContinuousConversation();
+    audioService.resetForContinuousConversation();
+
+    // Hand the turn back to the user; rejected (and skipped) if they interrupted or turned the mic off meanwhile
+    if (!conversationState.send('ai-finished', 'voiceSession')) {
+      return;
+    }
+    // Other modes start recognition again when the user next talks
+    if (this.store.getSnapshot().inputMode !== 'hands-free') {
+      speechRecognition.clearHistory();
+      return;
+    }
+    speechRecognition.resetForNewQuery();
+
+    // Recognition restarts itself; this only catches it getting stuck. Reads the live
+    // mic state so a toggle during the AI response is respected.
+    setTimeout(() => {
+      if (this.store.getSnapshot().isMicOn && speechRecognition.isAvailable() && speechRecognition.isCurrentlyListening() && !speechRecognition.isWorking()) {
+        console.log('🔄 FORCE RESTARTING SPEECH RECOGNITION (stuck detection)');
+        speechRecognition.forceRestart();
+      }
+    }, 2000);
+  }
+
+  private handleSessionLost(): void {
+    const { connectionAttempts } = this.store.getSnapshot();
+    conversationState.send('fail', 'voiceSession', 'session lost');
+
+    if (connectionAttempts >= MAX_CONNECTION_ATTEMPTS) {
+      this.reportError('session', 'Connection Failed', 'Too many connection attempts. Please refresh the page.');
+      return;
+    }
+
+    this.reportError('session', 'Session Lost', 'Reconnecting to voice service...', true);
+    if (this.reconnectTimeoutId) {
+      clearTimeout(this.reconnectTimeoutId);
+    }
+    this.reconnectTimeoutId = setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      if (this.attachCount > 0) {
+        this.connect();
+      }
+    }, 2000 * (connectionAttempts + 1)); // Exponential backoff
+  }
+
+  private handleTransition(transition: ConversationTransition): void {
+    this.syncPhase(transition.to);
+
+    // Leaving an active conversation for an error must not leave capture running with nobody listening
+    if (transition.to === 'error' && ACTIVE_CONVERSATION_PHASES.includes(transition.from)) {
+      console.log('🛑 Conversation entered error state, releasing microphone');
+      this.clearTalkTimers();
+      socketService.stopRecording();
+      speechRecognition.stop();
+      voiceActivityDetection.stop();
+      audioService.interrupt();
+      this.releaseMediaStream();
+      this.store.setState({ captureFormat: null, isTransmitting: false });
+      // A network blip: socketService reconnects on its own, and the mic comes back with it
+      if (transition.event === 'disconnected') {
+        this.restartAfterReconnect = true;
+        this.reportError('connection', 'Connection Lost', 'Reconnecting to voice service...', true);
+      }
+      return;
+    }
+
+    if (transition.event === 'connected' && this.restartAfterReconnect) {
+      this.restartAfterReconnect = false;
+      console.log('🔄 Reconnected, turning the mic back on');
+      this.isRestoringAfterReconnect = true;
+      this.start().catch((error) => console.error('❌ Could not restore the conversation after reconnecting:', error));
+      return;
+    }
+
+    const { inputMode, isTransmitting } = this.store.getSnapshot();
+    if (inputMode === 'wake-on-voice') {
+      if (transition.to === 'interrupted' && voiceActivityDetection.isCurrentlySpeaking()) {
+        // Barge-in handed the turn back while the user is still talking
+        this.openTransmission(true);
+      } else if (transition.event === 'user-turn-end' && isTransmitting) {
+        this.closeTransmission();
+      }
+    }
+  }
+
+  private handleWake(): void {
+    if (this.wakeIdleTimeoutId) {
+      clearTimeout(this.wakeIdleTimeoutId);
+      this.wakeIdleTimeoutId = null;
+    }
+    const { inputMode, isMicOn, isTransmitting } = this.store.getSnapshot();
+    if (inputMode !== 'wake-on-voice' || !isMicOn || isTransmitting || !conversationState.is(...USER_TURN_PHASES)) return;
+
+    console.log('👂 Speech detected, waking up');
+    this.openTransmission(true);
+  }
+
+  private scheduleWakeIdle(): void {
+    const { inputMode, isTransmitting } = this.store.getSnapshot();
+    if (inputMode !== 'wake-on-voice' || !isTransmitting) return;
+
+    if (this.wakeIdleTimeoutId) {
+      clearTimeout(this.wakeIdleTimeoutId);
+    }
+    this.wakeIdleTimeoutId = setTimeout(() => {
+      this.wakeIdleTimeoutId = null;
+      if (this.store.getSnapshot().isTransmitting && conversationState.is('listening') && !endpointing.getTranscript()) {
+        console.log('💤 Nothing recognized, back to waiting for speech');
+        this.closeTransmission();
+      }
+    }, WAKE_IDLE_MS);
+  }
+
+  // Start sending audio and recognizing it; in hands-free this is the whole time the mic is on
+  private openTransmission(includePreroll: boolean): void {
+    if (this.store.getSnapshot().isTransmitting) return;
+    socketService.resumeRecording(includePreroll);
+    if (speechRecognition.isAvailable()) {
+      speechRecognition.start();
+    }
+    this.store.setState({ isTransmitting: true });
+  }
+
+  private closeTransmission(): void {
+    if (!this.store.getSnapshot().isTransmitting) return;
+    socketService.pauseRecording();
+    speechRecognition.stop();
+    this.store.setState({ isTransmitting: false });
+  }
+
+  private clearTalkTimers(): void {
+    this.isTalkHeld = false;
+    if (this.releaseTimeoutId) {
+      clearTimeout(this.releaseTimeoutId);
+      this.releaseTimeoutId = null;
+    }
+    if (this.wakeIdleTimeoutId) {
+      clearTimeout(this.wakeIdleTimeoutId);
+      this.wakeIdleTimeoutId = null;
+    }
+  }
+
+  private startVoiceActivityDetection(): void {
+    if (!this.microphone || voiceActivityDetection.isRunning()) return;
+    voiceActivityDetection.setPlaybackReference(audioService.getPlaybackReference());
+    voiceActivityDetection.start().catch((error) => {
+      console.warn('⚠️ Voice activity detection unavailable, barge-in disabled:', error);
+    });
+  }
+
+  // Switching modes with the mic on takes effect immediately
+  private applyInputMode(inputMode: InputMode): void {
+    if (inputMode === this.store.getSnapshot().inputMode) return;
+
+    console.log(`🎛️ Input mode: ${inputMode}`);
+    // Push-to-talk turns end on release, not on silence
+    endpointing.configure({ automatic: inputMode !== 'push-to-talk' });
+    this.clearTalkTimers();
+    this.store.setState({ inputMode });
+    if (!this.store.getSnapshot().isMicOn) return;
+
+    if (inputMode === 'push-to-talk') {
+      voiceActivityDetection.stop();
+    } else {
+      this.startVoiceActivityDetection();
+    }
+
+    if (inputMode === 'hands-free') {
+      if (conversationState.is(...USER_TURN_PHASES)) {
+        this.openTransmission(false);
+      } else {
+        // Recognition comes back with the user's turn; only the audio stream resumes now
+        socketService.resumeRecording();
+        this.store.setState({ isTransmitting: true });
+      }
+    } else {
+      this.closeTransmission();
+    }
+  }
+
+  // Recognition follows the effective (possibly detected) language; the backend only hears about the user's choice
+  private applyVoiceSettings(): void {
+    const { language, autoDetectLanguage, inputMode, muteReplies } = voiceSettings.getSnapshot();
+    speechRecognition.setLanguage(voiceSettings.getEffectiveLanguage());
+    socketService.setLanguage({ language, autoDetectLanguage });
+    audioService.setMuted(muteReplies);
+    this.applyInputMode(inputMode);
+    this.syncOutputDevice();
+  }
+
+  // A chosen speaker that's unplugged falls back to the default, and comes back when it's plugged in again
+  private syncOutputDevice(): void {
+    const target = audioDevices.resolveOutput(voiceSettings.getSnapshot().outputDeviceId);
+    audioService.setOutputDevice(target).catch((error) => {
+      console.warn('⚠️ Could not route AI replies to the chosen speaker:', error);
+    });
+  }
+
+  // The manager moved the shared mic to another device and capture and VAD rebuild themselves;
+  // the conversation phase is left alone
+  private handleMicrophoneChange(): void {
+    if (!this.microphone) return;
+    // Web Speech listens on the system default; restart it between utterances so it follows along
+    if (speechRecognition.isCurrentlyListening() && !endpointing.getTranscript()) {
+      speechRecognition.forceRestart();
+    }
+    // Mid-conversation the user or the AI's echo may be on the mic, so a new device is only
+    // measured at the next start; until then it keeps its stored thresholds or the current ones
+    noiseCalibration.applyStored();
+    console.log(`🎧 Switched microphone to ${this.store.getSnapshot().inputDeviceLabel || 'system default'}`);
+  }
+
+  private syncInputDeviceLabel(): void {
+    this.store.setState({ inputDeviceLabel: this.microphone ? microphoneManager.getSnapshot().deviceLabel : null });
+  }
+
+  private syncPhase(phase: ConversationPhase): void {
+    this.store.setState({ phase, isMicOn: ACTIVE_CONVERSATION_PHASES.includes(phase) });
+  }
+
+  private setTranscript(text: string, source: TranscriptSource, isFinal: boolean): void {
+    this.transcriptStore.setState({ text, source, isFinal, updatedAt: Date.now() });
+  }
+
+  private reportError(source: VoiceSessionErrorSource, title: string, message: string, recovering: boolean = false): void {
+    this.store.setState({ error: { source, title, message, recovering, timestamp: Date.now() } });
+  }
+
+  private releaseMediaStream(): void {
+    noiseCalibration.cancel();
+    if (this.microphone) {
+      this.microphone.release();
+      this.microphone = null;
+    }
+    this.syncInputDeviceLabel();
+  }
+}
+
+export const voiceSession = new VoiceSessionController();
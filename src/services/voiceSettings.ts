@@ -0,0 +1,186 @@
+import { ExternalStore } from './externalStore';
+import type { Unsubscribe } from './eventBus';
+
+export interface LanguageOption {
+  code: string; // BCP-47 tag understood by both Web Speech and the backend
+  label: string;
+}
+
+// Languages the backend answers in; recognition accepts any BCP-47 tag, so this only drives the picker
+export const SUPPORTED_LANGUAGES: LanguageOption[] = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'hi-IN', label: 'हिन्दी' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'it-IT', label: 'Italiano' },
+  { code: 'pt-BR', label: 'Português (Brasil)' },
+  { code: 'ja-JP', label: '日本語' },
+  { code: 'ko-KR', label: '한국어' },
+  { code: 'zh-CN', label: '中文 (普通话)' },
+];
+
+// 'hands-free' listens until the mic is turned off; 'push-to-talk' only while the button or
+// spacebar is held; 'wake-on-voice' keeps the mic armed and starts streaming when speech is heard
+export type InputMode = 'hands-free' | 'push-to-talk' | 'wake-on-voice';
+
+export const INPUT_MODES: Array<{ id: InputMode; label: string }> = [
+  { id: 'hands-free', label: 'Hands-free' },
+  { id: 'push-to-talk', label: 'Push to talk' },
+  { id: 'wake-on-voice', label: 'Wake on voice' },
+];
+
+export const DEFAULT_USER_ID = 'web-user'; // Matches socketService.connect()'s default
+
+export interface VoiceSettingsState {
+  userId: string;
+  language: string; // What the user picked
+  autoDetectLanguage: boolean; // Follow the language the backend hears instead
+  detectedLanguage: string | null; // Last language the backend reported; not persisted
+  inputMode: InputMode;
+  muteReplies: boolean; // Read the AI's answers instead of hearing them
+  saveAudio: boolean; // Keep both sides' audio with saved conversations, not just the text
+  inputDeviceId: string | null; // Preferred microphone; null follows the system default
+  outputDeviceId: string | null; // Speaker for AI replies; null follows the system default
+}
+
+type PersistedVoiceSettings = Pick<VoiceSettingsState, 'language' | 'autoDetectLanguage' | 'inputMode' | 'muteReplies' | 'saveAudio' | 'inputDeviceId' | 'outputDeviceId'>;
+
+const STORAGE_KEY_PREFIX = 'sova.voice-settings.';
+
+const DEFAULT_SETTINGS: PersistedVoiceSettings = {
+  language: 'en-US',
+  autoDetectLanguage: false,
+  inputMode: 'hands-free',
+  muteReplies: false,
+  saveAudio: false,
+  inputDeviceId: null,
+  outputDeviceId: null,
+};
+
+// Match a reported tag to a supported one: exact first, then by primary language ('es' → 'es-ES')
+export function resolveLanguage(tag: string): string | null {
+  const normalized = tag.trim().replace('_', '-').toLowerCase();
+  if (!normalized) return null;
+
+  const exact = SUPPORTED_LANGUAGES.find((option) => option.code.toLowerCase() === normalized);
+  if (exact) return exact.code;
+
+  const primary = normalized.split('-')[0];
+  return SUPPORTED_LANGUAGES.find((option) => option.code.toLowerCase().split('-')[0] === primary)?.code ?? null;
+}
+
+export function getLanguageLabel(code: string): string {
+  return SUPPORTED_LANGUAGES.find((option) => option.code === code)?.label ?? code;
+}
+
+/**
+ * Per-user voice preferences, persisted in localStorage under the user's id.
+ *
+ * Only the settings live here; the voice session applies them to recognition, capture and
+ * the backend whenever they change.
+ */
+export class VoiceSettingsService {
+  private store: ExternalStore<VoiceSettingsState>;
+
+  constructor(userId: string = DEFAULT_USER_ID) {
+    this.store = new ExternalStore<VoiceSettingsState>({ userId, ...this.load(userId), detectedLanguage: null });
+  }
+
+  subscribe = (listener: () => void): Unsubscribe => this.store.subscribe(listener);
+  getSnapshot = (): VoiceSettingsState => this.store.getSnapshot();
+
+  // Switch to another user's saved settings
+  setUser(userId: string): void {
+    if (userId === this.store.getSnapshot().userId) return;
+    this.store.setState({ userId, ...this.load(userId), detectedLanguage: null });
+  }
+
+  setLanguage(language: string): void {
+    this.store.setState({ language, detectedLanguage: null });
+    this.persist();
+  }
+
+  setAutoDetectLanguage(autoDetectLanguage: boolean): void {
+    this.store.setState({ autoDetectLanguage, detectedLanguage: null });
+    this.persist();
+  }
+
+  setInputMode(inputMode: InputMode): void {
+    this.store.setState({ inputMode });
+    this.persist();
+  }
+
+  setMuteReplies(muteReplies: boolean): void {
+    this.store.setState({ muteReplies });
+    this.persist();
+  }
+
+  setSaveAudio(saveAudio: boolean): void {
+    this.store.setState({ saveAudio });
+    this.persist();
+  }
+
+  setInputDeviceId(inputDeviceId: string | null): void {
+    this.store.setState({ inputDeviceId });
+    this.persist();
+  }
+
+  setOutputDeviceId(outputDeviceId: string | null): void {
+    this.store.setState({ outputDeviceId });
+    this.persist();
+  }
+
+  // Called with the language of backend transcriptions; ignored unless auto-detect is on
+  reportDetectedLanguage(tag: string): void {
+    const { autoDetectLanguage, detectedLanguage } = this.store.getSnapshot();
+    if (!autoDetectLanguage) return;
+
+    const resolved = resolveLanguage(tag);
+    if (!resolved || resolved === detectedLanguage) return;
+
+    console.log(`🌐 Backend detected language: ${tag} → ${resolved}`);
+    this.store.setState({ detectedLanguage: resolved });
+  }
+
+  // The language recognition should run in right now
+  getEffectiveLanguage(): string {
+    const { language, autoDetectLanguage, detectedLanguage } = this.store.getSnapshot();
+    return autoDetectLanguage && detectedLanguage ? detectedLanguage : language;
+  }
+
+  private load(userId: string): PersistedVoiceSettings {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY_PREFIX + userId) : null;
+      if (!raw) return { ...DEFAULT_SETTINGS };
+
+      const saved = JSON.parse(raw) as Partial<PersistedVoiceSettings>;
+      return {
+        language: typeof saved.language === 'string' && saved.language ? saved.language : DEFAULT_SETTINGS.language,
+        autoDetectLanguage: typeof saved.autoDetectLanguage === 'boolean' ? saved.autoDetectLanguage : DEFAULT_SETTINGS.autoDetectLanguage,
+        inputMode: INPUT_MODES.some((mode) => mode.id === saved.inputMode) ? saved.inputMode : DEFAULT_SETTINGS.inputMode,
+        muteReplies: typeof saved.muteReplies === 'boolean' ? saved.muteReplies : DEFAULT_SETTINGS.muteReplies,
+        saveAudio: typeof saved.saveAudio === 'boolean' ? saved.saveAudio : DEFAULT_SETTINGS.saveAudio,
+        inputDeviceId: typeof saved.inputDeviceId === 'string' && saved.inputDeviceId ? saved.inputDeviceId : DEFAULT_SETTINGS.inputDeviceId,
+        outputDeviceId: typeof saved.outputDeviceId === 'string' && saved.outputDeviceId ? saved.outputDeviceId : DEFAULT_SETTINGS.outputDeviceId,
+      };
+    } catch (error) {
+      console.warn('⚠️ Could not read saved voice settings:', error);
+      return { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  private persist(): void {
+    const { userId, language, autoDetectLanguage, inputMode, muteReplies, saveAudio, inputDeviceId, outputDeviceId } = this.store.getSnapshot();
+    try {
+      localStorage.setItem(STORAGE_KEY_PREFIX + userId, JSON.stringify({ language, autoDetectLanguage, inputMode, muteReplies, saveAudio, inputDeviceId, outputDeviceId }));
+    } catch (error) {
+      // Private browsing or a full quota; the setting still applies for this page
+      console.warn('⚠️ Could not save voice settings:', error);
+    }
+  }
+}
+
+export const voiceSettings = new VoiceSettingsService();
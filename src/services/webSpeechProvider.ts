@@ -0,0 +1,134 @@
+import { EventBus, Unsubscribe } from './eventBus';
+import { TranscriptionProvider, TranscriptionProviderEvents } from './transcriptionProvider';
+
+// The parts of the Web Speech API this adapter uses (lib.dom does not declare them)
+interface SpeechRecognitionAlternativeLike {
+  transcript: string;
+  confidence: number;
+}
+
+interface SpeechRecognitionResultLike {
+  isFinal: boolean;
+  [index: number]: SpeechRecognitionAlternativeLike;
+}
+
+interface SpeechRecognitionEventLike {
+  results: { length: number; [index: number]: SpeechRecognitionResultLike };
+}
+
+interface SpeechRecognitionErrorEventLike {
+  error: string;
+  message?: string;
+}
+
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  maxAlternatives: number;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEventLike) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+// Browser speech recognition through `SpeechRecognition` / `webkitSpeechRecognition` (Chrome, Edge, Safari)
+export class WebSpeechProvider implements TranscriptionProvider {
+  readonly id = 'web-speech' as const;
+  readonly label = 'Browser (Web Speech)';
+  private recognition: SpeechRecognitionLike | null = null;
+  private language: string = 'en-US';
+  private events = new EventBus<TranscriptionProviderEvents>('webSpeechProvider');
+
+  constructor() {
+    const speechWindow = typeof window !== 'undefined'
+      ? window as unknown as { SpeechRecognition?: SpeechRecognitionConstructor; webkitSpeechRecognition?: SpeechRecognitionConstructor }
+      : {};
+    const SpeechRecognition = speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+
+    if (SpeechRecognition) {
+      this.recognition = new SpeechRecognition();
+      this.setupRecognition();
+    } else {
+      console.warn('Web Speech API not supported in this browser');
+    }
+  }
+
+  isSupported(): boolean {
+    return !!this.recognition;
+  }
+
+  start(): void {
+    if (!this.recognition) {
+      throw new Error('Web Speech API not supported in this browser');
+    }
+
+    try {
+      this.recognition.start();
+    } catch (error) {
+      // If it's already started, stop it and start again once it has settled
+      if (error.name === 'InvalidStateError' && error.message.includes('already started')) {
+        console.log('Speech recognition was already started, stopping and restarting...');
+        this.recognition.stop();
+        setTimeout(() => {
+          try {
+            this.recognition.start();
+          } catch (restartError) {
+            console.error('Error restarting speech recognition:', restartError);
+            this.events.emit('error', { code: 'restart-failed', message: restartError.message });
+          }
+        }, 100);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  stop(): void {
+    this.recognition?.stop();
+  }
+
+  setLanguage(language: string): void {
+    this.language = language;
+    if (this.recognition) {
+      this.recognition.lang = language;
+    }
+  }
+
+  on<K extends keyof TranscriptionProviderEvents & string>(event: K, listener: (payload: TranscriptionProviderEvents[K]) => void): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  private setupRecognition() {
+    this.recognition.continuous = true;
+    this.recognition.interimResults = true;
+    this.recognition.lang = this.language;
+
+    // Add confidence threshold to reduce false positives
+    this.recognition.maxAlternatives = 1;
+
+    this.recognition.onresult = (event) => {
+      // Only process the most recent result to prevent accumulation
+      const lastResultIndex = event.results.length - 1;
+      if (lastResultIndex < 0) return;
+
+      const result = event.results[lastResultIndex];
+      this.events.emit('result', {
+        transcript: result[0].transcript,
+        isFinal: result.isFinal,
+        confidence: result[0].confidence || 0,
+      });
+    };
+
+    this.recognition.onerror = (event) => {
+      this.events.emit('error', { code: event.error, message: event.message });
+    };
+
+    this.recognition.onend = () => {
+      this.events.emit('end', undefined);
+    };
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * AudioWorklet processor that turns microphone input into Linear16 PCM frames.
+ *
+ * Input arrives at the context sample rate (usually 44.1 or 48 kHz); it is mixed down
+ * to mono, decimated to `targetSampleRate` by averaging the input samples that fall in
+ * each output period, converted to signed 16-bit and posted in frames of
+ * `frameSamples`. The frame buffers are transferred, not copied.
+ *
+ * Messages in:  { type: 'stop' }
+ * Messages out: { type: 'frame', buffer } | { type: 'stopped' }
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const processorOptions = (options && options.processorOptions) || {};
+
+    this.targetSampleRate = processorOptions.targetSampleRate || 16000;
+    this.frameSamples = processorOptions.frameSamples || Math.round(this.targetSampleRate * 0.1);
+    this.ratio = sampleRate / this.targetSampleRate;
+
+    this.phase = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.lastSample = 0;
+    this.frame = new Int16Array(this.frameSamples);
+    this.frameIndex = 0;
+    this.stopped = false;
+
+    this.port.onmessage = (event) => {
+      if (event.data && event.data.type === 'stop') {
+        this.flush();
+        this.stopped = true;
+        this.port.postMessage({ type: 'stopped' });
+      }
+    };
+  }
+
+  process(inputs) {
+    if (this.stopped) return false;
+
+    const input = inputs[0];
+    if (!input || input.length === 0 || !input[0]) return true;
+
+    const channels = input.length;
+    const length = input[0].length;
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (let c = 0; c < channels; c++) {
+        sample += input[c][i];
+      }
+      sample /= channels;
+
+      this.sum += sample;
+      this.count++;
+      this.lastSample = sample;
+      this.phase += 1;
+
+      // Emit one output sample per `ratio` input samples (more than one when upsampling)
+      while (this.phase >= this.ratio) {
+        this.phase -= this.ratio;
+        this.emit(this.count > 0 ? this.sum / this.count : this.lastSample);
+        this.sum = 0;
+        this.count = 0;
+      }
+    }
+    return true;
+  }
+
+  emit(sample) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.frame[this.frameIndex++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    if (this.frameIndex === this.frameSamples) {
+      this.post(this.frame);
+      this.frame = new Int16Array(this.frameSamples);
+      this.frameIndex = 0;
+    }
+  }
+
+  // Send whatever is left of the current frame
+  flush() {
+    if (this.frameIndex > 0) {
+      this.post(this.frame.slice(0, this.frameIndex));
+      this.frameIndex = 0;
+    }
+  }
+
+  post(frame) {
+    this.port.postMessage({ type: 'frame', buffer: frame.buffer }, [frame.buffer]);
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,147 @@
+/**
+ * AudioWorklet processor that plays a continuous PCM stream out of a ring buffer.
+ *
+ * The main thread posts Float32 mono frames (already at the context sample rate);
+ * playback starts once `targetFrames` are buffered, so network jitter is absorbed
+ * instead of turning into gaps. When the buffer runs dry mid-stream an underrun is
+ * reported and the processor re-primes before resuming. After an `end` message the
+ * tail is played out even if it is shorter than the target, and `drained` is posted.
+ *
+ * Messages in:  { type: 'push', samples } | { type: 'end' } | { type: 'clear' } | { type: 'config', targetFrames }
+ * Messages out: { type: 'started' } | { type: 'underrun' } | { type: 'drained' } | { type: 'stats', ... }
+ */
+class PcmPlayerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const processorOptions = (options && options.processorOptions) || {};
+
+    this.capacity = processorOptions.capacityFrames || sampleRate * 30;
+    this.targetFrames = processorOptions.targetFrames || Math.round(sampleRate * 0.15);
+    this.statsIntervalFrames = Math.round(sampleRate * ((processorOptions.statsIntervalMs || 250) / 1000));
+
+    this.buffer = new Float32Array(this.capacity);
+    this.readIndex = 0;
+    this.writeIndex = 0;
+    this.available = 0;
+    this.primed = false;
+    this.ending = false;
+
+    this.underruns = 0;
+    this.overflowFrames = 0;
+    this.framesPlayed = 0;
+    this.framesSinceStats = 0;
+
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  handleMessage(message) {
+    switch (message.type) {
+      case 'push':
+        this.write(message.samples);
+        break;
+      case 'end':
+        this.ending = true;
+        break;
+      case 'clear':
+        this.readIndex = 0;
+        this.writeIndex = 0;
+        this.available = 0;
+        this.primed = false;
+        this.ending = false;
+        break;
+      case 'config':
+        if (message.targetFrames > 0) {
+          this.targetFrames = Math.min(message.targetFrames, this.capacity);
+        }
+        break;
+    }
+  }
+
+  write(samples) {
+    // Keep the newest audio when the producer outruns the buffer
+    const overflow = this.available + samples.length - this.capacity;
+    if (overflow > 0) {
+      this.readIndex = (this.readIndex + overflow) % this.capacity;
+      this.available -= overflow;
+      this.overflowFrames += overflow;
+    }
+
+    let offset = 0;
+    if (samples.length > this.capacity) {
+      offset = samples.length - this.capacity;
+    }
+    for (let i = offset; i < samples.length; i++) {
+      this.buffer[this.writeIndex] = samples[i];
+      this.writeIndex = (this.writeIndex + 1) % this.capacity;
+    }
+    this.available += samples.length - offset;
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0];
+    const channel = output[0];
+    if (!channel) return true;
+
+    if (!this.primed) {
+      if (this.available >= this.targetFrames || (this.ending && this.available > 0)) {
+        this.primed = true;
+        this.port.postMessage({ type: 'started' });
+      } else {
+        channel.fill(0);
+        this.copyToOtherChannels(output);
+        this.reportStats(channel.length);
+        return true;
+      }
+    }
+
+    const frames = Math.min(channel.length, this.available);
+    for (let i = 0; i < frames; i++) {
+      channel[i] = this.buffer[this.readIndex];
+      this.readIndex = (this.readIndex + 1) % this.capacity;
+    }
+    if (frames < channel.length) {
+      channel.fill(0, frames);
+    }
+    this.available -= frames;
+    this.framesPlayed += frames;
+
+    if (this.available === 0) {
+      this.primed = false;
+      if (this.ending) {
+        this.ending = false;
+        this.port.postMessage({ type: 'drained' });
+      } else {
+        this.underruns++;
+        this.port.postMessage({ type: 'underrun' });
+      }
+    }
+
+    this.copyToOtherChannels(output);
+    this.reportStats(channel.length);
+    return true;
+  }
+
+  copyToOtherChannels(output) {
+    for (let c = 1; c < output.length; c++) {
+      output[c].set(output[0]);
+    }
+  }
+
+  reportStats(frames) {
+    this.framesSinceStats += frames;
+    if (this.framesSinceStats < this.statsIntervalFrames) return;
+    this.framesSinceStats = 0;
+
+    this.port.postMessage({
+      type: 'stats',
+      bufferedFrames: this.available,
+      targetFrames: this.targetFrames,
+      underruns: this.underruns,
+      overflowFrames: this.overflowFrames,
+      framesPlayed: this.framesPlayed,
+      primed: this.primed,
+    });
+  }
+}
+
+registerProcessor('pcm-player', PcmPlayerProcessor);
@@ -19,4 +19,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  build: {
+    // AudioWorklet modules must load from a real URL; data: URLs are rejected by some browsers
+    assetsInlineLimit: (filePath) => (filePath.includes("/worklets/") ? false : undefined),
+  },
 }));